@@ -0,0 +1,104 @@
+// Refreshes src/app/data/advisories/ from the OSV bulk exports.
+//
+// Usage: npm run update-advisories -- [ecosystem ...]
+//
+// The analyzer matches dependencies against these files without any network
+// access, so they must be regenerated and committed to pick up new
+// advisories. The committed files are a small sample until then, and the
+// analyzer gives no credit for a clean result against it.
+
+import { writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { unzipSync, strFromU8 } from "fflate";
+
+// One file per ecosystem, loaded by the analyzer only for the ecosystems a
+// repository uses; the names match ADVISORY_FILES in vulnerabilities.ts
+const ECOSYSTEMS = {
+  npm: "npm",
+  PyPI: "pypi",
+  "crates.io": "crates-io",
+  Go: "go",
+  Maven: "maven",
+  RubyGems: "rubygems",
+};
+const OUTPUT_DIRECTORY = new URL(
+  "../src/app/data/advisories/",
+  import.meta.url,
+);
+
+// Keeps only the fields the matcher reads, and the packages of the
+// ecosystem the file is for, so the bundled files stay small
+function compact(advisory, ecosystem) {
+  return {
+    id: advisory.id,
+    summary: advisory.summary ?? advisory.details?.split("\n")[0] ?? "",
+    aliases: advisory.aliases ?? [],
+    modified: advisory.modified,
+    database_specific: advisory.database_specific?.severity
+      ? { severity: advisory.database_specific.severity }
+      : undefined,
+    affected: (advisory.affected ?? [])
+      .filter((affected) => affected.package?.ecosystem === ecosystem)
+      .map((affected) => {
+        const ranges = (affected.ranges ?? []).filter(
+          (range) => range.type !== "GIT",
+        );
+        return {
+          package: {
+            ecosystem: affected.package.ecosystem,
+            name: affected.package.name,
+          },
+          ranges,
+          // Explicit version lists are only needed when no range is given
+          ...(ranges.length === 0 && affected.versions
+            ? { versions: affected.versions }
+            : {}),
+        };
+      }),
+  };
+}
+
+async function download(ecosystem) {
+  const url = `https://osv-vulnerabilities.storage.googleapis.com/${encodeURIComponent(ecosystem)}/all.zip`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+
+  const files = unzipSync(new Uint8Array(await response.arrayBuffer()));
+  return Object.values(files)
+    .map((data) => JSON.parse(strFromU8(data)))
+    .filter((advisory) => !advisory.withdrawn)
+    .map((advisory) => compact(advisory, ecosystem))
+    .filter((advisory) => advisory.affected.length > 0)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+const ecosystems = process.argv.slice(2).length
+  ? process.argv.slice(2)
+  : Object.keys(ECOSYSTEMS);
+for (const ecosystem of ecosystems) {
+  if (!(ecosystem in ECOSYSTEMS)) {
+    throw new Error(`Unknown ecosystem: ${ecosystem}`);
+  }
+  const advisories = await download(ecosystem);
+  const output = fileURLToPath(
+    new URL(`${ECOSYSTEMS[ecosystem]}.json`, OUTPUT_DIRECTORY),
+  );
+  await writeFile(
+    output,
+    `${JSON.stringify(
+      {
+        generated: new Date().toISOString(),
+        source: "https://osv.dev",
+        sample: false,
+        advisories,
+      },
+      null,
+      2,
+    )}\n`,
+  );
+  console.log(
+    `${ecosystem}: wrote ${advisories.length} advisories to ${output}`,
+  );
+}
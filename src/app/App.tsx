@@ -1,44 +1,86 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { RepositoryInput } from './components/RepositoryInput';
 import { AnalysisResults } from './components/AnalysisResults';
-import { analyzeRepository } from './utils/repositoryAnalyzer';
-import { GitBranch, Loader2 } from 'lucide-react';
+import { AnalysisProgress } from './components/AnalysisProgress';
+import { SettingsDialog } from './components/SettingsDialog';
+import { RateLimitIndicator } from './components/RateLimitIndicator';
+import { analyzeArchive, analyzeRepository } from './utils/repositoryAnalyzer';
+import { readArchive } from './utils/archive';
+import type { AnalysisStep } from './utils/progress';
+import type { AnalyzeOptions } from './utils/repositoryAnalyzer';
+import { GitBranch } from 'lucide-react';
 import type { AnalysisResult } from './types';
 
 export default function App() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [steps, setSteps] = useState<AnalysisStep[]>([]);
+  const controller = useRef<AbortController | null>(null);
 
-  const handleAnalyze = async (url: string) => {
+  const runAnalysis = async (
+    analyze: (run: AnalyzeOptions) => Promise<AnalysisResult>,
+  ) => {
+    const abort = new AbortController();
+    controller.current = abort;
     setLoading(true);
     setError(null);
     setResult(null);
+    setSteps([]);
+
+    // A step that runs again, e.g. the tree of another revision, replaces
+    // its earlier entry
+    const onProgress = (step: AnalysisStep) =>
+      setSteps((current) =>
+        current.some((existing) => existing.id === step.id)
+          ? current.map((existing) => (existing.id === step.id ? step : existing))
+          : [...current, step],
+      );
 
     try {
-      const analysis = await analyzeRepository(url);
+      const analysis = await analyze({ signal: abort.signal, onProgress });
       setResult(analysis);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      // Cancelling returns to the form without reporting an error
+      if (!abort.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      }
     } finally {
+      controller.current = null;
       setLoading(false);
     }
   };
 
+  const handleAnalyze = (url: string, options: AnalyzeOptions) =>
+    runAnalysis((run) => analyzeRepository(url, { ...options, ...run }));
+
+  const handleUpload = (file: File, options: AnalyzeOptions) =>
+    runAnalysis(async (run) =>
+      analyzeArchive(await readArchive(file), { ...options, ...run }),
+    );
+
+  const handleCancel = () => controller.current?.abort();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
       {/* Header */}
       <header className="border-b border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center gap-3">
-            <div className="rounded-lg bg-blue-500/10 p-3">
-              <GitBranch className="h-8 w-8 text-blue-400" />
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="rounded-lg bg-blue-500/10 p-3">
+                <GitBranch className="h-8 w-8 text-blue-400" />
+              </div>
+              <div>
+                <h1 className="text-3xl text-white">Repository Mirror</h1>
+                <p className="text-slate-400">
+                  AI-Powered Repository Evaluation System
+                </p>
+              </div>
             </div>
-            <div>
-              <h1 className="text-3xl text-white">Repository Mirror</h1>
-              <p className="text-slate-400">
-                AI-Powered Repository Evaluation System
-              </p>
+            <div className="flex items-center gap-4">
+              <RateLimitIndicator />
+              <SettingsDialog />
             </div>
           </div>
         </div>
@@ -82,18 +124,14 @@ export default function App() {
           )}
 
           {/* Input Section */}
-          <RepositoryInput onAnalyze={handleAnalyze} disabled={loading} />
+          <RepositoryInput
+            onAnalyze={handleAnalyze}
+            onUpload={handleUpload}
+            disabled={loading}
+          />
 
           {/* Loading State */}
-          {loading && (
-            <div className="mt-12 rounded-2xl bg-slate-800/50 p-12 text-center backdrop-blur-sm border border-slate-700/50">
-              <Loader2 className="mx-auto h-12 w-12 animate-spin text-blue-400 mb-4" />
-              <h3 className="text-xl text-white mb-2">Analyzing Repository...</h3>
-              <p className="text-slate-400">
-                Fetching repository data and evaluating code quality, structure, and best practices
-              </p>
-            </div>
-          )}
+          {loading && <AnalysisProgress steps={steps} onCancel={handleCancel} />}
 
           {/* Error State */}
           {error && (
@@ -101,7 +139,8 @@ export default function App() {
               <h3 className="text-xl text-red-400 mb-2">Analysis Failed</h3>
               <p className="text-red-300">{error}</p>
               <p className="mt-4 text-sm text-slate-400">
-                Please ensure the repository URL is correct and the repository is public.
+                Please ensure the repository URL is correct and the repository is public, or add an
+                access token in Settings for private repositories.
               </p>
             </div>
           )}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Ban, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import type { AnalysisStep } from '../utils/progress';
+
+interface AnalysisProgressProps {
+  steps: AnalysisStep[];
+  onCancel: () => void;
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function StepIcon({ status }: { status: AnalysisStep['status'] }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-blue-400" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-400" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-slate-500" />;
+  }
+}
+
+export function AnalysisProgress({ steps, onCancel }: AnalysisProgressProps) {
+  // Re-render while a step runs so its elapsed time keeps counting
+  const [now, setNow] = useState(Date.now);
+  const running = steps.some((step) => step.status === 'running');
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return (
+    <div className="mt-12 rounded-2xl bg-slate-800/50 p-8 backdrop-blur-sm border border-slate-700/50">
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+          <div>
+            <h3 className="text-xl text-white">Analyzing Repository...</h3>
+            <p className="text-sm text-slate-400">
+              Fetching repository data and evaluating code quality, structure, and best practices
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          className="border-slate-600 bg-slate-800/50 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          Cancel
+        </Button>
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="space-y-2">
+          {steps.map((step) => (
+            <li key={step.id} className="flex items-center justify-between gap-4 text-sm">
+              <span className="flex items-center gap-2 text-slate-300">
+                <StepIcon status={step.status} />
+                {step.label}
+              </span>
+              <span className="tabular-nums text-slate-500">
+                {formatDuration(
+                  step.duration ?? Math.max(0, now - step.startedAt.getTime()),
+                )}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
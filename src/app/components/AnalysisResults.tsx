@@ -1,9 +1,27 @@
-import { Trophy, TrendingUp, FileText, Target } from 'lucide-react';
+import {
+  Trophy,
+  TrendingUp,
+  FileText,
+  Target,
+  Scale,
+  History,
+  GitCommit,
+  AlertTriangle,
+  Gauge,
+} from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import type { AnalysisResult } from '../types';
+import { CiOverview } from './CiOverview';
+import { CiHealthCard } from './CiHealthCard';
+import { DocumentationOverview } from './DocumentationOverview';
+import { DependencyOverview } from './DependencyOverview';
+import { VulnerabilityFindings } from './VulnerabilityFindings';
+import { SecretFindings } from './SecretFindings';
+import { RuleBreakdown } from './RuleBreakdown';
+import { WorkspacePackages } from './WorkspacePackages';
+import type { AnalysisResult, ScoreDimension } from '../types';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -12,7 +30,13 @@ interface AnalysisResultsProps {
 }
 
 export function AnalysisResults({ result }: AnalysisResultsProps) {
-  const overallPercentage = (result.overallScore / result.maxScore) * 100;
+  // Nothing is left to score when every dimension is incomplete
+  const overallPercentage =
+    result.maxScore > 0 ? (result.overallScore / result.maxScore) * 100 : 0;
+  const confidence = Math.round(result.confidence * 100);
+  const unavailableSources = result.sources.filter(
+    (source) => source.status === 'unavailable',
+  );
 
   const getTierColor = (tier: string) => {
     switch (tier) {
@@ -40,6 +64,12 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
     }
   };
 
+  const getConfidenceColor = (percentage: number) => {
+    if (percentage === 100) return 'text-green-400';
+    if (percentage >= 70) return 'text-yellow-400';
+    return 'text-red-400';
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'High':
@@ -73,6 +103,40 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
                     {result.skillLevel}
                   </span>
                 </Badge>
+                <Badge variant="outline" className="border-slate-600 text-slate-400">
+                  <Scale className="mr-1 h-3 w-3" />
+                  {result.rubric.name} rubric
+                </Badge>
+                <Badge
+                  variant="outline"
+                  className="border-slate-600 text-slate-400"
+                  title="Share of the rubric's points that could be scored with the data fetched"
+                >
+                  <Gauge className={`mr-1 h-3 w-3 ${getConfidenceColor(confidence)}`} />
+                  <span className={getConfidenceColor(confidence)}>{confidence}%</span>
+                  &nbsp;confidence
+                </Badge>
+                {result.snapshot?.revision && (
+                  <Badge
+                    variant="outline"
+                    className="border-slate-600 text-slate-400"
+                    title={`Pinned to commit ${result.snapshot.commit}`}
+                  >
+                    <GitCommit className="mr-1 h-3 w-3" />
+                    {result.snapshot.revision} ({result.snapshot.commit.slice(0, 7)})
+                  </Badge>
+                )}
+                {result.snapshot?.replayed && (
+                  <Badge
+                    variant="outline"
+                    className="border-slate-600 text-slate-400"
+                    title={`Replayed at commit ${result.snapshot.commit}`}
+                  >
+                    <History className="mr-1 h-3 w-3" />
+                    As of {new Date(result.asOf).toLocaleDateString()}
+                    {!result.snapshot.revision && ` (${result.snapshot.commit.slice(0, 7)})`}
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="text-right">
@@ -89,18 +153,39 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
           <p className="mt-2 text-sm text-slate-400">
             {overallPercentage.toFixed(1)}% - {getScoreDescription(overallPercentage)}
           </p>
+          {unavailableSources.length > 0 && (
+            <div className="mt-4 flex items-start gap-2 rounded-lg border border-yellow-700/50 bg-yellow-900/20 p-3 text-sm text-yellow-300">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <div>
+                <p>
+                  Some data could not be fetched, so the dimensions that rely on it are left out
+                  of the overall score.
+                </p>
+                <ul className="mt-1 list-disc pl-5 text-yellow-200/80">
+                  {unavailableSources.map((source) => (
+                    <li key={source.id}>
+                      {source.name} unavailable: {source.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Tabs for Different Sections */}
       <Tabs defaultValue="scores" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 bg-slate-800/50 border border-slate-700/50">
+        <TabsList className="grid w-full grid-cols-4 bg-slate-800/50 border border-slate-700/50">
           <TabsTrigger value="scores" className="data-[state=active]:bg-slate-700">
             📊 Detailed Scores
           </TabsTrigger>
           <TabsTrigger value="summary" className="data-[state=active]:bg-slate-700">
             📝 Summary
           </TabsTrigger>
+          <TabsTrigger value="dependencies" className="data-[state=active]:bg-slate-700">
+            📦 Dependencies
+          </TabsTrigger>
           <TabsTrigger value="roadmap" className="data-[state=active]:bg-slate-700">
             🎯 Roadmap
           </TabsTrigger>
@@ -128,6 +213,7 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
             icon="🧪"
             dimension={result.scores.testing}
           />
+          {result.ci?.runHealth && <CiHealthCard health={result.ci.runHealth} />}
           <ScoreDimensionCard
             title="Real-World Relevance & Usefulness"
             icon="🌍"
@@ -138,6 +224,22 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
             icon="📈"
             dimension={result.scores.developmentPractices}
           />
+          <ScoreDimensionCard
+            title="Dependency Health"
+            icon="📦"
+            dimension={result.scores.dependencyHealth}
+          />
+          <ScoreDimensionCard
+            title="Security & Known Vulnerabilities"
+            icon="🛡️"
+            dimension={result.scores.security}
+          />
+          {result.secrets &&
+            (result.secrets.findings.length > 0 ||
+              result.secrets.committedEnvFiles.length > 0) && (
+              <SecretFindings report={result.secrets} />
+            )}
+          {result.workspaces && <WorkspacePackages report={result.workspaces} />}
         </TabsContent>
 
         {/* Summary Tab */}
@@ -159,6 +261,22 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
           </Card>
         </TabsContent>
 
+        {/* Dependencies Tab */}
+        <TabsContent value="dependencies" className="space-y-4 mt-6">
+          {result.dependencies ? (
+            <>
+              {result.vulnerabilities && (
+                <VulnerabilityFindings report={result.vulnerabilities} />
+              )}
+              <DependencyOverview report={result.dependencies} />
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">
+              Dependencies could not be inspected because the repository file tree was unavailable.
+            </p>
+          )}
+        </TabsContent>
+
         {/* Roadmap Tab */}
         <TabsContent value="roadmap" className="space-y-4 mt-6">
           <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
@@ -217,9 +335,34 @@ function ScoreDimensionCard({
 }: {
   title: string;
   icon: string;
-  dimension: { score: number; maxScore: number; feedback: string[] };
+  dimension: ScoreDimension;
 }) {
   const percentage = (dimension.score / dimension.maxScore) * 100;
+  // Every rule needed data the source does not have, e.g. stars for an
+  // uploaded archive
+  const notApplicable = dimension.maxScore === 0 && dimension.notApplicable.length > 0;
+
+  if (dimension.incomplete) {
+    return (
+      <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-white">
+            <span className="text-2xl">{icon}</span>
+            {title}
+            <Badge variant="outline" className="ml-auto border-yellow-700/50 text-yellow-400">
+              Incomplete
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-slate-400">
+            {dimension.incomplete} The dimension is left out of the overall score until it can
+            be analyzed again.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
 
   return (
     <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
@@ -227,31 +370,55 @@ function ScoreDimensionCard({
         <CardTitle className="flex items-center gap-2 text-white">
           <span className="text-2xl">{icon}</span>
           {title}
+          {notApplicable && (
+            <Badge variant="outline" className="ml-auto border-slate-600 text-slate-400">
+              Not applicable
+            </Badge>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div>
-          <div className="mb-2 flex items-center justify-between">
-            <span className="text-sm text-slate-400">Score</span>
-            <span className="text-lg text-white">
-              {dimension.score}
-              <span className="text-slate-400">/{dimension.maxScore}</span>
-            </span>
+        {notApplicable ? (
+          <p className="text-sm text-slate-400">
+            This source has no hosting metadata or history to score, so the dimension is left
+            out of the overall maximum.
+          </p>
+        ) : (
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <span className="text-sm text-slate-400">Score</span>
+              <span className="text-lg text-white">
+                {dimension.score}
+                <span className="text-slate-400">/{dimension.maxScore}</span>
+              </span>
+            </div>
+            <Progress value={percentage} className="h-2 bg-slate-700" />
+            <p className="mt-1 text-sm text-slate-500">{percentage.toFixed(1)}%</p>
+          </div>
+        )}
+        {!notApplicable && dimension.notApplicable.length > 0 && (
+          <p className="text-sm text-slate-500">
+            Not applicable to this source: {dimension.notApplicable.join(', ')}
+          </p>
+        )}
+        {dimension.feedback.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm text-slate-400">Feedback:</div>
+            <ul className="space-y-1.5">
+              {dimension.feedback.map((item, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm text-slate-300">
+                  <span className="mt-1 text-xs">•</span>
+                  <span>{item}</span>
+                </li>
+              ))}
+            </ul>
           </div>
-          <Progress value={percentage} className="h-2 bg-slate-700" />
-          <p className="mt-1 text-sm text-slate-500">{percentage.toFixed(1)}%</p>
-        </div>
-        <div className="space-y-2">
-          <div className="text-sm text-slate-400">Feedback:</div>
-          <ul className="space-y-1.5">
-            {dimension.feedback.map((item, index) => (
-              <li key={index} className="flex items-start gap-2 text-sm text-slate-300">
-                <span className="mt-1 text-xs">•</span>
-                <span>{item}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
+        )}
+        <RuleBreakdown dimension={dimension} />
+        {dimension.ci && <CiOverview ci={dimension.ci} />}
+        {dimension.documentation && (
+          <DocumentationOverview documentation={dimension.documentation} />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,74 @@
+import { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { isSupportedArchive } from '../utils/archive';
+
+interface ArchiveDropZoneProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+}
+
+export function ArchiveDropZone({ onFile, disabled }: ArchiveDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [rejected, setRejected] = useState<string | null>(null);
+
+  const accept = (file: File | undefined) => {
+    if (!file) return;
+    if (!isSupportedArchive(file.name)) {
+      setRejected(file.name);
+      return;
+    }
+    setRejected(null);
+    onFile(file);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          if (!disabled) accept(e.dataTransfer.files[0]);
+        }}
+        className={`flex w-full flex-col items-center gap-2 rounded-lg border border-dashed p-6 text-center transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+          dragging
+            ? 'border-blue-400 bg-blue-500/10'
+            : 'border-slate-600 bg-slate-900/30 hover:border-slate-500'
+        }`}
+      >
+        <Upload className="h-6 w-6 text-blue-400" />
+        <span className="text-sm text-slate-300">
+          Drop a .zip or .tar.gz of your project, or click to choose one
+        </span>
+        <span className="text-xs text-slate-500">
+          The archive is read in your browser and never uploaded. Include the .git folder, or zip a
+          bare repository, to grade the commit history too. Stars and issues are not available, so
+          the checks that need them are left out.
+        </span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,.tar,.tar.gz,.tgz"
+        className="hidden"
+        onChange={(e) => {
+          accept(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {rejected && (
+        <p className="mt-2 text-sm text-red-400">
+          {rejected} is not a .zip, .tar or .tar.gz archive
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  clearCache,
+  getCacheTtlMinutes,
+  listCacheEntries,
+  setCacheTtlMinutes,
+} from '../utils/responseCache';
+import type { CacheEntry } from '../utils/responseCache';
+
+const TTL_OPTIONS: Array<[number, string]> = [
+  [0, 'Always revalidate'],
+  [10, '10 minutes'],
+  [60, '1 hour'],
+  [24 * 60, '1 day'],
+];
+
+// Entries listed at once; the totals still cover the whole cache
+const LISTED_ENTRIES = 50;
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function CacheInspector() {
+  const [ttl, setTtl] = useState(getCacheTtlMinutes);
+  const [entries, setEntries] = useState<CacheEntry[] | null>(null);
+
+  const reload = () => {
+    listCacheEntries()
+      .then(setEntries)
+      .catch(() => setEntries([]));
+  };
+
+  useEffect(reload, []);
+
+  const handleTtlChange = (value: string) => {
+    setCacheTtlMinutes(Number(value));
+    setTtl(Number(value));
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    reload();
+  };
+
+  const totalSize = entries?.reduce((sum, entry) => sum + entry.size, 0) ?? 0;
+  const ttlOptions = TTL_OPTIONS.some(([minutes]) => minutes === ttl)
+    ? TTL_OPTIONS
+    : [...TTL_OPTIONS, [ttl, `${ttl} minutes`] as [number, string]];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="flex items-center gap-2 text-lg text-white">
+          <Database className="h-5 w-5 text-blue-400" />
+          Response Cache
+        </h3>
+        <p className="text-sm text-slate-400">
+          API responses are kept in this browser. Older responses are checked with the host
+          before they are reused, which does not count against the GitHub quota when nothing
+          changed.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-300">Reuse responses without checking for</Label>
+        <Select value={String(ttl)} onValueChange={handleTtlChange}>
+          <SelectTrigger className="bg-slate-800/50 border-slate-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-900 border-slate-700 text-white">
+            {ttlOptions.map(([minutes, label]) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-slate-300">
+          {entries === null
+            ? 'Reading cache...'
+            : `${entries.length} responses · ${formatBytes(totalSize)}`}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleClear}
+          disabled={!entries?.length}
+          className="text-red-400 hover:bg-red-900/20 hover:text-red-300"
+        >
+          <Trash2 className="h-4 w-4" />
+          Clear cache
+        </Button>
+      </div>
+
+      {entries && entries.length > 0 && (
+        <ul className="max-h-48 space-y-1 overflow-y-auto rounded-lg border border-slate-700/50 bg-slate-800/30 p-2 text-xs">
+          {entries.slice(0, LISTED_ENTRIES).map((entry) => (
+            <li key={entry.key} className="flex justify-between gap-3">
+              <span className="truncate text-slate-300" title={entry.key}>
+                {entry.url}
+              </span>
+              <span className="shrink-0 text-slate-500">
+                {formatBytes(entry.size)} · {entry.storedAt.toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
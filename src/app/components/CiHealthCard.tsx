@@ -0,0 +1,77 @@
+import { Activity } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import { Badge } from './ui/badge';
+import { formatDuration } from '../utils/ciRuns';
+import type { CiRunHealth } from '../types';
+
+interface CiHealthCardProps {
+  health: CiRunHealth;
+}
+
+export function CiHealthCard({ health }: CiHealthCardProps) {
+  const passPercentage = health.passRate * 100;
+  const passing = health.latestConclusion === 'success';
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-white">
+          <span className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-green-400" />
+            CI Pipeline Health
+          </span>
+          <Badge variant={passing ? 'secondary' : 'destructive'}>
+            {passing ? 'Passing' : 'Failing'}
+          </Badge>
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          Based on the last {health.runCount} completed runs on the default branch
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-sm text-slate-400">Pass rate</span>
+            <span className="text-lg text-white">{passPercentage.toFixed(0)}%</span>
+          </div>
+          <Progress value={passPercentage} className="h-2 bg-slate-700" />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="rounded-lg bg-slate-900/50 p-4 border border-slate-700/30">
+            <div className="text-sm text-slate-400">Median duration</div>
+            <div className="text-lg text-white">
+              {health.medianDurationSeconds !== null
+                ? formatDuration(health.medianDurationSeconds)
+                : 'Unknown'}
+            </div>
+          </div>
+          <div className="rounded-lg bg-slate-900/50 p-4 border border-slate-700/30">
+            <div className="text-sm text-slate-400">Last green build</div>
+            <div className="text-lg text-white">
+              {health.lastSuccessAt
+                ? formatDistanceToNow(new Date(health.lastSuccessAt), { addSuffix: true })
+                : 'Never'}
+            </div>
+          </div>
+        </div>
+
+        {health.flakyJobs.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm text-slate-400">Flaky jobs:</div>
+            <ul className="space-y-1.5">
+              {health.flakyJobs.map((job) => (
+                <li key={job} className="flex items-start gap-2 text-sm text-slate-300">
+                  <span className="mt-1 text-yellow-400">▸</span>
+                  <span>{job}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { Workflow } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { CiJob, CiSummary } from '../types';
+
+interface CiOverviewProps {
+  ci: CiSummary;
+}
+
+const JOB_TAGS: Array<{ key: keyof CiJob; label: string }> = [
+  { key: 'runsTests', label: 'tests' },
+  { key: 'runsLint', label: 'lint' },
+  { key: 'runsBuild', label: 'build' },
+  { key: 'deploys', label: 'deploy' },
+  { key: 'hasMatrix', label: 'matrix' },
+];
+
+export function CiOverview({ ci }: CiOverviewProps) {
+  const unparsed = ci.configFiles.filter(
+    (path) => !ci.pipelines.some((pipeline) => pipeline.path === path),
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <Workflow className="h-4 w-4 text-blue-400" />
+        CI/CD Pipelines:
+      </div>
+      {ci.pipelines.map((pipeline) => (
+        <div
+          key={pipeline.path}
+          className="rounded-lg bg-slate-900/50 p-4 border border-slate-700/30"
+        >
+          <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <div className="text-sm text-white">{pipeline.name}</div>
+              <div className="text-xs text-slate-500">
+                {pipeline.system} · {pipeline.path}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {pipeline.triggers.map((trigger) => (
+                <Badge key={trigger} variant="outline" className="border-slate-600 text-slate-400">
+                  {trigger}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <ul className="space-y-1">
+            {pipeline.jobs.map((job, index) => (
+              <li key={index} className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+                <span className="text-blue-400">▸</span>
+                <span>{job.name}</span>
+                {JOB_TAGS.filter((tag) => job[tag.key]).map((tag) => (
+                  <Badge key={tag.key} variant="secondary" className="text-xs">
+                    {tag.label}
+                  </Badge>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      {unparsed.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Not inspected: {unparsed.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Package } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import type { Dependency, DependencyReport } from '../types';
+
+interface DependencyOverviewProps {
+  report: DependencyReport;
+}
+
+const CONSTRAINT_STYLES: Record<Dependency['constraint'], string> = {
+  pinned: 'bg-green-900/40 text-green-300',
+  range: 'bg-slate-700 text-slate-300',
+  unbounded: 'bg-red-900/40 text-red-300',
+};
+
+export function DependencyOverview({ report }: DependencyOverviewProps) {
+  const runtimeCount = report.dependencies.filter((dep) => !dep.dev).length;
+  const pinnedCount = report.dependencies.filter((dep) => dep.constraint === 'pinned').length;
+
+  const stats = [
+    { label: 'Dependencies', value: report.dependencies.length },
+    { label: 'Runtime', value: runtimeCount },
+    { label: 'Pinned', value: pinnedCount },
+    { label: 'Duplicated', value: report.duplicates.length },
+  ];
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Package className="h-5 w-5 text-blue-400" />
+          Dependency Inventory
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          {report.manifests.length > 0
+            ? `Parsed from ${report.manifests.join(', ')}`
+            : 'No dependency manifests were found in the repository'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="rounded-lg bg-slate-900/50 p-4 border border-slate-700/30"
+            >
+              <div className="text-sm text-slate-400">{stat.label}</div>
+              <div className="text-2xl text-white">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm text-slate-400">Lockfiles:</div>
+          <div className="flex flex-wrap gap-2">
+            {report.lockfiles.length > 0 ? (
+              report.lockfiles.map((path) => (
+                <Badge key={path} variant="outline" className="border-slate-600 text-slate-300">
+                  {path}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-sm text-slate-500">None committed</span>
+            )}
+          </div>
+        </div>
+
+        {report.duplicates.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm text-slate-400">Resolved at multiple versions:</div>
+            <ul className="space-y-1.5">
+              {report.duplicates.slice(0, 20).map((dup) => (
+                <li key={dup.name} className="flex items-start gap-2 text-sm text-slate-300">
+                  <span className="mt-1 text-yellow-400">▸</span>
+                  <span>
+                    {dup.name}{' '}
+                    <span className="text-slate-500">{dup.versions.join(', ')}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {report.dependencies.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700">
+                <TableHead className="text-slate-400">Package</TableHead>
+                <TableHead className="text-slate-400">Requirement</TableHead>
+                <TableHead className="text-slate-400">Type</TableHead>
+                <TableHead className="text-slate-400">Ecosystem</TableHead>
+                <TableHead className="text-slate-400">Manifest</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.dependencies.map((dep, index) => (
+                <TableRow key={index} className="border-slate-700/50">
+                  <TableCell className="text-white">{dep.name}</TableCell>
+                  <TableCell>
+                    <span className={`rounded px-2 py-0.5 text-xs ${CONSTRAINT_STYLES[dep.constraint]}`}>
+                      {dep.range ?? 'any'}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-slate-300">{dep.dev ? 'dev' : 'runtime'}</TableCell>
+                  <TableCell className="text-slate-300">{dep.ecosystem}</TableCell>
+                  <TableCell className="text-slate-500">{dep.manifest}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { BookOpen, CheckCircle2, XCircle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { DocumentationInventory } from '../types';
+
+interface DocumentationOverviewProps {
+  documentation: DocumentationInventory;
+}
+
+export function DocumentationOverview({ documentation }: DocumentationOverviewProps) {
+  const { apiDocs } = documentation;
+  const items: Array<{ label: string; found: string | null }> = [
+    {
+      label: 'Docs folder',
+      found: documentation.docsDirectory
+        ? `${documentation.docsDirectory}/ · ${documentation.docsPages} pages`
+        : null,
+    },
+    { label: 'Changelog', found: documentation.changelog },
+    { label: 'Contributing guide', found: documentation.contributing },
+    { label: 'Code of conduct', found: documentation.codeOfConduct },
+    { label: 'Security policy', found: documentation.security },
+    {
+      label: 'Issue templates',
+      found:
+        documentation.issueTemplates.length > 0
+          ? `${documentation.issueTemplates.length} templates`
+          : null,
+    },
+    { label: 'Pull request template', found: documentation.pullRequestTemplate },
+    {
+      label: 'Decision records',
+      found:
+        documentation.decisionRecords.length > 0
+          ? `${documentation.decisionRecords.length} records`
+          : null,
+    },
+    {
+      label: 'README translations',
+      found:
+        documentation.translations.length > 0
+          ? documentation.translations.join(', ')
+          : null,
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <BookOpen className="h-4 w-4 text-blue-400" />
+        Documentation Inventory:
+      </div>
+      <div className="rounded-lg bg-slate-900/50 p-4 border border-slate-700/30 space-y-3">
+        {documentation.siteGenerators.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {documentation.siteGenerators.map((generator) => (
+              <Badge
+                key={generator.name}
+                variant="outline"
+                className="border-slate-600 text-slate-400"
+                title={generator.path}
+              >
+                {generator.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <ul className="grid gap-1 sm:grid-cols-2">
+          {items.map((item) => (
+            <li key={item.label} className="flex items-center gap-2 text-sm">
+              {item.found ? (
+                <CheckCircle2 className="h-4 w-4 shrink-0 text-green-400" />
+              ) : (
+                <XCircle className="h-4 w-4 shrink-0 text-slate-600" />
+              )}
+              <span className={item.found ? 'text-slate-300' : 'text-slate-500'}>
+                {item.label}
+              </span>
+              {item.found && (
+                <span className="truncate text-xs text-slate-500" title={item.found}>
+                  {item.found}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-slate-500">
+          {apiDocs && apiDocs.declarations > 0
+            ? `Inline API docs: ${apiDocs.documented} of ${apiDocs.declarations} declarations documented across ${apiDocs.sampledFiles} sampled files`
+            : 'Inline API docs: no declarations found in the sampled source files'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { getRateLimit, refreshRateLimit, subscribeToRateLimit } from '../utils/githubAuth';
+
+export function RateLimitIndicator() {
+  const [rateLimit, setRateLimit] = useState(getRateLimit());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRateLimit(setRateLimit);
+    refreshRateLimit();
+    return unsubscribe;
+  }, []);
+
+  if (!rateLimit) return null;
+
+  const ratio = rateLimit.limit > 0 ? rateLimit.remaining / rateLimit.limit : 0;
+  const color =
+    ratio > 0.5 ? 'text-green-400' : ratio > 0.1 ? 'text-yellow-400' : 'text-red-400';
+  const resetTime = rateLimit.resetAt.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <div
+      className="flex items-center gap-2 text-sm text-slate-400"
+      title={`GitHub API quota resets at ${resetTime}`}
+    >
+      <Gauge className={`h-4 w-4 ${color}`} />
+      <span>
+        <span className={color}>{rateLimit.remaining}</span>/{rateLimit.limit} requests
+      </span>
+      <span className="hidden text-slate-500 sm:inline">
+        · {rateLimit.authenticated ? 'authenticated' : 'anonymous'} · resets {resetTime}
+      </span>
+    </div>
+  );
+}
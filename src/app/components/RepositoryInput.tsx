@@ -1,29 +1,53 @@
 import { useState } from 'react';
-import { Search, Github } from 'lucide-react';
+import { Search, Github, History, Boxes, RefreshCw, Link2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { RubricSelector } from './RubricSelector';
+import { ArchiveDropZone } from './ArchiveDropZone';
+import { parseRepositoryUrl } from '../utils/providers';
+import { getSelectedRubric } from '../utils/rubric';
+import { createLinkChecker } from '../utils/readmeLinks';
+import type { AnalyzeOptions } from '../utils/repositoryAnalyzer';
 
 interface RepositoryInputProps {
-  onAnalyze: (url: string) => void;
+  onAnalyze: (url: string, options: AnalyzeOptions) => void;
+  onUpload: (file: File, options: AnalyzeOptions) => void;
   disabled?: boolean;
 }
 
-export function RepositoryInput({ onAnalyze, disabled }: RepositoryInputProps) {
+export function RepositoryInput({ onAnalyze, onUpload, disabled }: RepositoryInputProps) {
   const [url, setUrl] = useState('');
+  const [rubric, setRubric] = useState(getSelectedRubric);
+  const [asOfDate, setAsOfDate] = useState('');
+  const [workspaces, setWorkspaces] = useState(false);
+  const [checkLinks, setCheckLinks] = useState(false);
+  const today = new Date().toISOString().slice(0, 10);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  const analyze = (refresh: boolean) => {
     if (url.trim()) {
-      onAnalyze(url.trim());
+      onAnalyze(url.trim(), {
+        rubric,
+        // A date scores the repository as it stood at the end of that day
+        asOf: asOfDate ? new Date(`${asOfDate}T23:59:59Z`) : undefined,
+        workspaces,
+        linkChecker: checkLinks ? createLinkChecker() : undefined,
+        refresh,
+      });
     }
   };
 
-  const isValidGitHubUrl = (url: string) => {
-    const githubPattern = /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+\/?$/;
-    return githubPattern.test(url);
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    analyze(false);
   };
 
-  const urlIsValid = url.trim() === '' || isValidGitHubUrl(url);
+  const isValidRepositoryUrl = (url: string) => {
+    return /^https?:\/\//.test(url) && parseRepositoryUrl(url) !== null;
+  };
+
+  const urlIsValid = url.trim() === '' || isValidRepositoryUrl(url.trim());
 
   return (
     <div className="rounded-2xl bg-slate-800/50 p-8 backdrop-blur-sm border border-slate-700/50">
@@ -34,7 +58,7 @@ export function RepositoryInput({ onAnalyze, disabled }: RepositoryInputProps) {
         <div>
           <h2 className="text-xl text-white">Enter Repository URL</h2>
           <p className="text-sm text-slate-400">
-            Paste a public GitHub repository URL for analysis
+            Paste a GitHub, GitLab, Gitea or Bitbucket repository URL
           </p>
         </div>
       </div>
@@ -51,28 +75,122 @@ export function RepositoryInput({ onAnalyze, disabled }: RepositoryInputProps) {
           />
           {!urlIsValid && (
             <p className="mt-2 text-sm text-red-400">
-              Please enter a valid GitHub repository URL
+              Please enter a valid repository URL from a supported host
             </p>
           )}
           <p className="mt-2 text-sm text-slate-500">
-            Example: https://github.com/facebook/react
+            Example: https://github.com/facebook/react. Link to a branch, tag or commit (e.g.
+            .../tree/v18.2.0) to grade that revision instead of the default branch, or to a
+            folder (e.g. .../tree/main/packages/react) to grade one package of a monorepo.
+          </p>
+        </div>
+
+        <RubricSelector value={rubric} onChange={setRubric} disabled={disabled} />
+
+        <div className="space-y-2">
+          <Label htmlFor="as-of" className="flex items-center gap-2 text-slate-300">
+            <History className="h-4 w-4 text-blue-400" />
+            Score as of (optional)
+          </Label>
+          <Input
+            id="as-of"
+            type="date"
+            max={today}
+            value={asOfDate}
+            onChange={(e) => setAsOfDate(e.target.value)}
+            disabled={disabled}
+            className="bg-slate-900/50 border-slate-600 text-white"
+          />
+          <p className="text-sm text-slate-500">
+            Replays the repository at its last commit on that date. Stars, forks and issues
+            always reflect today.
           </p>
         </div>
 
-        <Button
-          type="submit"
-          disabled={disabled || !url.trim() || !urlIsValid}
-          className="h-12 w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white"
-        >
-          <Search className="mr-2 h-5 w-5" />
-          {disabled ? 'Analyzing...' : 'Analyze Repository'}
-        </Button>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="workspaces" className="flex items-center gap-2 text-slate-300">
+              <Boxes className="h-4 w-4 text-blue-400" />
+              Score workspace packages
+            </Label>
+            <p className="text-sm text-slate-500">
+              Detects npm, Yarn, pnpm, Cargo and Go workspaces and scores each package
+              separately. Adds a few requests per package.
+            </p>
+          </div>
+          <Switch
+            id="workspaces"
+            checked={workspaces}
+            onCheckedChange={setWorkspaces}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="check-links" className="flex items-center gap-2 text-slate-300">
+              <Link2 className="h-4 w-4 text-blue-400" />
+              Check external README links
+            </Label>
+            <p className="text-sm text-slate-500">
+              Requests every external link and image in the README. Relative links and
+              anchors are always checked against the repository files.
+            </p>
+          </div>
+          <Switch
+            id="check-links"
+            checked={checkLinks}
+            onCheckedChange={setCheckLinks}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            type="submit"
+            disabled={disabled || !url.trim() || !urlIsValid}
+            className="h-12 flex-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white"
+          >
+            <Search className="mr-2 h-5 w-5" />
+            {disabled ? 'Analyzing...' : 'Analyze Repository'}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => analyze(true)}
+            disabled={disabled || !url.trim() || !urlIsValid}
+            title="Check every cached response with the host before using it"
+            className="h-12 border-slate-600 bg-slate-800/50 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Force refresh
+          </Button>
+        </div>
       </form>
 
+      <div className="my-6 flex items-center gap-3 text-sm text-slate-500">
+        <div className="h-px flex-1 bg-slate-700/50" />
+        or grade a local copy
+        <div className="h-px flex-1 bg-slate-700/50" />
+      </div>
+
+      <ArchiveDropZone
+        onFile={(file) =>
+          onUpload(file, {
+            rubric,
+            workspaces,
+            linkChecker: checkLinks ? createLinkChecker() : undefined,
+          })
+        }
+        disabled={disabled}
+      />
+
       <div className="mt-6 rounded-lg bg-slate-900/50 p-4 border border-slate-700/30">
         <p className="text-sm text-slate-400">
-          <strong className="text-slate-300">Note:</strong> Only public GitHub repositories can be
-          analyzed. The analysis may take 10-30 seconds depending on repository size.
+          <strong className="text-slate-300">Note:</strong> Public repositories can be analyzed
+          without an account; add a GitHub token in Settings to analyze private GitHub
+          repositories. Self-hosted GitLab and Gitea instances are detected from their host
+          name. The analysis may take 10-30 seconds depending on repository size.
         </p>
       </div>
     </div>
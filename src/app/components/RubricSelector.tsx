@@ -0,0 +1,118 @@
+import { useRef, useState } from 'react';
+import { Scale, Trash2, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  BUILT_IN_RUBRICS,
+  listRubrics,
+  parseRubric,
+  removeRubric,
+  saveRubric,
+  setSelectedRubric,
+} from '../utils/rubric';
+import type { RubricProfile } from '../utils/rubric';
+
+interface RubricSelectorProps {
+  value: RubricProfile;
+  onChange: (rubric: RubricProfile) => void;
+  disabled?: boolean;
+}
+
+export function RubricSelector({ value, onChange, disabled }: RubricSelectorProps) {
+  const [profiles, setProfiles] = useState(listRubrics);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const isBuiltIn = BUILT_IN_RUBRICS.some((profile) => profile.id === value.id);
+
+  const select = (profile: RubricProfile) => {
+    setSelectedRubric(profile.id);
+    onChange(profile);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const profile = parseRubric(await file.text());
+      saveRubric(profile);
+      setProfiles(listRubrics());
+      setError(null);
+      select(profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the rubric profile');
+    }
+  };
+
+  const handleRemove = () => {
+    removeRubric(value.id);
+    setProfiles(listRubrics());
+    select(BUILT_IN_RUBRICS[0]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2 text-slate-300">
+        <Scale className="h-4 w-4 text-blue-400" />
+        Scoring rubric
+      </Label>
+      <div className="flex gap-2">
+        <Select
+          value={value.id}
+          onValueChange={(id) => {
+            const profile = profiles.find((candidate) => candidate.id === id);
+            if (profile) select(profile);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="bg-slate-900/50 border-slate-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-900 border-slate-700 text-white">
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          onClick={() => fileInput.current?.click()}
+          className="border-slate-600 bg-slate-800/50 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          <Upload className="h-4 w-4" />
+          Load profile
+        </Button>
+        {!isBuiltIn && (
+          <Button
+            type="button"
+            variant="ghost"
+            disabled={disabled}
+            onClick={handleRemove}
+            className="text-red-400 hover:bg-red-900/20 hover:text-red-300"
+            aria-label={`Remove ${value.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.yaml,.yml"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : (
+        value.description && <p className="text-sm text-slate-500">{value.description}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import type { RuleEvidence, ScoreDimension } from '../types';
+
+interface RuleBreakdownProps {
+  dimension: ScoreDimension;
+}
+
+function formatEvidence(evidence: RuleEvidence) {
+  return Object.entries(evidence).map(([key, value]) => `${key}: ${value ?? 'none'}`);
+}
+
+export function RuleBreakdown({ dimension }: RuleBreakdownProps) {
+  if (dimension.rules.length === 0) return null;
+
+  return (
+    <Collapsible className="space-y-2">
+      <CollapsibleTrigger className="group flex w-full items-center justify-between text-sm text-slate-400 hover:text-white">
+        <span>Rule breakdown ({dimension.rules.length})</span>
+        <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2">
+        {dimension.weight !== undefined && (
+          <p className="text-xs text-slate-500">
+            Points below are unweighted; the rubric scales this dimension by {dimension.weight}.
+          </p>
+        )}
+        {dimension.rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="rounded-md border border-slate-700/50 bg-slate-900/40 p-3 text-sm"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <code className="text-xs text-blue-300">{rule.id}</code>
+              <span className={rule.maxPoints === 0 ? 'text-xs text-slate-500' : 'text-slate-300'}>
+                {rule.maxPoints === 0 ? 'informational' : `${rule.points}/${rule.maxPoints}`}
+              </span>
+            </div>
+            <p className="mt-1 text-slate-300">{rule.message}</p>
+            {rule.details.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-slate-400">
+                {rule.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+            {Object.keys(rule.evidence).length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {formatEvidence(rule.evidence).map((item) => (
+                  <span
+                    key={item}
+                    className="rounded bg-slate-800 px-1.5 py-0.5 font-mono text-xs text-slate-400"
+                  >
+                    {item}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,62 @@
+import { KeyRound } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import type { SecretScanReport } from '../types';
+
+interface SecretFindingsProps {
+  report: SecretScanReport;
+}
+
+export function SecretFindings({ report }: SecretFindingsProps) {
+  return (
+    <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-white">
+          <span className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-red-400" />
+            Leaked Credentials
+          </span>
+          <Badge variant="destructive">{report.findings.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          {report.scannedFiles} of {report.candidateFiles} text files scanned
+          {report.failedFiles > 0 && ` (${report.failedFiles} could not be downloaded)`}. Matched
+          values are redacted.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.committedEnvFiles.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm text-slate-400">Committed environment files:</div>
+            <div className="flex flex-wrap gap-2">
+              {report.committedEnvFiles.map((path) => (
+                <Badge key={path} variant="outline" className="border-red-800 text-red-300">
+                  {path}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {report.findings.length > 0 && (
+          <ul className="space-y-3">
+            {report.findings.map((finding) => (
+              <li key={`${finding.path}:${finding.line}`} className="text-sm">
+                <div className="flex items-center gap-2 text-slate-300">
+                  <span className="text-red-400">▸</span>
+                  <span>{finding.description}</span>
+                  <span className="text-slate-500">
+                    {finding.path}:{finding.line}
+                  </span>
+                </div>
+                <code className="mt-1 block overflow-x-auto rounded bg-slate-900/50 px-2 py-1 text-xs text-slate-400">
+                  {finding.preview}
+                </code>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
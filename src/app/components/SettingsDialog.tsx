@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { KeyRound, Settings } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { getGitHubToken, refreshRateLimit, setGitHubToken } from '../utils/githubAuth';
+import { CacheInspector } from './CacheInspector';
+
+export function SettingsDialog() {
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const hasStoredToken = Boolean(getGitHubToken());
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setToken(getGitHubToken() ?? '');
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setGitHubToken(token.trim() || null);
+    refreshRateLimit();
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    setGitHubToken(null);
+    setToken('');
+    refreshRateLimit();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-slate-600 bg-slate-800/50 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          <Settings className="h-4 w-4" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white">
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-blue-400" />
+              GitHub Access Token
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              A personal access token raises the API limit from 60 to 5,000 requests per hour
+              and allows private repositories you can read to be analyzed. The token is stored
+              only in this browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="github-token" className="text-slate-300">
+              Personal access token
+            </Label>
+            <Input
+              id="github-token"
+              type="password"
+              autoComplete="off"
+              placeholder="ghp_... or github_pat_..."
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className="bg-slate-800/50 border-slate-600 text-white placeholder:text-slate-500"
+            />
+            <p className="text-sm text-slate-500">
+              Read-only access to repository contents and metadata is sufficient.
+            </p>
+          </div>
+
+          <DialogFooter>
+            {hasStoredToken && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleClear}
+                className="text-red-400 hover:bg-red-900/20 hover:text-red-300"
+              >
+                Remove token
+              </Button>
+            )}
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+
+        <div className="border-t border-slate-700/50 pt-4">
+          <CacheInspector />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
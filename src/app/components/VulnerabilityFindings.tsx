@@ -0,0 +1,110 @@
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import type { AdvisorySeverity, VulnerabilityReport } from '../types';
+
+interface VulnerabilityFindingsProps {
+  report: VulnerabilityReport;
+}
+
+const SEVERITY_STYLES: Record<AdvisorySeverity, string> = {
+  CRITICAL: 'bg-red-900/60 text-red-200',
+  HIGH: 'bg-red-900/40 text-red-300',
+  MODERATE: 'bg-yellow-900/40 text-yellow-300',
+  LOW: 'bg-slate-700 text-slate-300',
+  UNKNOWN: 'bg-slate-700 text-slate-400',
+};
+
+export function VulnerabilityFindings({ report }: VulnerabilityFindingsProps) {
+  const source = report.sample
+    ? 'the sample advisories bundled for development'
+    : report.snapshotDate
+      ? `the advisory snapshot from ${new Date(report.snapshotDate).toLocaleDateString()}`
+      : 'the advisory snapshot';
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-white">
+          <span className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-red-400" />
+            Known Vulnerabilities
+          </span>
+          <Badge variant={report.findings.length > 0 ? 'destructive' : 'secondary'}>
+            {report.findings.length}
+          </Badge>
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          {report.checkedPackages} packages checked against {source}
+          {report.sample &&
+            '. These matches are not scored; run npm run update-advisories to bundle the OSV database.'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {report.findings.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700">
+                <TableHead className="text-slate-400">Package</TableHead>
+                <TableHead className="text-slate-400">Version</TableHead>
+                <TableHead className="text-slate-400">Severity</TableHead>
+                <TableHead className="text-slate-400">Advisory</TableHead>
+                <TableHead className="text-slate-400">Fixed in</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.findings.map((finding) => (
+                <TableRow
+                  key={`${finding.advisoryId}-${finding.packageName}-${finding.version}`}
+                  className="border-slate-700/50"
+                >
+                  <TableCell className="text-white">
+                    {finding.packageName}
+                    {finding.manifest && (
+                      <div className="text-xs text-slate-500">{finding.manifest}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-slate-300">
+                    {finding.version}
+                    {finding.inferred && (
+                      <div className="text-xs text-slate-500">lowest allowed by range</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className={`rounded px-2 py-0.5 text-xs ${SEVERITY_STYLES[finding.severity]}`}>
+                      {finding.severity.toLowerCase()}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-slate-300">
+                    <a
+                      href={`https://osv.dev/vulnerability/${finding.advisoryId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:underline"
+                    >
+                      {finding.advisoryId}
+                    </a>
+                    <div className="text-xs text-slate-500">{finding.summary}</div>
+                  </TableCell>
+                  <TableCell className="text-slate-300">{finding.fixedVersion ?? 'No fix'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-slate-400">
+            No dependency matches a known advisory.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { Boxes } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import type { Scores, WorkspaceReport } from '../types';
+
+interface WorkspacePackagesProps {
+  report: WorkspaceReport;
+}
+
+const DIMENSION_COLUMNS: Array<[keyof Scores, string]> = [
+  ['codeQuality', 'Code'],
+  ['projectStructure', 'Structure'],
+  ['documentation', 'Docs'],
+  ['testing', 'Tests'],
+  ['realWorldRelevance', 'Relevance'],
+  ['developmentPractices', 'Practices'],
+  ['dependencyHealth', 'Deps'],
+  ['security', 'Security'],
+];
+
+export function WorkspacePackages({ report }: WorkspacePackagesProps) {
+  const unscored =
+    report.packageCount - report.packages.length - report.unavailable.length;
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-white">
+          <span className="flex items-center gap-2">
+            <Boxes className="h-5 w-5 text-blue-400" />
+            Workspace Packages
+          </span>
+          <Badge variant="secondary">{report.packageCount}</Badge>
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          {report.tools.length > 0
+            ? `Declared by ${report.tools.join(', ')} workspaces.`
+            : 'No workspaces were found.'}
+          {unscored > 0 &&
+            ` Only the first ${report.packages.length + report.unavailable.length} packages were scored.`}
+          {report.unavailableManifests.length > 0 &&
+            ` ${report.unavailableManifests.join(', ')} could not be downloaded, so some packages may be missing.`}
+        </p>
+        {report.unavailable.length > 0 && (
+          <ul className="space-y-1 text-sm text-yellow-300">
+            {report.unavailable.map((pkg) => (
+              <li key={pkg.path}>
+                {pkg.path} could not be scored: {pkg.error}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardHeader>
+      {report.packages.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700">
+                <TableHead className="text-slate-400">Package</TableHead>
+                <TableHead className="text-slate-400">Score</TableHead>
+                {DIMENSION_COLUMNS.map(([key, label]) => (
+                  <TableHead key={key} className="text-slate-400">
+                    {label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.packages.map((pkg) => (
+                <TableRow key={pkg.path} className="border-slate-700/50">
+                  <TableCell className="text-white">
+                    {pkg.path}
+                    <div className="text-xs text-slate-500">
+                      {pkg.tool} · {pkg.tier}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-white">
+                    {pkg.overallScore}
+                    <span className="text-slate-500">/{pkg.maxScore}</span>
+                  </TableCell>
+                  {DIMENSION_COLUMNS.map(([key]) => (
+                    <TableCell key={key} className="text-slate-300">
+                      {pkg.scores[key].maxScore === 0 ? (
+                        <span className="text-slate-500">n/a</span>
+                      ) : (
+                        <>
+                          {pkg.scores[key].score}
+                          <span className="text-slate-500">/{pkg.scores[key].maxScore}</span>
+                        </>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,3 +1,6 @@
+// Hosting metadata that not every host provides
+export type HostingMetadata = 'stars' | 'open_issues' | 'license';
+
 export interface RepositoryData {
   name: string;
   description: string | null;
@@ -19,10 +22,31 @@ export interface RepositoryData {
   } | null;
   readme: string | null;
   default_branch: string;
+  // Recursive file listing of the default branch, or null if the host did
+  // not return one
+  tree: FileTree | null;
+  // Metadata the host does not provide or could not return; the rules that
+  // read it are left unscored rather than given its empty value
+  missing?: HostingMetadata[];
+}
+
+export interface FileTreeEntry {
+  path: string;
+  type: 'blob' | 'tree';
+  size?: number;
+}
+
+export interface FileTree {
+  entries: FileTreeEntry[];
+  // True when the host cut the listing short for very large repositories
+  truncated: boolean;
 }
 
 export interface CommitData {
   total_count: number;
+  // True when only the most recent commits were fetched because the history
+  // is longer than the configured ceiling
+  truncated: boolean;
   commits: Array<{
     sha: string;
     commit: {
@@ -35,10 +59,210 @@ export interface CommitData {
   }>;
 }
 
+export type CiSystem =
+  | 'GitHub Actions'
+  | 'GitLab CI'
+  | 'CircleCI'
+  | 'Azure Pipelines';
+
+export interface CiJob {
+  name: string;
+  runsTests: boolean;
+  runsLint: boolean;
+  runsBuild: boolean;
+  deploys: boolean;
+  hasMatrix: boolean;
+}
+
+export interface CiPipeline {
+  path: string;
+  system: CiSystem;
+  name: string;
+  triggers: string[];
+  jobs: CiJob[];
+}
+
+export interface CiRunHealth {
+  // Completed runs on the default branch that passed or failed
+  runCount: number;
+  passRate: number;
+  medianDurationSeconds: number | null;
+  lastSuccessAt: string | null;
+  latestConclusion: string | null;
+  // "workflow / job" names that both failed and passed on the same commit
+  flakyJobs: string[];
+}
+
+export interface CiSummary {
+  // CI configuration files found in the tree, including ones that could not
+  // be parsed (e.g. Jenkinsfile)
+  configFiles: string[];
+  pipelines: CiPipeline[];
+  triggers: string[];
+  runsTests: boolean;
+  runsLint: boolean;
+  runsBuild: boolean;
+  deploys: boolean;
+  hasMatrix: boolean;
+  // Recent run history, when the host exposes it
+  runHealth: CiRunHealth | null;
+  // Configuration files that could not be downloaded
+  unavailable: string[];
+}
+
+// Ecosystem names follow the OSV schema so advisories can be matched directly
+export type Ecosystem =
+  | 'npm'
+  | 'PyPI'
+  | 'crates.io'
+  | 'Go'
+  | 'Maven'
+  | 'RubyGems';
+
+export interface Dependency {
+  name: string;
+  // Version requirement as declared in the manifest, or null if none
+  range: string | null;
+  constraint: 'pinned' | 'range' | 'unbounded';
+  dev: boolean;
+  ecosystem: Ecosystem;
+  manifest: string;
+}
+
+export interface DependencyReport {
+  manifests: string[];
+  lockfiles: string[];
+  dependencies: Dependency[];
+  // Ecosystems with floating requirements but no lockfile
+  unlockedEcosystems: Ecosystem[];
+  // Packages resolved at more than one version in a lockfile
+  duplicates: Array<{ name: string; versions: string[] }>;
+  // Every package version pinned by a parsed lockfile, including
+  // transitive dependencies
+  resolvedPackages: Array<{
+    name: string;
+    version: string;
+    ecosystem: Ecosystem;
+  }>;
+  // Manifests and lockfiles in the tree that could not be downloaded
+  unavailable: string[];
+}
+
+export type AdvisorySeverity =
+  | 'CRITICAL'
+  | 'HIGH'
+  | 'MODERATE'
+  | 'LOW'
+  | 'UNKNOWN';
+
+export interface VulnerabilityFinding {
+  advisoryId: string;
+  aliases: string[];
+  summary: string;
+  severity: AdvisorySeverity;
+  ecosystem: Ecosystem;
+  packageName: string;
+  version: string;
+  fixedVersion: string | null;
+  // Manifest declaring the package, or null for lockfile-only packages
+  manifest: string | null;
+  // True when the version was inferred from the lower bound of a range
+  // rather than an exact pin or lockfile entry
+  inferred: boolean;
+}
+
+export interface VulnerabilityReport {
+  // Date of the advisory export, or null when no package was checked
+  snapshotDate: string | null;
+  // Matched against the development sample rather than the OSV database
+  sample: boolean;
+  checkedPackages: number;
+  findings: VulnerabilityFinding[];
+}
+
+export interface SecretFinding {
+  ruleId: string;
+  description: string;
+  path: string;
+  line: number;
+  // Offending line with the matched value redacted
+  preview: string;
+}
+
+export interface SecretScanReport {
+  // Files downloaded and scanned, out of the text files eligible for scanning
+  scannedFiles: number;
+  candidateFiles: number;
+  // Sampled files that could not be downloaded
+  failedFiles: number;
+  // Environment files committed to the repository, excluding templates
+  // such as .env.example
+  committedEnvFiles: string[];
+  findings: SecretFinding[];
+}
+
+export interface ApiDocCoverage {
+  sampledFiles: number;
+  // Functions, classes and types declared in the sampled files
+  declarations: number;
+  // Declarations with a doc comment or docstring
+  documented: number;
+}
+
+// Documentation found in the repository besides the README
+export interface DocumentationInventory {
+  // Top-level docs/ or doc/ directory and the pages in it
+  docsDirectory: string | null;
+  docsPages: number;
+  // Documentation site generators and the config file each was found by
+  siteGenerators: Array<{ name: string; path: string }>;
+  changelog: string | null;
+  contributing: string | null;
+  codeOfConduct: string | null;
+  security: string | null;
+  issueTemplates: string[];
+  pullRequestTemplate: string | null;
+  // Architecture decision records
+  decisionRecords: string[];
+  // Translated READMEs, e.g. README.zh-CN.md
+  translations: string[];
+  // Null when no source file in a supported language could be sampled
+  apiDocs: ApiDocCoverage | null;
+  // Sampled source files that could not be downloaded
+  failedFiles: number;
+}
+
+// Raw values a rule looked at, shown to explain its outcome
+export type RuleEvidence = Record<string, string | number | boolean | null>;
+
+export interface RuleResult {
+  // Matches the rule's key in the rubric profile
+  id: string;
+  points: number;
+  maxPoints: number;
+  message: string;
+  // Further feedback lines explaining the outcome
+  details: string[];
+  evidence: RuleEvidence;
+}
+
 export interface ScoreDimension {
   score: number;
   maxScore: number;
   feedback: string[];
+  rules: RuleResult[];
+  // Rules left out because the source lacks the data they need, such as
+  // stars for an uploaded archive; a dimension whose rules are all left out
+  // has a maxScore of 0 and is not applicable
+  notApplicable: string[];
+  // Rubric weight applied to score and maxScore, when not 1
+  weight?: number;
+  ci?: CiSummary;
+  documentation?: DocumentationInventory;
+  // Why the dimension could not be scored fully, when a data source it
+  // relies on was unavailable. Incomplete dimensions are left out of the
+  // overall score.
+  incomplete?: string;
 }
 
 export interface Scores {
@@ -48,6 +272,8 @@ export interface Scores {
   testing: ScoreDimension;
   realWorldRelevance: ScoreDimension;
   developmentPractices: ScoreDimension;
+  dependencyHealth: ScoreDimension;
+  security: ScoreDimension;
 }
 
 export interface AnalysisResult {
@@ -59,6 +285,72 @@ export interface AnalysisResult {
   scores: Scores;
   summary: string;
   roadmap: RoadmapItem[];
+  ci: CiSummary | null;
+  dependencies: DependencyReport | null;
+  vulnerabilities: VulnerabilityReport | null;
+  secrets: SecretScanReport | null;
+  // Scoring profile the result was produced with
+  rubric: { id: string; name: string };
+  // ISO timestamp the time-based rules were measured from
+  asOf: string;
+  // Commit the files and history were read at, when the analysis was pinned
+  // to a revision from the URL or replayed at an earlier date
+  snapshot: {
+    commit: string;
+    revision: string | null;
+    replayed: boolean;
+  } | null;
+  // Directory the analysis was scoped to, for packages inside a monorepo
+  path: string | null;
+  // Per-package scores, when workspace packages were requested
+  workspaces: WorkspaceReport | null;
+  // Outcome of each data source the host was asked for
+  sources: SourceStatus[];
+  // Share of the rubric's points held by complete dimensions, from 0 to 1;
+  // the overall score covers only that share
+  confidence: number;
+}
+
+export interface SourceStatus {
+  id: string;
+  // Lower-case noun for messages, e.g. "languages"
+  name: string;
+  // missing: the host has no such data, e.g. no README
+  // unavailable: the request failed, e.g. rate limited or a server error
+  status: 'ok' | 'missing' | 'unavailable';
+  error: string | null;
+}
+
+export type WorkspaceTool = 'npm' | 'pnpm' | 'Cargo' | 'Go';
+
+export interface WorkspacePackage {
+  // Directory within the repository
+  path: string;
+  tool: WorkspaceTool;
+}
+
+export interface PackageScore extends WorkspacePackage {
+  overallScore: number;
+  maxScore: number;
+  tier: AnalysisResult['tier'];
+  scores: Record<keyof Scores, { score: number; maxScore: number }>;
+}
+
+export interface UnscoredPackage extends WorkspacePackage {
+  // Why the package could not be scored, e.g. a rate limit
+  error: string;
+}
+
+export interface WorkspaceReport {
+  tools: WorkspaceTool[];
+  // Packages declared by the workspaces, of which the first few are scored
+  packageCount: number;
+  packages: PackageScore[];
+  // Packages left unscored because a request for them failed
+  unavailable: UnscoredPackage[];
+  // Workspace manifests that could not be downloaded; packages they
+  // declare may be missing
+  unavailableManifests: string[];
 }
 
 export interface RoadmapItem {
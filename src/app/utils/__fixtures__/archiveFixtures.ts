@@ -0,0 +1,58 @@
+// Builds tar archives by hand, so each header variant the reader supports
+// can be tested on its own
+
+export interface TarEntry {
+  name: string;
+  content?: string;
+  // "0" for regular files, "5" for directories, "2" for symlinks, and the
+  // "x" and "L" records that name the entry after them
+  type?: string;
+  // ustar prefix, joined to the name with a slash
+  prefix?: string;
+}
+
+const encoder = new TextEncoder();
+
+function field(block: Uint8Array, offset: number, value: string) {
+  block.set(encoder.encode(value), offset);
+}
+
+function tarBlocks({ name, content = "", type = "0", prefix }: TarEntry) {
+  const data = encoder.encode(content);
+  const header = new Uint8Array(512);
+  field(header, 0, name);
+  field(header, 100, "0000644\0");
+  field(header, 124, `${data.length.toString(8).padStart(11, "0")}\0`);
+  field(header, 156, type);
+  field(header, 257, "ustar\x0000");
+  if (prefix) field(header, 345, prefix);
+
+  const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  body.set(data);
+  return [header, body];
+}
+
+// A pax extended header record: its own length, then key=value
+export function paxRecord(key: string, value: string) {
+  const line = ` ${key}=${value}\n`;
+  let length = line.length + 1;
+  while (`${length}${line}`.length !== length) length++;
+  return `${length}${line}`;
+}
+
+export function tar(entries: TarEntry[]) {
+  const blocks = [...entries.flatMap(tarBlocks), new Uint8Array(1024)];
+  const result = new Uint8Array(
+    blocks.reduce((sum, block) => sum + block.length, 0),
+  );
+  let offset = 0;
+  for (const block of blocks) {
+    result.set(block, offset);
+    offset += block.length;
+  }
+  return result;
+}
+
+export function archiveFile(name: string, bytes: Uint8Array) {
+  return new File([bytes], name, { lastModified: Date.UTC(2024, 0, 15) });
+}
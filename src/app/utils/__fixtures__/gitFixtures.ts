@@ -0,0 +1,304 @@
+import { zlibSync } from "fflate";
+
+// Builds git object databases in memory, so the parser can be tested
+// against loose objects, packs and deltas without shelling out to git
+
+type ObjectType = "commit" | "tree" | "blob" | "tag";
+
+export interface FixtureObject {
+  sha: string;
+  type: ObjectType;
+  data: Uint8Array;
+}
+
+export interface FixtureSignature {
+  name: string;
+  // Seconds since the epoch
+  time: number;
+}
+
+export interface PackEntry {
+  object: FixtureObject;
+  // Stores the object as a delta against an object earlier in the pack
+  // (offset) or anywhere in the repository (ref)
+  delta?: { base: FixtureObject; by: "offset" | "ref" };
+}
+
+const PACK_TYPE_IDS: Record<ObjectType, number> = {
+  commit: 1,
+  tree: 2,
+  blob: 3,
+  tag: 4,
+};
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array) {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string) {
+  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint32(value: number) {
+  return Uint8Array.of(value >>> 24, value >>> 16, value >>> 8, value);
+}
+
+async function sha1(bytes: Uint8Array) {
+  return new Uint8Array(await crypto.subtle.digest("SHA-1", bytes));
+}
+
+function header(type: ObjectType, data: Uint8Array) {
+  return encoder.encode(`${type} ${data.length}\0`);
+}
+
+export async function gitObject(
+  type: ObjectType,
+  data: Uint8Array | string,
+): Promise<FixtureObject> {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  const sha = toHex(await sha1(concat([header(type, bytes), bytes])));
+  return { sha, type, data: bytes };
+}
+
+export function blob(content: string) {
+  return gitObject("blob", content);
+}
+
+// Entries are written in the given order; directories use mode 40000
+export function tree(
+  entries: Array<{ name: string; object: FixtureObject; mode?: string }>,
+) {
+  return gitObject(
+    "tree",
+    concat(
+      entries.flatMap(({ name, object, mode }) => [
+        encoder.encode(
+          `${mode ?? (object.type === "tree" ? "40000" : "100644")} ${name}\0`,
+        ),
+        fromHex(object.sha),
+      ]),
+    ),
+  );
+}
+
+function signature({ name, time }: FixtureSignature) {
+  return `${name} <${name.toLowerCase()}@example.com> ${time} +0000`;
+}
+
+export function commit({
+  tree: root,
+  parents = [],
+  author,
+  committer = author,
+  message,
+}: {
+  tree: FixtureObject;
+  parents?: FixtureObject[];
+  author: FixtureSignature;
+  committer?: FixtureSignature;
+  message: string;
+}) {
+  return gitObject(
+    "commit",
+    [
+      `tree ${root.sha}`,
+      ...parents.map((parent) => `parent ${parent.sha}`),
+      `author ${signature(author)}`,
+      `committer ${signature(committer)}`,
+      "",
+      message,
+    ].join("\n"),
+  );
+}
+
+export function annotatedTag(
+  target: FixtureObject,
+  name: string,
+  tagger: FixtureSignature,
+) {
+  return gitObject(
+    "tag",
+    [
+      `object ${target.sha}`,
+      `type ${target.type}`,
+      `tag ${name}`,
+      `tagger ${signature(tagger)}`,
+      "",
+      `Release ${name}`,
+    ].join("\n"),
+  );
+}
+
+// Loose objects as they are stored under objects/
+export function looseObjects(objects: FixtureObject[], gitDir = ".git/") {
+  return new Map(
+    objects.map((object) => [
+      `${gitDir}objects/${object.sha.slice(0, 2)}/${object.sha.slice(2)}`,
+      zlibSync(concat([header(object.type, object.data), object.data])),
+    ]),
+  );
+}
+
+function deltaSize(size: number) {
+  const bytes: number[] = [];
+  do {
+    bytes.push((size & 0x7f) | (size >= 0x80 ? 0x80 : 0));
+    size >>>= 7;
+  } while (size > 0);
+  return bytes;
+}
+
+// A git delta copying the prefix target shares with base and inserting
+// the rest
+export function createDelta(base: Uint8Array, target: Uint8Array) {
+  let shared = 0;
+  while (
+    shared < Math.min(base.length, target.length, 0xffffff) &&
+    base[shared] === target[shared]
+  ) {
+    shared++;
+  }
+
+  const bytes = [...deltaSize(base.length), ...deltaSize(target.length)];
+  if (shared > 0) {
+    // Copy from offset 0; only the length bytes that are set are written
+    let opcode = 0x80;
+    const length: number[] = [];
+    for (let bit = 0; bit < 3; bit++) {
+      const byte = (shared >>> (bit * 8)) & 0xff;
+      if (byte) {
+        opcode |= 0x10 << bit;
+        length.push(byte);
+      }
+    }
+    bytes.push(opcode, ...length);
+  }
+  for (let offset = shared; offset < target.length; offset += 0x7f) {
+    const chunk = target.subarray(offset, offset + 0x7f);
+    bytes.push(chunk.length, ...chunk);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function entryHeader(typeId: number, size: number) {
+  const bytes = [(typeId << 4) | (size & 0x0f)];
+  size = Math.floor(size / 16);
+  while (size > 0) {
+    bytes[bytes.length - 1] |= 0x80;
+    bytes.push(size & 0x7f);
+    size = Math.floor(size / 128);
+  }
+  return bytes;
+}
+
+// Offset deltas name their base by distance, in git's variable-length
+// encoding that adds one per continuation byte
+function baseDistance(distance: number) {
+  const bytes = [distance & 0x7f];
+  distance = Math.floor(distance / 128);
+  while (distance > 0) {
+    distance--;
+    bytes.unshift(0x80 | (distance & 0x7f));
+    distance = Math.floor(distance / 128);
+  }
+  return bytes;
+}
+
+// A version 2 pack and its index, named after the pack's checksum
+export async function packFiles(entries: PackEntry[], gitDir = ".git/") {
+  const parts: Uint8Array[] = [
+    encoder.encode("PACK"),
+    uint32(2),
+    uint32(entries.length),
+  ];
+  let position = 12;
+  const offsets = new Map<string, number>();
+
+  for (const { object, delta } of entries) {
+    offsets.set(object.sha, position);
+    let part: Uint8Array;
+    if (delta) {
+      const data = createDelta(delta.base.data, object.data);
+      const base =
+        delta.by === "offset"
+          ? baseDistance(position - (offsets.get(delta.base.sha) ?? 0))
+          : [...fromHex(delta.base.sha)];
+      part = concat([
+        Uint8Array.from([
+          ...entryHeader(
+            delta.by === "offset" ? OFS_DELTA : REF_DELTA,
+            data.length,
+          ),
+          ...base,
+        ]),
+        zlibSync(data),
+      ]);
+    } else {
+      part = concat([
+        Uint8Array.from(
+          entryHeader(PACK_TYPE_IDS[object.type], object.data.length),
+        ),
+        zlibSync(object.data),
+      ]);
+    }
+    parts.push(part);
+    position += part.length;
+  }
+  const body = concat(parts);
+  const checksum = await sha1(body);
+  const pack = concat([body, checksum]);
+
+  const sorted = [...offsets.keys()].sort();
+  // Number of objects whose id starts with each byte value or a lower one
+  const fanout = Array.from(
+    { length: 256 },
+    (_, byte) =>
+      sorted.filter((sha) => parseInt(sha.slice(0, 2), 16) <= byte).length,
+  );
+  const indexBody = concat([
+    Uint8Array.of(0xff, 0x74, 0x4f, 0x63),
+    uint32(2),
+    ...fanout.map(uint32),
+    ...sorted.map(fromHex),
+    // CRC32 of each entry; not read by the parser
+    ...sorted.map(() => uint32(0)),
+    ...sorted.map((sha) => uint32(offsets.get(sha) ?? 0)),
+    checksum,
+  ]);
+  const index = concat([indexBody, await sha1(indexBody)]);
+
+  const name = `${gitDir}objects/pack/pack-${toHex(checksum)}`;
+  return new Map([
+    [`${name}.pack`, pack],
+    [`${name}.idx`, index],
+  ]);
+}
+
+// Text files such as HEAD and refs, keyed by path inside the git directory
+export function textFiles(
+  files: Record<string, string>,
+  gitDir = ".git/",
+) {
+  return new Map(
+    Object.entries(files).map(([path, text]) => [
+      `${gitDir}${path}`,
+      encoder.encode(text),
+    ]),
+  );
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { gzipSync, strToU8, zipSync } from "fflate";
+import { readArchive } from "./archive";
+import { archiveFile, paxRecord, tar } from "./__fixtures__/archiveFixtures";
+
+const text = (files: Map<string, Uint8Array>, path: string) => {
+  const bytes = files.get(path);
+  return bytes && new TextDecoder().decode(bytes);
+};
+
+describe("readArchive", () => {
+  it("strips the folder a zip download wraps the project in", async () => {
+    const zip = zipSync({
+      "widget-main/": new Uint8Array(),
+      "widget-main/README.md": strToU8("# Widget\n"),
+      "widget-main/src/index.ts": strToU8("export {};\n"),
+      "widget-main/.DS_Store": new Uint8Array(4),
+      "__MACOSX/widget-main/._README.md": new Uint8Array(4),
+    });
+    const archive = await readArchive(archiveFile("widget-main.zip", zip));
+
+    expect(archive.name).toBe("widget-main");
+    expect([...archive.files.keys()].sort()).toEqual([
+      "README.md",
+      "src/index.ts",
+    ]);
+    expect(text(archive.files, "README.md")).toBe("# Widget\n");
+    expect(archive.modifiedAt).toBe("2024-01-15T00:00:00.000Z");
+  });
+
+  it("reads ustar prefixes and pax and GNU long names", async () => {
+    const longPath = `widget/${"nested/".repeat(20)}deep.ts`;
+    const bytes = tar([
+      { name: "widget/", type: "5" },
+      { name: "widget/README.md", content: "# Widget\n" },
+      { name: "index.ts", prefix: "widget/src", content: "export {};\n" },
+      { name: "PaxHeader", type: "x", content: paxRecord("path", longPath) },
+      { name: longPath.slice(0, 99), content: "pax" },
+      { name: "././@LongLink", type: "L", content: `${longPath}.gnu\0` },
+      { name: longPath.slice(0, 99), content: "gnu" },
+      { name: "widget/link", type: "2" },
+    ]);
+    const archive = await readArchive(
+      archiveFile("widget.tar.gz", gzipSync(bytes)),
+    );
+
+    expect(archive.name).toBe("widget");
+    const deep = longPath.slice("widget/".length);
+    expect([...archive.files.keys()].sort()).toEqual(
+      ["README.md", "src/index.ts", deep, `${deep}.gnu`].sort(),
+    );
+    expect(text(archive.files, deep)).toBe("pax");
+    expect(text(archive.files, `${deep}.gnu`)).toBe("gnu");
+  });
+
+  it("keeps unwrapped paths and names bare repositories", async () => {
+    const bytes = tar([
+      { name: "HEAD", content: "ref: refs/heads/main\n" },
+      { name: "./config", content: "[core]\n" },
+    ]);
+    const archive = await readArchive(archiveFile("widget.git.tar", bytes));
+
+    expect(archive.name).toBe("widget");
+    expect([...archive.files.keys()]).toEqual(["HEAD", "config"]);
+  });
+
+  it("refuses unsupported, corrupt and empty archives", async () => {
+    await expect(
+      readArchive(archiveFile("widget.rar", new Uint8Array(4))),
+    ).rejects.toThrow("Upload a .zip, .tar or .tar.gz archive");
+    await expect(
+      readArchive(archiveFile("widget.tgz", strToU8("not gzip"))),
+    ).rejects.toThrow("the archive is corrupt");
+    await expect(
+      readArchive(archiveFile("widget.tar", tar([]))),
+    ).rejects.toThrow("widget.tar contains no files");
+  });
+});
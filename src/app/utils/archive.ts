@@ -0,0 +1,136 @@
+import { gunzipSync, unzipSync } from "fflate";
+
+// Archives are unpacked in memory, so very large uploads are refused
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+// Metadata folders some archivers add next to the project files
+const ARCHIVER_ARTIFACTS = /(^|\/)(__MACOSX\/|\.DS_Store$)/;
+
+export interface RepositoryArchive {
+  // Project name, taken from the archive's top-level folder or file name
+  name: string;
+  // File contents keyed by path relative to the project root
+  files: Map<string, Uint8Array>;
+  // When the archive file was last modified
+  modifiedAt: string;
+}
+
+export function isSupportedArchive(fileName: string) {
+  return /\.(zip|tar|tar\.gz|tgz)$/i.test(fileName);
+}
+
+function stripArchiveExtension(fileName: string) {
+  return fileName.replace(/\.(zip|tar|tar\.gz|tgz)$/i, "");
+}
+
+function readString(bytes: Uint8Array, start: number, length: number) {
+  const field = bytes.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(
+    end === -1 ? field : field.subarray(0, end),
+  );
+}
+
+// Reads ustar, GNU and pax tar archives. Only regular files are kept; links
+// and device entries are skipped.
+function untar(bytes: Uint8Array) {
+  const files: Record<string, Uint8Array> = {};
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    // The archive ends with two empty blocks
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix =
+      readString(header, 257, 6) === "ustar"
+        ? readString(header, 345, 155)
+        : "";
+    const name = readString(header, 0, 100);
+    const data = bytes.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      // GNU long name for the next entry
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === "x") {
+      // pax extended header; only the path record matters here
+      const path = new TextDecoder()
+        .decode(data)
+        .match(/^\d+ path=(.*)$/m)?.[1];
+      if (path) longName = path;
+      continue;
+    }
+
+    const fullName = longName ?? (prefix ? `${prefix}/${name}` : name);
+    const path = fullName.replace(/^\.\//, "");
+    longName = null;
+    if (type === "0" || type === "\0") {
+      files[path] = data;
+    }
+  }
+  return files;
+}
+
+// Archives downloaded from hosts wrap the project in one folder, such as
+// react-main/, which is removed so paths match the repository layout
+function stripCommonFolder(files: Record<string, Uint8Array>) {
+  const paths = Object.keys(files);
+  const [first] = paths;
+  const folder = first?.includes("/")
+    ? first.slice(0, first.indexOf("/"))
+    : null;
+  const wrapped =
+    folder !== null && paths.every((path) => path.startsWith(`${folder}/`));
+  const prefix = wrapped ? `${folder}/` : "";
+
+  const stripped = new Map<string, Uint8Array>();
+  for (const path of paths) {
+    stripped.set(path.slice(prefix.length), files[path]);
+  }
+  return { folder: wrapped ? folder : null, files: stripped };
+}
+
+// Unpacks an uploaded .zip, .tar or .tar.gz into memory
+export async function readArchive(file: File): Promise<RepositoryArchive> {
+  if (!isSupportedArchive(file.name)) {
+    throw new Error("Upload a .zip, .tar or .tar.gz archive");
+  }
+  if (file.size > MAX_ARCHIVE_BYTES) {
+    throw new Error(
+      `Archive is larger than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`,
+    );
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = /\.zip$/i.test(file.name)
+      ? unzipSync(bytes, {
+          filter: (entry) => !entry.name.endsWith("/"),
+        })
+      : untar(/\.tar$/i.test(file.name) ? bytes : gunzipSync(bytes));
+  } catch (e) {
+    throw new Error(`Could not read ${file.name}: the archive is corrupt`);
+  }
+
+  for (const path of Object.keys(entries)) {
+    if (ARCHIVER_ARTIFACTS.test(path)) delete entries[path];
+  }
+  const { folder, files } = stripCommonFolder(entries);
+  if (files.size === 0) {
+    throw new Error(`${file.name} contains no files`);
+  }
+
+  return {
+    // Bare repositories are conventionally named project.git
+    name: (folder ?? stripArchiveExtension(file.name)).replace(/\.git$/, ""),
+    files,
+    modifiedAt: new Date(file.lastModified).toISOString(),
+  };
+}
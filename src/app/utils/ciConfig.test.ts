@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parseCiConfig } from "./ciConfig";
+
+const deploys = (content: string) =>
+  parseCiConfig(".github/workflows/ci.yml", content)?.jobs.map(
+    (job) => job.deploys,
+  );
+
+describe("parseCiConfig", () => {
+  it("does not count artifact and coverage uploads as deployments", () => {
+    const workflow = `
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - run: cargo build --release && cargo test
+      - name: Upload coverage
+        uses: codecov/codecov-action@v4
+      - uses: actions/upload-artifact@v4
+        with:
+          name: release-binaries
+          path: target/release
+      - uses: EnricoMi/publish-unit-test-result-action@v2
+`;
+    expect(deploys(workflow)).toEqual([false]);
+  });
+
+  it("recognizes deploy jobs and publish commands", () => {
+    const workflow = `
+on:
+  push:
+    tags: ["v*"]
+jobs:
+  pages:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/deploy-pages@v4
+  package:
+    runs-on: ubuntu-latest
+    steps:
+      - run: npm publish --access public
+  image:
+    runs-on: ubuntu-latest
+    steps:
+      - run: docker push ghcr.io/acme/widget:latest
+`;
+    expect(deploys(workflow)).toEqual([true, true, true]);
+  });
+});
@@ -0,0 +1,304 @@
+import { parse } from "yaml";
+import type {
+  CiJob,
+  CiPipeline,
+  CiRunHealth,
+  CiSummary,
+  CiSystem,
+  FileTree,
+} from "../types";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import { listFiles } from "./fileTree";
+
+const CI_CONFIG_PATTERNS = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/,
+  /^\.gitlab-ci\.yml$/,
+  /^\.circleci\/config\.yml$/,
+  /^\.travis\.yml$/,
+  /^azure-pipelines\.yml$/,
+  /^Jenkinsfile$/,
+  /^bitbucket-pipelines\.yml$/,
+  /^\.woodpecker\.ya?ml$/,
+  /^\.drone\.yml$/,
+];
+
+// Caps the number of CI files downloaded for repositories with many workflows
+const MAX_CI_FILES = 10;
+
+const TEST_PATTERN =
+  /\b(test|tests|pytest|jest|vitest|mocha|rspec|phpunit|ctest|tox|coverage)\b/i;
+const LINT_PATTERN =
+  /\b(lint|eslint|flake8|pylint|ruff|rubocop|golangci-lint|clippy|prettier|stylelint|mypy|black|fmt|format)\b/i;
+const BUILD_PATTERN =
+  /\b(build|compile|make|mvn|gradle|webpack|bundle|tsc|docker)\b/i;
+// Deploy steps and release commands only: artifact, cache and coverage
+// uploads, test result publishing and --release builds do not count
+const DEPLOY_PATTERN =
+  /\b(deploy\w*|gh-pages|semantic-release|goreleaser|action-gh-release|gh release create|(npm|yarn|pnpm|cargo) publish|twine upload|gem push|docker push|kubectl (apply|rollout)|helm (install|upgrade)|terraform apply|vercel|netlify)\b/i;
+
+export function findCiConfigFiles(tree: FileTree) {
+  return listFiles(tree).filter((path) =>
+    CI_CONFIG_PATTERNS.some((pattern) => pattern.test(path)),
+  );
+}
+
+function getSystem(path: string): CiSystem | null {
+  if (path.startsWith(".github/workflows/")) return "GitHub Actions";
+  if (path === ".gitlab-ci.yml") return "GitLab CI";
+  if (path === ".circleci/config.yml") return "CircleCI";
+  if (path === "azure-pipelines.yml") return "Azure Pipelines";
+  return null;
+}
+
+// Flattens any YAML value into the strings it contains so that job names,
+// commands and action references can be matched with one set of patterns
+function collectText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(collectText).join("\n");
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .map(([key, child]) => `${key}\n${collectText(child)}`)
+      .join("\n");
+  }
+  return "";
+}
+
+function classifyJob(
+  name: string,
+  definition: unknown,
+  hasMatrix: boolean,
+): CiJob {
+  const text = `${name}\n${collectText(definition)}`;
+  return {
+    name,
+    runsTests: TEST_PATTERN.test(text),
+    runsLint: LINT_PATTERN.test(text),
+    runsBuild: BUILD_PATTERN.test(text),
+    deploys: DEPLOY_PATTERN.test(text),
+    hasMatrix,
+  };
+}
+
+function asRecord(value: unknown): Record<string, any> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, any>)
+    : {};
+}
+
+function parseGitHubActions(doc: Record<string, any>) {
+  const on = doc.on;
+  const triggers =
+    typeof on === "string"
+      ? [on]
+      : Array.isArray(on)
+        ? on.map(String)
+        : Object.keys(asRecord(on));
+
+  const jobs = Object.entries(asRecord(doc.jobs)).map(([id, job]) =>
+    classifyJob(
+      job?.name ?? id,
+      job,
+      Boolean(job?.strategy?.matrix),
+    ),
+  );
+
+  return { name: doc.name, triggers, jobs };
+}
+
+const GITLAB_RESERVED_KEYS = new Set([
+  "stages",
+  "variables",
+  "default",
+  "include",
+  "workflow",
+  "image",
+  "services",
+  "before_script",
+  "after_script",
+  "cache",
+]);
+
+function parseGitLabCi(doc: Record<string, any>) {
+  const jobs = Object.entries(doc)
+    .filter(
+      ([key, value]) =>
+        !GITLAB_RESERVED_KEYS.has(key) &&
+        !key.startsWith(".") &&
+        value &&
+        typeof value === "object",
+    )
+    .map(([id, job]) =>
+      classifyJob(id, job, Boolean(job.parallel?.matrix)),
+    );
+
+  const ruleText = collectText([
+    doc.workflow,
+    ...Object.values(doc).map((job: any) => [job?.rules, job?.only]),
+  ]);
+  const triggers = ["push"];
+  if (/merge_request/.test(ruleText)) triggers.push("merge_request");
+  if (/schedule/.test(ruleText)) triggers.push("schedule");
+  if (/\btags\b|CI_COMMIT_TAG/.test(ruleText)) triggers.push("tag");
+
+  return { name: "GitLab CI", triggers, jobs };
+}
+
+function parseCircleCi(doc: Record<string, any>) {
+  const workflows = Object.values(asRecord(doc.workflows)).filter(
+    (workflow) => workflow && typeof workflow === "object",
+  );
+
+  // Matrix parameters are declared where a workflow references a job
+  const matrixJobs = new Set<string>();
+  for (const workflow of workflows) {
+    for (const entry of workflow.jobs ?? []) {
+      if (entry && typeof entry === "object") {
+        const [jobName, config] = Object.entries(entry)[0] as [
+          string,
+          any,
+        ];
+        if (config?.matrix) matrixJobs.add(jobName);
+      }
+    }
+  }
+
+  const jobs = Object.entries(asRecord(doc.jobs)).map(([id, job]) =>
+    classifyJob(id, job, matrixJobs.has(id)),
+  );
+
+  const triggers = ["push"];
+  if (workflows.some((workflow) => workflow.triggers)) {
+    triggers.push("schedule");
+  }
+
+  return { name: "CircleCI", triggers, jobs };
+}
+
+function parseAzurePipelines(doc: Record<string, any>) {
+  const triggers: string[] = [];
+  if (doc.trigger !== "none") triggers.push("push");
+  if (doc.pr !== undefined && doc.pr !== "none") triggers.push("pr");
+  if (doc.schedules) triggers.push("schedule");
+
+  const jobDefinitions: any[] = doc.stages
+    ? doc.stages.flatMap((stage: any) => stage?.jobs ?? [])
+    : (doc.jobs ?? (doc.steps ? [{ job: "default", ...doc }] : []));
+
+  const jobs = jobDefinitions.map((job) =>
+    classifyJob(
+      job.displayName ?? job.job ?? job.deployment ?? "job",
+      job,
+      Boolean(job.strategy?.matrix),
+    ),
+  );
+
+  return { name: doc.name ?? "Azure Pipelines", triggers, jobs };
+}
+
+export function parseCiConfig(
+  path: string,
+  content: string,
+): CiPipeline | null {
+  const system = getSystem(path);
+  if (!system) return null;
+
+  let doc: Record<string, any>;
+  try {
+    doc = asRecord(parse(content));
+  } catch (e) {
+    return null;
+  }
+
+  const parsed =
+    system === "GitHub Actions"
+      ? parseGitHubActions(doc)
+      : system === "GitLab CI"
+        ? parseGitLabCi(doc)
+        : system === "CircleCI"
+          ? parseCircleCi(doc)
+          : parseAzurePipelines(doc);
+
+  return {
+    path,
+    system,
+    name: parsed.name ?? path,
+    triggers: parsed.triggers,
+    jobs: parsed.jobs,
+  };
+}
+
+export function summarizeCi(
+  configFiles: string[],
+  pipelines: CiPipeline[],
+  runHealth: CiRunHealth | null = null,
+): Omit<CiSummary, "unavailable"> {
+  const jobs = pipelines.flatMap((pipeline) => pipeline.jobs);
+  return {
+    configFiles,
+    pipelines,
+    triggers: [
+      ...new Set(pipelines.flatMap((pipeline) => pipeline.triggers)),
+    ],
+    runsTests: jobs.some((job) => job.runsTests),
+    runsLint: jobs.some((job) => job.runsLint),
+    runsBuild: jobs.some((job) => job.runsBuild),
+    deploys: jobs.some((job) => job.deploys),
+    hasMatrix: jobs.some((job) => job.hasMatrix),
+    runHealth,
+  };
+}
+
+export interface CiSummaryOptions {
+  // Commit to read configuration from when it differs from the branch tip
+  revision?: string;
+  // ISO timestamp; runs started later are left out of the run history
+  until?: string;
+}
+
+export async function fetchCiSummary(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  tree: FileTree,
+  branch: string,
+  { revision = branch, until }: CiSummaryOptions = {},
+): Promise<CiSummary> {
+  const configFiles = findCiConfigFiles(tree);
+  const parseable = configFiles
+    .filter((path) => getSystem(path) !== null)
+    .slice(0, MAX_CI_FILES);
+
+  const unavailable: string[] = [];
+  const [pipelines, runHealth] = await Promise.all([
+    Promise.all(
+      parseable.map(async (path) => {
+        try {
+          const content = await provider.fetchFile(ref, path, revision);
+          return content === null ? null : parseCiConfig(path, content);
+        } catch (e) {
+          unavailable.push(path);
+          return null;
+        }
+      }),
+    ),
+    configFiles.length > 0 && provider.fetchCiRunHealth
+      ? provider.fetchCiRunHealth(
+          ref,
+          // A commit named in the URL may be abbreviated; its runs are
+          // looked up by the full id
+          revision.startsWith(branch) ? revision : branch,
+          { until },
+        )
+      : Promise.resolve(null),
+  ]);
+
+  return {
+    ...summarizeCi(
+      configFiles,
+      pipelines.filter(
+        (pipeline): pipeline is CiPipeline => pipeline !== null,
+      ),
+      runHealth,
+    ),
+    unavailable,
+  };
+}
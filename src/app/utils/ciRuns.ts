@@ -0,0 +1,83 @@
+import type { CiRunHealth } from "../types";
+
+export interface CiRun {
+  workflow: string;
+  sha: string;
+  conclusion: string | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+// Conclusions that say something about the code; cancelled and skipped runs
+// are left out of the pass rate
+const DECISIVE_CONCLUSIONS = new Set(["success", "failure", "timed_out"]);
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Workflows that both passed and failed on the same commit, e.g. a push run
+// that failed while the pull request run for the same SHA passed
+export function findFlakyWorkflows(runs: CiRun[]) {
+  const outcomes = new Map<string, Set<string>>();
+  for (const run of runs) {
+    if (!run.conclusion || !DECISIVE_CONCLUSIONS.has(run.conclusion)) {
+      continue;
+    }
+    const key = `${run.workflow}\u0000${run.sha}`;
+    const seen = outcomes.get(key) ?? new Set<string>();
+    seen.add(run.conclusion === "success" ? "success" : "failure");
+    outcomes.set(key, seen);
+  }
+
+  const flaky = new Set<string>();
+  for (const [key, seen] of outcomes) {
+    if (seen.size > 1) flaky.add(key.split("\u0000")[0]);
+  }
+  return [...flaky];
+}
+
+// Null when no run was decisive, e.g. every recent run was cancelled or
+// skipped, since there is no pass rate to report
+export function summarizeCiRuns(
+  runs: CiRun[],
+  flakyJobs: string[],
+): CiRunHealth | null {
+  // Runs are expected newest first, as the hosts return them
+  const decisive = runs.filter(
+    (run) => run.conclusion && DECISIVE_CONCLUSIONS.has(run.conclusion),
+  );
+  if (decisive.length === 0) return null;
+  const successes = decisive.filter(
+    (run) => run.conclusion === "success",
+  );
+  const durations = decisive
+    .map(
+      (run) =>
+        (new Date(run.finishedAt).getTime() -
+          new Date(run.startedAt).getTime()) /
+        1000,
+    )
+    .filter((seconds) => seconds >= 0);
+
+  return {
+    runCount: decisive.length,
+    passRate: successes.length / decisive.length,
+    medianDurationSeconds: median(durations),
+    lastSuccessAt: successes[0]?.finishedAt ?? null,
+    latestConclusion: decisive[0]?.conclusion ?? null,
+    flakyJobs,
+  };
+}
+
+export function formatDuration(seconds: number) {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,558 @@
+import { parse as parseToml } from "smol-toml";
+import { parse as parseYaml } from "yaml";
+import type {
+  Dependency,
+  DependencyReport,
+  Ecosystem,
+  FileTree,
+} from "../types";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import { getFileName, listFiles } from "./fileTree";
+
+type ManifestParser = (content: string, manifest: string) => Dependency[];
+
+// Caps the number of manifests downloaded for large monorepos
+const MAX_MANIFEST_FILES = 20;
+const MAX_LOCKFILES_PARSED = 3;
+
+const LOCKFILES: Record<string, Ecosystem> = {
+  "package-lock.json": "npm",
+  "npm-shrinkwrap.json": "npm",
+  "yarn.lock": "npm",
+  "pnpm-lock.yaml": "npm",
+  "bun.lock": "npm",
+  "bun.lockb": "npm",
+  "poetry.lock": "PyPI",
+  "Pipfile.lock": "PyPI",
+  "pdm.lock": "PyPI",
+  "uv.lock": "PyPI",
+  "Cargo.lock": "crates.io",
+  "go.sum": "Go",
+  "Gemfile.lock": "RubyGems",
+};
+
+export function isLockfile(path: string) {
+  return LOCKFILES[getFileName(path)] !== undefined;
+}
+
+// Dependency groups with these names are treated as development-only
+const DEV_GROUP_PATTERN = /dev|test|lint|doc|type|bench/i;
+
+function dependency(
+  ecosystem: Ecosystem,
+  manifest: string,
+  name: string,
+  range: string | null,
+  constraint: Dependency["constraint"],
+  dev: boolean,
+): Dependency {
+  return { name, range, constraint, dev, ecosystem, manifest };
+}
+
+// npm
+
+function classifyNpmRange(range: string): Dependency["constraint"] {
+  const trimmed = range.trim();
+  if (/^(workspace|file|link|portal):/.test(trimmed)) return "pinned";
+  if (trimmed === "" || trimmed === "*" || /^(latest|x)$/i.test(trimmed)) {
+    return "unbounded";
+  }
+  if (/^=?v?\d+\.\d+\.\d+([-+][\w.-]+)?$/.test(trimmed)) return "pinned";
+  return "range";
+}
+
+function parsePackageJson(content: string, manifest: string) {
+  const pkg = JSON.parse(content);
+  const groups: Array<[Record<string, string> | undefined, boolean]> = [
+    [pkg.dependencies, false],
+    [pkg.optionalDependencies, false],
+    [pkg.devDependencies, true],
+  ];
+
+  return groups.flatMap(([deps, dev]) =>
+    Object.entries(deps ?? {}).map(([name, range]) =>
+      dependency(
+        "npm",
+        manifest,
+        name,
+        String(range),
+        classifyNpmRange(String(range)),
+        dev,
+      ),
+    ),
+  );
+}
+
+// Python
+
+function parsePep508(requirement: string) {
+  const match = requirement
+    .trim()
+    .match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*([^;]*)/);
+  if (!match) return null;
+
+  const spec = match[3].trim().replace(/^\((.*)\)$/, "$1");
+  return {
+    name: match[1].toLowerCase(),
+    range: spec || null,
+    constraint: !spec
+      ? ("unbounded" as const)
+      : /^===?\s*[^*,]+$/.test(spec)
+        ? ("pinned" as const)
+        : ("range" as const),
+  };
+}
+
+function parseRequirementsTxt(content: string, manifest: string) {
+  const dev = DEV_GROUP_PATTERN.test(getFileName(manifest));
+  return content
+    .split("\n")
+    .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+    .filter((line) => line && !line.startsWith("-"))
+    .map(parsePep508)
+    .filter((parsed) => parsed !== null)
+    .map((parsed) =>
+      dependency(
+        "PyPI",
+        manifest,
+        parsed.name,
+        parsed.range,
+        parsed.constraint,
+        dev,
+      ),
+    );
+}
+
+function classifyPoetryConstraint(
+  constraint: string,
+): Dependency["constraint"] {
+  if (constraint === "*" || constraint === "") return "unbounded";
+  // Poetry treats a bare version as an exact requirement
+  if (/^=*\s*\d+(\.\d+)*$/.test(constraint)) return "pinned";
+  return "range";
+}
+
+function parsePyprojectToml(content: string, manifest: string) {
+  const doc = parseToml(content) as Record<string, any>;
+  const deps: Dependency[] = [];
+
+  const addPep508 = (requirements: unknown, dev: boolean) => {
+    if (!Array.isArray(requirements)) return;
+    for (const requirement of requirements) {
+      if (typeof requirement !== "string") continue;
+      const parsed = parsePep508(requirement);
+      if (parsed) {
+        deps.push(
+          dependency(
+            "PyPI",
+            manifest,
+            parsed.name,
+            parsed.range,
+            parsed.constraint,
+            dev,
+          ),
+        );
+      }
+    }
+  };
+
+  // PEP 621 and PEP 735
+  addPep508(doc.project?.dependencies, false);
+  for (const [group, requirements] of Object.entries(
+    doc.project?.["optional-dependencies"] ?? {},
+  )) {
+    addPep508(requirements, DEV_GROUP_PATTERN.test(group));
+  }
+  for (const requirements of Object.values(
+    doc["dependency-groups"] ?? {},
+  )) {
+    addPep508(requirements, true);
+  }
+
+  // Poetry
+  const poetry = doc.tool?.poetry;
+  const addPoetry = (table: unknown, dev: boolean) => {
+    for (const [name, spec] of Object.entries(
+      (table as Record<string, any>) ?? {},
+    )) {
+      if (name === "python") continue;
+      const local =
+        spec && typeof spec === "object" && (spec.path || spec.git);
+      const range =
+        typeof spec === "string" ? spec : (spec?.version ?? null);
+      deps.push(
+        dependency(
+          "PyPI",
+          manifest,
+          name.toLowerCase(),
+          range,
+          local ? "pinned" : classifyPoetryConstraint(range ?? ""),
+          dev,
+        ),
+      );
+    }
+  };
+  if (poetry) {
+    addPoetry(poetry.dependencies, false);
+    addPoetry(poetry["dev-dependencies"], true);
+    for (const [group, config] of Object.entries(
+      (poetry.group as Record<string, any>) ?? {},
+    )) {
+      addPoetry(config?.dependencies, group !== "main");
+    }
+  }
+
+  return deps;
+}
+
+// Rust
+
+function parseCargoToml(content: string, manifest: string) {
+  const doc = parseToml(content) as Record<string, any>;
+  const tables: Array<[unknown, boolean]> = [
+    [doc.dependencies, false],
+    [doc["build-dependencies"], false],
+    [doc["dev-dependencies"], true],
+    [doc.workspace?.dependencies, false],
+  ];
+  for (const target of Object.values(
+    (doc.target as Record<string, any>) ?? {},
+  )) {
+    tables.push([target?.dependencies, false]);
+    tables.push([target?.["dev-dependencies"], true]);
+  }
+
+  return tables.flatMap(([table, dev]) =>
+    Object.entries((table as Record<string, any>) ?? {}).map(
+      ([name, spec]) => {
+        const local =
+          spec &&
+          typeof spec === "object" &&
+          (spec.path || spec.git || spec.workspace);
+        const range =
+          typeof spec === "string" ? spec : (spec?.version ?? null);
+        const constraint: Dependency["constraint"] = local
+          ? "pinned"
+          : !range || range === "*"
+            ? "unbounded"
+            : range.startsWith("=")
+              ? "pinned"
+              : "range";
+        return dependency(
+          "crates.io",
+          manifest,
+          spec?.package ?? name,
+          range,
+          constraint,
+          dev,
+        );
+      },
+    ),
+  );
+}
+
+// Go
+
+function parseGoMod(content: string, manifest: string) {
+  const deps: Dependency[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\/\/.*$/, "").trim();
+    if (line === "require (") {
+      inRequireBlock = true;
+      continue;
+    }
+    if (inRequireBlock && line === ")") {
+      inRequireBlock = false;
+      continue;
+    }
+
+    const match = inRequireBlock
+      ? line.match(/^(\S+)\s+(\S+)$/)
+      : line.match(/^require\s+(\S+)\s+(\S+)$/);
+    if (match) {
+      // Minimal version selection makes every go.mod requirement exact
+      deps.push(
+        dependency("Go", manifest, match[1], match[2], "pinned", false),
+      );
+    }
+  }
+  return deps;
+}
+
+// Maven
+
+function parsePomXml(content: string, manifest: string) {
+  const doc = new DOMParser().parseFromString(content, "application/xml");
+  const text = (element: Element, tag: string) =>
+    element.getElementsByTagName(tag)[0]?.textContent?.trim() ?? null;
+
+  return Array.from(doc.getElementsByTagName("dependency"))
+    .filter(
+      (element) =>
+        element.parentElement?.parentElement?.tagName !==
+          "dependencyManagement" &&
+        element.parentElement?.parentElement?.tagName !== "plugin",
+    )
+    .map((element) => {
+      const version = text(element, "version");
+      // A missing version is managed by a parent POM or BOM
+      const constraint: Dependency["constraint"] = !version
+        ? "pinned"
+        : /^(LATEST|RELEASE)$/.test(version)
+          ? "unbounded"
+          : /^[[(]/.test(version)
+            ? "range"
+            : "pinned";
+      return dependency(
+        "Maven",
+        manifest,
+        `${text(element, "groupId")}:${text(element, "artifactId")}`,
+        version,
+        constraint,
+        text(element, "scope") === "test",
+      );
+    });
+}
+
+// Ruby
+
+function parseGemfile(content: string, manifest: string) {
+  const deps: Dependency[] = [];
+  const groupStack: boolean[] = [];
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+
+    const groupMatch = line.match(/^group\s+(.+?)\s+do$/);
+    if (groupMatch) {
+      groupStack.push(/:(development|test)\b/.test(groupMatch[1]));
+      continue;
+    }
+    if (line === "end" && groupStack.length > 0) {
+      groupStack.pop();
+      continue;
+    }
+
+    const gemMatch = line.match(/^gem\s+["']([^"']+)["'](.*)$/);
+    if (!gemMatch) continue;
+
+    const requirements = [
+      ...gemMatch[2].matchAll(/,\s*["']([^"']+)["']/g),
+    ].map((match) => match[1].trim());
+    const inlineDev = /groups?:.*:(development|test)\b/.test(gemMatch[2]);
+    const constraint: Dependency["constraint"] =
+      requirements.length === 0
+        ? "unbounded"
+        : requirements.length === 1 &&
+            /^=?\s*\d+(\.\d+)*$/.test(requirements[0])
+          ? "pinned"
+          : "range";
+
+    deps.push(
+      dependency(
+        "RubyGems",
+        manifest,
+        gemMatch[1],
+        requirements.join(", ") || null,
+        constraint,
+        inlineDev || groupStack.some(Boolean),
+      ),
+    );
+  }
+  return deps;
+}
+
+function getManifestParser(path: string): ManifestParser | null {
+  const name = getFileName(path);
+  if (name === "package.json") return parsePackageJson;
+  if (/^(.*[-_.])?requirements([-_.].*)?\.txt$/.test(name)) {
+    return parseRequirementsTxt;
+  }
+  if (name === "pyproject.toml") return parsePyprojectToml;
+  if (name === "Cargo.toml") return parseCargoToml;
+  if (name === "go.mod") return parseGoMod;
+  if (name === "pom.xml") return parsePomXml;
+  if (name === "Gemfile") return parseGemfile;
+  return null;
+}
+
+// Lockfiles
+
+function packageNameFromLockKey(key: string) {
+  // pnpm keys: "/name/1.0.0" (v5), "/name@1.0.0" (v6), "name@1.0.0(peer)" (v9)
+  const stripped = key.replace(/^\//, "").replace(/\(.*$/, "");
+  const at = stripped.lastIndexOf("@");
+  if (at > 0) {
+    return { name: stripped.slice(0, at), version: stripped.slice(at + 1) };
+  }
+  const slash = stripped.lastIndexOf("/");
+  return {
+    name: stripped.slice(0, slash),
+    version: stripped.slice(slash + 1),
+  };
+}
+
+function collectLockfileVersions(
+  path: string,
+  content: string,
+  versions: Map<string, Set<string>>,
+) {
+  const add = (name: string, version: unknown) => {
+    if (!name || typeof version !== "string") return;
+    const seen = versions.get(name) ?? new Set<string>();
+    seen.add(version);
+    versions.set(name, seen);
+  };
+
+  const name = getFileName(path);
+  if (name === "package-lock.json" || name === "npm-shrinkwrap.json") {
+    const lock = JSON.parse(content);
+    if (lock.packages) {
+      for (const [key, entry] of Object.entries<any>(lock.packages)) {
+        const index = key.lastIndexOf("node_modules/");
+        if (index === -1 || entry.link) continue;
+        add(key.slice(index + "node_modules/".length), entry.version);
+      }
+    } else {
+      // lockfileVersion 1 nests dependencies recursively
+      const walk = (deps: Record<string, any> = {}) => {
+        for (const [depName, entry] of Object.entries(deps)) {
+          add(depName, entry.version);
+          walk(entry.dependencies);
+        }
+      };
+      walk(lock.dependencies);
+    }
+  } else if (name === "pnpm-lock.yaml") {
+    const lock = parseYaml(content) as Record<string, any>;
+    for (const key of Object.keys(lock?.packages ?? {})) {
+      const parsed = packageNameFromLockKey(key);
+      add(parsed.name, parsed.version);
+    }
+  } else if (name === "yarn.lock") {
+    let currentNames: string[] = [];
+    for (const line of content.split("\n")) {
+      if (/^\S.*:$/.test(line) && !line.startsWith("#")) {
+        currentNames = line
+          .slice(0, -1)
+          .split(",")
+          .map((descriptor) => descriptor.trim().replace(/^"|"$/g, ""))
+          .filter((descriptor) => descriptor.indexOf("@", 1) > 0)
+          .map((descriptor) =>
+            descriptor.slice(0, descriptor.indexOf("@", 1)),
+          );
+        continue;
+      }
+      const versionMatch = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+      if (versionMatch) {
+        new Set(currentNames).forEach((pkg) => add(pkg, versionMatch[1]));
+      }
+    }
+  }
+}
+
+export function analyzeManifests(
+  manifests: Array<{ path: string; content: string }>,
+  lockfiles: Array<{ path: string; content: string }>,
+  lockfilePaths: string[],
+): Omit<DependencyReport, "unavailable"> {
+  const dependencies = manifests.flatMap(({ path, content }) => {
+    const parser = getManifestParser(path);
+    try {
+      return parser ? parser(content, path) : [];
+    } catch (e) {
+      // Malformed manifest
+      return [];
+    }
+  });
+
+  const lockedEcosystems = new Set(
+    lockfilePaths.map((path) => LOCKFILES[getFileName(path)]),
+  );
+  const unlockedEcosystems = [
+    ...new Set(
+      dependencies
+        .filter((dep) => dep.constraint !== "pinned")
+        .map((dep) => dep.ecosystem),
+    ),
+  ].filter((ecosystem) => !lockedEcosystems.has(ecosystem));
+
+  const versions = new Map<string, Set<string>>();
+  for (const { path, content } of lockfiles) {
+    try {
+      collectLockfileVersions(path, content, versions);
+    } catch (e) {
+      // Malformed lockfile
+    }
+  }
+  const duplicates = [...versions]
+    .filter(([, seen]) => seen.size > 1)
+    .map(([name, seen]) => ({ name, versions: [...seen].sort() }))
+    .sort((a, b) => b.versions.length - a.versions.length);
+  // Only JavaScript lockfiles are parsed, so every resolved package is npm
+  const resolvedPackages = [...versions].flatMap(([name, seen]) =>
+    [...seen].map((version) => ({
+      name,
+      version,
+      ecosystem: "npm" as const,
+    })),
+  );
+
+  return {
+    manifests: manifests.map(({ path }) => path),
+    lockfiles: lockfilePaths,
+    dependencies,
+    unlockedEcosystems,
+    duplicates,
+    resolvedPackages,
+  };
+}
+
+// Lockfiles in enclosing directories, such as a monorepo root, lock the
+// tree's dependencies too; they are counted but not parsed
+export async function fetchDependencyReport(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  tree: FileTree,
+  branch: string,
+  inheritedLockfiles: string[] = [],
+): Promise<DependencyReport> {
+  const files = listFiles(tree);
+  const manifestPaths = files
+    .filter((path) => getManifestParser(path) !== null)
+    .slice(0, MAX_MANIFEST_FILES);
+  const lockfilePaths = files.filter(isLockfile);
+  // Only JavaScript lockfiles are parsed, for duplicates and resolved versions
+  const parsedLockfilePaths = lockfilePaths
+    .filter((path) =>
+      /^(package-lock\.json|npm-shrinkwrap\.json|pnpm-lock\.yaml|yarn\.lock)$/.test(
+        getFileName(path),
+      ),
+    )
+    .slice(0, MAX_LOCKFILES_PARSED);
+
+  const download = async (path: string) => ({
+    path,
+    content: await provider.fetchFile(ref, path, branch).catch(() => null),
+  });
+  const [manifests, lockfiles] = await Promise.all([
+    Promise.all(manifestPaths.map(download)),
+    Promise.all(parsedLockfilePaths.map(download)),
+  ]);
+  const downloaded = (file: { path: string; content: string | null }) =>
+    file.content !== null;
+
+  return {
+    ...analyzeManifests(
+      manifests.filter(downloaded) as Array<{ path: string; content: string }>,
+      lockfiles.filter(downloaded) as Array<{ path: string; content: string }>,
+      [...lockfilePaths, ...inheritedLockfiles],
+    ),
+    // Files listed in the tree exist, so a missing download is a failure
+    unavailable: [...manifests, ...lockfiles]
+      .filter((file) => !downloaded(file))
+      .map(({ path }) => path),
+  };
+}
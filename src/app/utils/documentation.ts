@@ -0,0 +1,267 @@
+import type {
+  ApiDocCoverage,
+  DocumentationInventory,
+  FileTree,
+} from "../types";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import { getExtension, getFileName, isSourceFile, listFiles } from "./fileTree";
+
+// Upper bounds on how much source is downloaded to measure API docs
+const MAX_SAMPLED_FILES = 10;
+const MAX_FILE_SIZE = 100 * 1024;
+
+const DOCS_DIRECTORIES = new Set(["docs", "doc", "documentation"]);
+const DOC_PAGE_EXTENSIONS = new Set(["md", "mdx", "rst", "adoc", "txt"]);
+
+// Community files are also recognized in .github/ and docs/, as GitHub does
+const COMMUNITY_DIRECTORIES = ["", ".github/", "docs/"];
+
+const SITE_GENERATORS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "MkDocs", pattern: /(^|\/)mkdocs\.ya?ml$/ },
+  { name: "Docusaurus", pattern: /(^|\/)docusaurus\.config\.[cm]?[jt]s$/ },
+  { name: "TypeDoc", pattern: /(^|\/)typedoc(\.config\.[cm]?js|\.json)$/ },
+  { name: "Sphinx", pattern: /(^|\/)docs?\/(source\/)?conf\.py$/ },
+  { name: "VitePress", pattern: /(^|\/)\.vitepress\/config\.[cm]?[jt]s$/ },
+  { name: "mdBook", pattern: /(^|\/)book\.toml$/ },
+  { name: "Doxygen", pattern: /(^|\/)Doxyfile$/ },
+  { name: "Read the Docs", pattern: /(^|\/)\.readthedocs\.ya?ml$/ },
+];
+
+const CHANGELOG = /^(changelog|changes|history|releases|news)(\.(md|rst|txt|adoc))?$/i;
+const CONTRIBUTING = /^contributing(\.(md|rst|txt|adoc))?$/i;
+const CODE_OF_CONDUCT = /^code[_-]of[_-]conduct(\.(md|rst|txt))?$/i;
+const SECURITY_POLICY = /^security(\.(md|rst|txt))?$/i;
+const ISSUE_TEMPLATE =
+  /^(\.github\/ISSUE_TEMPLATE\/.+|\.gitlab\/issue_templates\/.+|(\.github\/)?issue_template\.md)$/i;
+const PULL_REQUEST_TEMPLATE =
+  /^(\.github\/PULL_REQUEST_TEMPLATE\/.+|\.gitlab\/merge_request_templates\/.+|(\.github\/|docs\/)?pull_request_template\.md)$/i;
+// Translated READMEs such as README.zh-CN.md or docs/README_es.md
+const README_TRANSLATION =
+  /^((docs|i18n)\/)?readme[._-][a-z]{2}([_-][a-z]{2,4})?\.(md|markdown|rst|txt|adoc)$/i;
+// Architecture decision records, e.g. docs/adr/0001-use-postgres.md
+const DECISION_RECORD =
+  /(^|\/)(adrs?|decisions|architecture\/decisions)\/[^/]+\.(md|rst|adoc)$/i;
+
+interface DeclarationStyle {
+  // Lines that declare part of the API
+  declaration: RegExp;
+  // Whether the declaration at the given line is documented
+  documented(lines: string[], index: number): boolean;
+}
+
+// Nearest line above the declaration, skipping blank lines, decorators and
+// attributes
+function lineAbove(lines: string[], index: number) {
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (line === "" || /^(@|#\[)/.test(line)) continue;
+    return line;
+  }
+  return "";
+}
+
+// /** ... */ block directly above, as in JSDoc, Javadoc and PHPDoc
+function hasBlockComment(lines: string[], index: number) {
+  const above = lineAbove(lines, index);
+  if (above.startsWith("/**")) return true;
+  if (!above.endsWith("*/")) return false;
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (line.startsWith("/**")) return true;
+    if (line.startsWith("/*")) return false;
+  }
+  return false;
+}
+
+function hasLineComment(prefix: string) {
+  return (lines: string[], index: number) =>
+    lineAbove(lines, index).startsWith(prefix);
+}
+
+// Python docstrings open the body, after a signature that may span lines
+function hasDocstring(lines: string[], index: number) {
+  let i = index;
+  while (i < lines.length && !/:\s*(#.*)?$/.test(lines[i])) i++;
+  for (i++; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "") continue;
+    return /^[rRuUbB]?("""|''')/.test(line);
+  }
+  return false;
+}
+
+const JS_STYLE: DeclarationStyle = {
+  declaration:
+    /^(export\s+(default\s+)?)?((async\s+)?function\b|(abstract\s+)?class\b|interface\b|enum\b|type\s+\w+|(const|let)\s+\w+\s*=\s*(async\s*)?(\(|function\b|\w+\s*=>))/,
+  documented: hasBlockComment,
+};
+
+const DECLARATION_STYLES: Record<string, DeclarationStyle> = {
+  js: JS_STYLE,
+  jsx: JS_STYLE,
+  mjs: JS_STYLE,
+  cjs: JS_STYLE,
+  ts: JS_STYLE,
+  tsx: JS_STYLE,
+  // Private names, starting with an underscore, are not part of the API
+  py: {
+    declaration: /^\s*((async\s+)?def|class)\s+[A-Za-z]/,
+    documented: hasDocstring,
+  },
+  // Only exported names carry doc comments by convention
+  go: {
+    declaration: /^(func\s+(\([^)]*\)\s*)?[A-Z]|type\s+[A-Z])/,
+    documented: hasLineComment("//"),
+  },
+  rs: {
+    declaration: /^\s*pub\s+((async\s+)?fn|struct|enum|trait)\b/,
+    documented: hasLineComment("///"),
+  },
+  java: {
+    declaration:
+      /^\s*public\s+(?!.*=)[\w<>[\],\s]*(\bclass\b|\binterface\b|\benum\b|\brecord\b|\()/,
+    documented: hasBlockComment,
+  },
+  kt: {
+    declaration: /^\s*(public\s+|open\s+)*(fun|class|interface|object)\s/,
+    documented: hasBlockComment,
+  },
+  php: {
+    declaration: /^\s*(public\s+|abstract\s+|final\s+|static\s+)*(function|class|interface|trait)\s/,
+    documented: hasBlockComment,
+  },
+  cs: {
+    declaration:
+      /^\s*public\s+(?!.*=)[\w<>[\],\s]*(\bclass\b|\binterface\b|\benum\b|\bstruct\b|\()/,
+    documented: hasLineComment("///"),
+  },
+  swift: {
+    declaration: /^\s*(public\s+|open\s+)(func|class|struct|enum|protocol)\s/,
+    documented: hasLineComment("///"),
+  },
+  rb: {
+    declaration: /^\s*(def|class|module)\s/,
+    documented: hasLineComment("#"),
+  },
+};
+
+function findCommunityFile(files: string[], pattern: RegExp) {
+  return (
+    files.find((path) =>
+      COMMUNITY_DIRECTORIES.some(
+        (directory) =>
+          path.startsWith(directory) &&
+          !path.slice(directory.length).includes("/") &&
+          pattern.test(getFileName(path)),
+      ),
+    ) ?? null
+  );
+}
+
+// Lists the documentation kept next to the README, from paths alone
+function summarizeDocumentation(
+  tree: FileTree,
+): Omit<DocumentationInventory, "apiDocs" | "failedFiles"> {
+  const files = listFiles(tree);
+  const docsFiles = files.filter((path) =>
+    DOCS_DIRECTORIES.has(path.split("/")[0].toLowerCase()),
+  );
+  const docsPages = docsFiles.filter((path) =>
+    DOC_PAGE_EXTENSIONS.has(getExtension(path)),
+  );
+
+  return {
+    docsDirectory: docsFiles.length > 0 ? docsFiles[0].split("/")[0] : null,
+    docsPages: docsPages.length,
+    siteGenerators: SITE_GENERATORS.flatMap(({ name, pattern }) => {
+      const path = files.find((file) => pattern.test(file));
+      return path ? [{ name, path }] : [];
+    }),
+    changelog:
+      files.find(
+        (path) => !path.includes("/") && CHANGELOG.test(getFileName(path)),
+      ) ?? null,
+    contributing: findCommunityFile(files, CONTRIBUTING),
+    codeOfConduct: findCommunityFile(files, CODE_OF_CONDUCT),
+    security: findCommunityFile(files, SECURITY_POLICY),
+    issueTemplates: files.filter((path) => ISSUE_TEMPLATE.test(path)),
+    pullRequestTemplate:
+      files.find((path) => PULL_REQUEST_TEMPLATE.test(path)) ?? null,
+    decisionRecords: files.filter((path) => DECISION_RECORD.test(path)),
+    translations: files.filter((path) => README_TRANSLATION.test(path)),
+  };
+}
+
+function measureDocComments(path: string, content: string) {
+  const style = DECLARATION_STYLES[getExtension(path)];
+  if (!style) return { declarations: 0, documented: 0 };
+
+  const lines = content.split("\n");
+  let declarations = 0;
+  let documented = 0;
+  lines.forEach((line, index) => {
+    if (!style.declaration.test(line)) return;
+    declarations++;
+    if (style.documented(lines, index)) documented++;
+  });
+  return { declarations, documented };
+}
+
+// Source files spread across the tree rather than the first few in one
+// directory
+function selectSample(tree: FileTree, maxFiles: number) {
+  const sizes = new Map(
+    tree.entries.map((entry) => [entry.path, entry.size ?? 0]),
+  );
+  const candidates = listFiles(tree).filter(
+    (path) =>
+      isSourceFile(path) &&
+      getExtension(path) in DECLARATION_STYLES &&
+      (sizes.get(path) ?? 0) <= MAX_FILE_SIZE,
+  );
+  if (candidates.length <= maxFiles) return candidates;
+  const step = candidates.length / maxFiles;
+  return Array.from(
+    { length: maxFiles },
+    (_, i) => candidates[Math.floor(i * step)],
+  );
+}
+
+// Inventories documentation beyond the README and measures how much of the
+// API carries doc comments in a sample of source files
+export async function fetchDocumentationInventory(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  tree: FileTree,
+  branch: string,
+  maxFiles = MAX_SAMPLED_FILES,
+): Promise<DocumentationInventory> {
+  const sample = selectSample(tree, maxFiles);
+  const files = await Promise.all(
+    sample.map(async (path) => ({
+      path,
+      content: await provider.fetchFile(ref, path, branch).catch(() => null),
+    })),
+  );
+
+  const measured = files.flatMap(({ path, content }) =>
+    content === null ? [] : [measureDocComments(path, content)],
+  );
+  const apiDocs: ApiDocCoverage | null =
+    measured.length > 0
+      ? {
+          sampledFiles: measured.length,
+          declarations: measured.reduce(
+            (sum, file) => sum + file.declarations,
+            0,
+          ),
+          documented: measured.reduce((sum, file) => sum + file.documented, 0),
+        }
+      : null;
+
+  return {
+    ...summarizeDocumentation(tree),
+    apiDocs,
+    failedFiles: files.length - measured.length,
+  };
+}
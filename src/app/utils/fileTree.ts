@@ -0,0 +1,212 @@
+import type { FileTree } from "../types";
+
+// Directories that hold vendored or generated code and are ignored when
+// counting the project's own files
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  "vendor",
+  "dist",
+  "build",
+  "target",
+  "out",
+  ".git",
+  "third_party",
+]);
+
+const TEST_DIRECTORIES = new Set([
+  "test",
+  "tests",
+  "__tests__",
+  "spec",
+  "specs",
+  "e2e",
+  "cypress",
+]);
+
+const SOURCE_EXTENSIONS = new Set([
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "ts",
+  "tsx",
+  "py",
+  "rb",
+  "go",
+  "rs",
+  "java",
+  "kt",
+  "scala",
+  "cs",
+  "php",
+  "swift",
+  "c",
+  "h",
+  "cc",
+  "cpp",
+  "hpp",
+  "m",
+  "dart",
+  "ex",
+  "exs",
+  "clj",
+  "vue",
+  "svelte",
+]);
+
+const TEST_FILE_PATTERNS = [
+  /\.(test|spec)\.[cm]?[jt]sx?$/, // foo.test.ts, foo.spec.js
+  /(^|\/)test_[^/]+\.py$/, // test_foo.py
+  /_test\.(py|go|rb|exs)$/, // foo_test.go
+  /_spec\.rb$/, // foo_spec.rb
+  /(Test|Tests|IT)\.(java|kt|scala|cs|php|swift)$/, // FooTest.java
+  /_test\.dart$/,
+];
+
+const TEST_CONFIG_PATTERNS = [
+  /^(jest|vitest|karma|cypress|playwright|ava)\.config\.[cm]?[jt]s$/,
+  /^\.mocharc(\.[a-z]+)?$/,
+  /^pytest\.ini$/,
+  /^conftest\.py$/,
+  /^tox\.ini$/,
+  /^\.rspec$/,
+  /^phpunit\.xml(\.dist)?$/,
+  /^\.nycrc(\.json)?$/,
+  /^codecov\.ya?ml$/,
+  /^\.coveragerc$/,
+];
+
+export function getExtension(path: string) {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+export function getFileName(path: string) {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function isIgnored(path: string) {
+  return path
+    .split("/")
+    .slice(0, -1)
+    .some((segment) => IGNORED_DIRECTORIES.has(segment));
+}
+
+export function listFiles(tree: FileTree) {
+  return tree.entries
+    .filter((entry) => entry.type === "blob" && !isIgnored(entry.path))
+    .map((entry) => entry.path);
+}
+
+export function isTestFile(path: string) {
+  if (!SOURCE_EXTENSIONS.has(getExtension(path))) return false;
+  if (TEST_FILE_PATTERNS.some((pattern) => pattern.test(path))) {
+    return true;
+  }
+  return path
+    .split("/")
+    .slice(0, -1)
+    .some((segment) => TEST_DIRECTORIES.has(segment.toLowerCase()));
+}
+
+export function isSourceFile(path: string) {
+  return SOURCE_EXTENSIONS.has(getExtension(path)) && !isTestFile(path);
+}
+
+export interface TestInventory {
+  testFiles: string[];
+  sourceFileCount: number;
+  testDirectories: string[];
+  configFiles: string[];
+  // Test files per source file
+  ratio: number;
+}
+
+export function summarizeTests(tree: FileTree): TestInventory {
+  const files = listFiles(tree);
+  const testFiles = files.filter(isTestFile);
+  const sourceFileCount = files.filter(isSourceFile).length;
+
+  const testDirectories = tree.entries
+    .filter(
+      (entry) =>
+        entry.type === "tree" &&
+        !isIgnored(entry.path) &&
+        TEST_DIRECTORIES.has(getFileName(entry.path).toLowerCase()),
+    )
+    .map((entry) => entry.path);
+
+  const configFiles = files.filter((path) =>
+    TEST_CONFIG_PATTERNS.some((pattern) =>
+      pattern.test(getFileName(path)),
+    ),
+  );
+
+  return {
+    testFiles,
+    sourceFileCount,
+    testDirectories,
+    configFiles,
+    ratio:
+      sourceFileCount > 0 ? testFiles.length / sourceFileCount : 0,
+  };
+}
+
+// Languages keyed by file extension, for breaking down subdirectories that
+// hosts report no languages for
+const LANGUAGES: Record<string, string> = {
+  js: "JavaScript",
+  jsx: "JavaScript",
+  mjs: "JavaScript",
+  cjs: "JavaScript",
+  ts: "TypeScript",
+  tsx: "TypeScript",
+  py: "Python",
+  rb: "Ruby",
+  go: "Go",
+  rs: "Rust",
+  java: "Java",
+  kt: "Kotlin",
+  scala: "Scala",
+  cs: "C#",
+  php: "PHP",
+  swift: "Swift",
+  c: "C",
+  h: "C",
+  cc: "C++",
+  cpp: "C++",
+  hpp: "C++",
+  m: "Objective-C",
+  dart: "Dart",
+  ex: "Elixir",
+  exs: "Elixir",
+  clj: "Clojure",
+  vue: "Vue",
+  svelte: "Svelte",
+};
+
+// Bytes per language, or file counts when the host does not report sizes
+export function summarizeLanguages(tree: FileTree) {
+  const languages: Record<string, number> = {};
+  for (const entry of tree.entries) {
+    if (entry.type !== "blob" || isIgnored(entry.path)) continue;
+    const language = LANGUAGES[getExtension(entry.path)];
+    if (language) {
+      languages[language] =
+        (languages[language] ?? 0) + (entry.size ?? 1);
+    }
+  }
+  return languages;
+}
+
+// Restricts a tree to one directory, with paths made relative to it
+export function scopeTree(tree: FileTree, directory: string): FileTree {
+  const prefix = `${directory}/`;
+  return {
+    entries: tree.entries
+      .filter((entry) => entry.path.startsWith(prefix))
+      .map((entry) => ({ ...entry, path: entry.path.slice(prefix.length) })),
+    truncated: tree.truncated,
+  };
+}
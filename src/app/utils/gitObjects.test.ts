@@ -0,0 +1,206 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { findGitDirectory, openGitRepository } from "./gitObjects";
+import type { GitRepository } from "./gitObjects";
+import {
+  annotatedTag,
+  blob,
+  commit,
+  looseObjects,
+  packFiles,
+  textFiles,
+  tree,
+} from "./__fixtures__/gitFixtures";
+import type { FixtureObject } from "./__fixtures__/gitFixtures";
+
+const T0 = 1700000000;
+const ada = (offset: number) => ({ name: "Ada", time: T0 + offset });
+const lin = (offset: number) => ({ name: "Lin", time: T0 + offset });
+
+const decode = (bytes: Uint8Array | null) =>
+  bytes && new TextDecoder().decode(bytes);
+
+// Long enough that the second version is stored as a real delta
+const PREAMBLE = "// Widget entry point\n".repeat(20);
+const INDEX_V1 = `${PREAMBLE}export const version = 1;\n`;
+const INDEX_V2 = `${PREAMBLE}export const version = 2;\n`;
+
+// main:    c1 - c3 - c4 (merge)
+// feature:   \- c2 -/
+describe("openGitRepository", () => {
+  let repository: GitRepository;
+  const commits: Record<string, FixtureObject> = {};
+
+  beforeAll(async () => {
+    const readme1 = await blob("# Widget\n");
+    const readme2 = await blob("# Widget\n\nNow with releases.\n");
+    const index1 = await blob(INDEX_V1);
+    const index2 = await blob(INDEX_V2);
+    const src1 = await tree([{ name: "index.ts", object: index1 }]);
+    const src2 = await tree([{ name: "index.ts", object: index2 }]);
+
+    const root1 = await tree([
+      { name: "README.md", object: readme1 },
+      { name: "src", object: src1 },
+    ]);
+    const root2 = await tree([
+      { name: "README.md", object: readme1 },
+      { name: "src", object: src2 },
+    ]);
+    const root3 = await tree([
+      { name: "README.md", object: readme2 },
+      { name: "src", object: src1 },
+    ]);
+
+    commits.c1 = await commit({
+      tree: root1,
+      author: ada(0),
+      message: "Initial commit",
+    });
+    commits.c2 = await commit({
+      tree: root2,
+      parents: [commits.c1],
+      author: lin(100),
+      message: "Bump version\n\nNeeded for the release.",
+    });
+    commits.c3 = await commit({
+      tree: root3,
+      parents: [commits.c1],
+      author: ada(200),
+      message: "Describe releases",
+    });
+    const root4 = await tree([
+      { name: "README.md", object: readme2 },
+      { name: "src", object: src2 },
+      // Submodules point into other repositories
+      { name: "vendor", object: commits.c1, mode: "160000" },
+    ]);
+    commits.c4 = await commit({
+      tree: root4,
+      parents: [commits.c3, commits.c2],
+      author: ada(300),
+      message: "Merge branch 'feature'",
+    });
+    const tag = await annotatedTag(commits.c1, "v1.0", ada(50));
+
+    const files = new Map([
+      // The README's first version is loose, so the ref delta below
+      // reaches outside the pack
+      ...looseObjects([readme1, root4, commits.c4]),
+      ...(await packFiles([
+        { object: index1 },
+        { object: index2, delta: { base: index1, by: "offset" } },
+        { object: readme2, delta: { base: readme1, by: "ref" } },
+        ...[src1, src2, root1, root2, root3, tag].map((object) => ({
+          object,
+        })),
+        ...[commits.c1, commits.c2, commits.c3].map((object) => ({
+          object,
+        })),
+      ])),
+      ...textFiles({
+        HEAD: "ref: refs/heads/main\n",
+        "refs/heads/main": `${commits.c4.sha}\n`,
+        "packed-refs": [
+          "# pack-refs with: peeled fully-peeled sorted",
+          `${commits.c2.sha} refs/heads/feature`,
+          `${tag.sha} refs/tags/v1.0`,
+        ].join("\n"),
+      }),
+    ]);
+    repository = openGitRepository(files, findGitDirectory(files) ?? "");
+  });
+
+  it("resolves branches, packed refs, tags and abbreviated ids", () => {
+    expect(repository.headBranch).toBe("main");
+    expect(repository.resolve("")).toBe(commits.c4.sha);
+    expect(repository.resolve("feature")).toBe(commits.c2.sha);
+    // Annotated tags are peeled to the tagged commit
+    expect(repository.resolve("v1.0")).toBe(commits.c1.sha);
+    expect(repository.resolve(commits.c3.sha.slice(0, 7))).toBe(
+      commits.c3.sha,
+    );
+    expect(repository.resolve("missing")).toBeNull();
+  });
+
+  it("reads objects stored whole, as offset deltas and as ref deltas", () => {
+    expect(decode(repository.readFile("v1.0", "src/index.ts"))).toBe(
+      INDEX_V1,
+    );
+    expect(decode(repository.readFile("feature", "src/index.ts"))).toBe(
+      INDEX_V2,
+    );
+    expect(decode(repository.readFile("HEAD", "README.md"))).toBe(
+      "# Widget\n\nNow with releases.\n",
+    );
+    expect(repository.readFile("HEAD", "src/missing.ts")).toBeNull();
+  });
+
+  it("lists the tree without submodules", () => {
+    expect(repository.readTree("HEAD")).toEqual({
+      entries: [
+        { path: "README.md", type: "blob" },
+        { path: "src", type: "tree" },
+        { path: "src/index.ts", type: "blob" },
+      ],
+      truncated: false,
+    });
+  });
+
+  it("walks the history newest first", () => {
+    const history = repository.log();
+    expect(history.total_count).toBe(4);
+    expect(history.commits.map((entry) => entry.sha)).toEqual([
+      commits.c4.sha,
+      commits.c3.sha,
+      commits.c2.sha,
+      commits.c1.sha,
+    ]);
+    expect(history.commits[2].commit).toEqual({
+      message: "Bump version\n\nNeeded for the release.",
+      author: { name: "Lin", date: "2023-11-14T22:15:00Z" },
+    });
+  });
+
+  it("filters the history by revision, date and path", () => {
+    const sha = (data: { commits: Array<{ sha: string }> }) =>
+      data.commits.map((entry) => entry.sha);
+
+    expect(sha(repository.log({ revision: "feature" }))).toEqual([
+      commits.c2.sha,
+      commits.c1.sha,
+    ]);
+    const until = new Date((T0 + 150) * 1000).toISOString();
+    expect(sha(repository.log({ until }))).toEqual([
+      commits.c2.sha,
+      commits.c1.sha,
+    ]);
+    // The merge brings no change of its own to src/index.ts
+    expect(sha(repository.log({ path: "src/index.ts" }))).toEqual([
+      commits.c2.sha,
+      commits.c1.sha,
+    ]);
+  });
+
+  it("reports truncated histories", () => {
+    const history = repository.log({ maxCommits: 2 });
+    expect(history.truncated).toBe(true);
+    expect(history.total_count).toBe(4);
+    expect(history.commits).toHaveLength(2);
+  });
+});
+
+describe("findGitDirectory", () => {
+  it("finds working copies and bare repositories", () => {
+    const file = new Uint8Array();
+    expect(findGitDirectory(new Map([[".git/HEAD", file]]))).toBe(".git/");
+    expect(
+      findGitDirectory(
+        new Map([
+          ["HEAD", file],
+          ["objects/pack/pack-1.pack", file],
+        ]),
+      ),
+    ).toBe("");
+    expect(findGitDirectory(new Map([["README.md", file]]))).toBeNull();
+  });
+});
@@ -0,0 +1,502 @@
+import { inflateSync } from "fflate";
+import type { CommitData, FileTree, FileTreeEntry } from "../types";
+import type { FetchCommitOptions } from "./providers/types";
+
+// Reads a git object database from uploaded files, without any network
+// access. Loose objects and version 2 pack indexes are supported, including
+// deltified objects.
+
+type ObjectType = "commit" | "tree" | "blob" | "tag";
+
+interface GitObject {
+  type: ObjectType;
+  data: Uint8Array;
+}
+
+interface GitCommit {
+  sha: string;
+  tree: string;
+  parents: string[];
+  author: { name: string; date: string };
+  committedAt: number;
+  message: string;
+}
+
+export interface GitRepository {
+  // Branch HEAD points at, or null when it is detached
+  headBranch: string | null;
+  // Resolves a branch, tag or (abbreviated) commit id to a commit, with
+  // an empty revision meaning HEAD
+  resolve(revision: string): string | null;
+  // Commit history in the shape the hosts return it
+  log(options?: FetchCommitOptions): CommitData;
+  readTree(revision: string): FileTree | null;
+  readFile(revision: string, path: string): Uint8Array | null;
+}
+
+const PACK_TYPES: Record<number, ObjectType> = {
+  1: "commit",
+  2: "tree",
+  3: "blob",
+  4: "tag",
+};
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+// Decompressed delta bases are kept for reuse up to this many objects
+const MAX_CACHED_OBJECTS = 2000;
+
+const decoder = new TextDecoder();
+
+function toHex(bytes: Uint8Array) {
+  let hex = "";
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, "0");
+  return hex;
+}
+
+function readUint32(bytes: Uint8Array, offset: number) {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+// Objects are zlib streams; the two byte header is skipped and inflation
+// stops at the end of the deflate stream, ignoring whatever follows
+function inflate(bytes: Uint8Array, offset: number, size: number) {
+  return inflateSync(bytes.subarray(offset + 2), {
+    out: new Uint8Array(size),
+  });
+}
+
+// Rebuilds an object from its base and a git delta
+function applyDelta(base: Uint8Array, delta: Uint8Array) {
+  let position = 0;
+  const readSize = () => {
+    let size = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[position++];
+      size |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return size;
+  };
+  readSize(); // Base size
+  const result = new Uint8Array(readSize());
+
+  let written = 0;
+  while (position < delta.length) {
+    const opcode = delta[position++];
+    if (opcode & 0x80) {
+      // Copy a range of the base
+      let offset = 0;
+      let length = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        if (opcode & (1 << bit)) offset |= delta[position++] << (bit * 8);
+      }
+      for (let bit = 0; bit < 3; bit++) {
+        if (opcode & (0x10 << bit)) length |= delta[position++] << (bit * 8);
+      }
+      offset >>>= 0;
+      length = length || 0x10000;
+      result.set(base.subarray(offset, offset + length), written);
+      written += length;
+    } else if (opcode > 0) {
+      // Insert the next bytes of the delta
+      result.set(delta.subarray(position, position + opcode), written);
+      position += opcode;
+      written += opcode;
+    } else {
+      throw new Error("Corrupt git delta");
+    }
+  }
+  return result;
+}
+
+interface Pack {
+  data: Uint8Array;
+  // Object ids mapped to their offset in the pack
+  offsets: Map<string, number>;
+}
+
+function readPackIndex(index: Uint8Array) {
+  // Version 2 indexes start with "\377tOc" and the version
+  if (readUint32(index, 0) !== 0xff744f63 || readUint32(index, 4) !== 2) {
+    return null;
+  }
+  const count = readUint32(index, 8 + 255 * 4);
+  const shaStart = 8 + 256 * 4;
+  const offsetStart = shaStart + count * 20 + count * 4;
+  const largeOffsetStart = offsetStart + count * 4;
+
+  const offsets = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const shaOffset = shaStart + i * 20;
+    const sha = toHex(index.subarray(shaOffset, shaOffset + 20));
+    let offset = readUint32(index, offsetStart + i * 4);
+    if (offset & 0x80000000) {
+      // Packs over 2 GB store the offset in a separate 64-bit table
+      const large = largeOffsetStart + (offset & 0x7fffffff) * 8;
+      offset =
+        readUint32(index, large) * 2 ** 32 + readUint32(index, large + 4);
+    }
+    offsets.set(sha, offset);
+  }
+  return offsets;
+}
+
+function parseSignature(line: string) {
+  const match = line.match(/^(.*) <[^>]*> (\d+) [+-]\d{4}$/);
+  return {
+    name: match?.[1] ?? line,
+    timestamp: match ? Number(match[2]) : 0,
+  };
+}
+
+function isoDate(timestamp: number) {
+  return new Date(timestamp * 1000).toISOString().replace(".000Z", "Z");
+}
+
+// Finds a git directory among uploaded files: a working copy's .git folder
+// or the root of a bare repository. Returns the path prefix of the git
+// directory, or null when there is none.
+export function findGitDirectory(files: Map<string, Uint8Array>) {
+  if (files.has(".git/HEAD")) return ".git/";
+  const bare =
+    files.has("HEAD") &&
+    [...files.keys()].some((path) => path.startsWith("objects/"));
+  return bare ? "" : null;
+}
+
+export function openGitRepository(
+  files: Map<string, Uint8Array>,
+  gitDir: string,
+): GitRepository {
+  const read = (path: string) => files.get(`${gitDir}${path}`) ?? null;
+  const readText = (path: string) => {
+    const bytes = read(path);
+    return bytes ? decoder.decode(bytes).trim() : null;
+  };
+
+  const packs: Pack[] = [];
+  for (const path of files.keys()) {
+    const match = path.match(/^(.*objects\/pack\/pack-[0-9a-f]+)\.idx$/);
+    if (!match || !path.startsWith(gitDir)) continue;
+    const data = files.get(`${match[1]}.pack`);
+    const offsets = readPackIndex(files.get(path)!);
+    if (data && offsets) packs.push({ data, offsets });
+  }
+
+  const packedRefs = new Map<string, string>();
+  for (const line of (readText("packed-refs") ?? "").split("\n")) {
+    const match = line.match(/^([0-9a-f]{40}) (\S+)$/);
+    if (match) packedRefs.set(match[2], match[1]);
+  }
+
+  const cache = new Map<string, GitObject>();
+  const remember = (key: string, object: GitObject) => {
+    if (cache.size >= MAX_CACHED_OBJECTS) cache.clear();
+    cache.set(key, object);
+    return object;
+  };
+
+  function readPacked(pack: Pack, offset: number): GitObject {
+    const key = `${packs.indexOf(pack)}:${offset}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const { data } = pack;
+    let position = offset;
+    let byte = data[position++];
+    const typeId = (byte >> 4) & 0x07;
+    let size = byte & 0x0f;
+    let shift = 4;
+    while (byte & 0x80) {
+      byte = data[position++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    }
+
+    if (typeId === OFS_DELTA || typeId === REF_DELTA) {
+      let base: GitObject | null;
+      if (typeId === OFS_DELTA) {
+        byte = data[position++];
+        let distance = byte & 0x7f;
+        while (byte & 0x80) {
+          byte = data[position++];
+          distance = (distance + 1) * 128 + (byte & 0x7f);
+        }
+        base = readPacked(pack, offset - distance);
+      } else {
+        base = readObject(toHex(data.subarray(position, position + 20)));
+        position += 20;
+      }
+      if (!base) throw new Error("Missing git delta base");
+      const delta = inflate(data, position, size);
+      return remember(key, {
+        type: base.type,
+        data: applyDelta(base.data, delta),
+      });
+    }
+
+    const type = PACK_TYPES[typeId];
+    if (!type) throw new Error(`Unknown git object type ${typeId}`);
+    return remember(key, { type, data: inflate(data, position, size) });
+  }
+
+  function readObject(sha: string): GitObject | null {
+    for (const pack of packs) {
+      const offset = pack.offsets.get(sha);
+      if (offset !== undefined) return readPacked(pack, offset);
+    }
+
+    const loose = read(`objects/${sha.slice(0, 2)}/${sha.slice(2)}`);
+    if (!loose) return null;
+    const cached = cache.get(sha);
+    if (cached) return cached;
+
+    const raw = inflateSync(loose.subarray(2));
+    const nul = raw.indexOf(0);
+    const [type] = decoder.decode(raw.subarray(0, nul)).split(" ");
+    return remember(sha, {
+      type: type as ObjectType,
+      data: raw.subarray(nul + 1),
+    });
+  }
+
+  function hasObject(sha: string) {
+    return (
+      packs.some((pack) => pack.offsets.has(sha)) ||
+      read(`objects/${sha.slice(0, 2)}/${sha.slice(2)}`) !== null
+    );
+  }
+
+  function readRef(name: string, depth = 0): string | null {
+    const value = readText(name) ?? packedRefs.get(name) ?? null;
+    if (value?.startsWith("ref: ") && depth < 5) {
+      return readRef(value.slice(5), depth + 1);
+    }
+    return value && /^[0-9a-f]{40}$/.test(value) ? value : null;
+  }
+
+  // Annotated tags point at a tag object, which names the tagged commit
+  function peel(sha: string | null): string | null {
+    let current = sha;
+    for (let depth = 0; current && depth < 5; depth++) {
+      const object = readObject(current);
+      if (object?.type !== "tag") return object ? current : null;
+      const target = decoder.decode(object.data).match(/^object (\S+)/);
+      current = target?.[1] ?? null;
+    }
+    return current;
+  }
+
+  function abbreviated(prefix: string) {
+    const matches = new Set<string>();
+    for (const pack of packs) {
+      for (const sha of pack.offsets.keys()) {
+        if (sha.startsWith(prefix)) matches.add(sha);
+      }
+    }
+    const directory = `${gitDir}objects/${prefix.slice(0, 2)}/`;
+    for (const path of files.keys()) {
+      if (path.startsWith(directory)) {
+        const sha = prefix.slice(0, 2) + path.slice(directory.length);
+        if (sha.startsWith(prefix)) matches.add(sha);
+      }
+    }
+    return matches.size === 1 ? [...matches][0] : null;
+  }
+
+  function resolve(revision: string) {
+    if (!revision || revision === "HEAD") return peel(readRef("HEAD"));
+    if (/^[0-9a-f]{40}$/.test(revision) && hasObject(revision)) {
+      return peel(revision);
+    }
+    for (const name of [
+      revision,
+      `refs/heads/${revision}`,
+      `refs/tags/${revision}`,
+      `refs/remotes/origin/${revision}`,
+    ]) {
+      const sha = readRef(name);
+      if (sha) return peel(sha);
+    }
+    return /^[0-9a-f]{4,39}$/.test(revision)
+      ? peel(abbreviated(revision))
+      : null;
+  }
+
+  const commits = new Map<string, GitCommit | null>();
+  function readCommit(sha: string) {
+    if (commits.has(sha)) return commits.get(sha)!;
+
+    const object = readObject(sha);
+    let commit: GitCommit | null = null;
+    if (object?.type === "commit") {
+      const text = decoder.decode(object.data);
+      const split = text.indexOf("\n\n");
+      const headers = (split === -1 ? text : text.slice(0, split)).split("\n");
+      const parents: string[] = [];
+      let tree = "";
+      let author = parseSignature("");
+      let committer = author;
+      for (const header of headers) {
+        // Continuation lines of multi-line headers such as gpgsig
+        if (header.startsWith(" ")) continue;
+        const space = header.indexOf(" ");
+        const key = header.slice(0, space);
+        const value = header.slice(space + 1);
+        if (key === "tree") tree = value;
+        else if (key === "parent") parents.push(value);
+        else if (key === "author") author = parseSignature(value);
+        else if (key === "committer") committer = parseSignature(value);
+      }
+      commit = {
+        sha,
+        tree,
+        parents,
+        author: { name: author.name, date: isoDate(author.timestamp) },
+        committedAt: committer.timestamp,
+        message: split === -1 ? "" : text.slice(split + 2).trimEnd(),
+      };
+    }
+    commits.set(sha, commit);
+    return commit;
+  }
+
+  function readTreeEntries(sha: string) {
+    const object = readObject(sha);
+    if (object?.type !== "tree") return [];
+
+    const entries: Array<{ mode: string; name: string; sha: string }> = [];
+    const { data } = object;
+    let position = 0;
+    while (position < data.length) {
+      const space = data.indexOf(0x20, position);
+      const nul = data.indexOf(0, space);
+      entries.push({
+        mode: decoder.decode(data.subarray(position, space)),
+        name: decoder.decode(data.subarray(space + 1, nul)),
+        sha: toHex(data.subarray(nul + 1, nul + 21)),
+      });
+      position = nul + 21;
+    }
+    return entries;
+  }
+
+  // Object id at a path below a tree, or null if there is nothing there
+  function lookup(treeSha: string, path: string) {
+    let current: string | null = treeSha;
+    for (const segment of path.split("/").filter(Boolean)) {
+      if (!current) return null;
+      current =
+        readTreeEntries(current).find((entry) => entry.name === segment)?.sha ??
+        null;
+    }
+    return current;
+  }
+
+  function log({
+    maxCommits = Infinity,
+    revision,
+    until,
+    path,
+  }: FetchCommitOptions = {}): CommitData {
+    const head = resolve(revision ?? "");
+    const cutoff = until ? Date.parse(until) / 1000 : Infinity;
+
+    // Walks the graph like git log: the newest commit whose children have
+    // all been listed comes next
+    const reachable: GitCommit[] = [];
+    const seen = new Set<string>();
+    const queue: GitCommit[] = [];
+    const enqueue = (sha: string) => {
+      if (seen.has(sha)) return;
+      seen.add(sha);
+      const commit = readCommit(sha);
+      if (!commit) return; // Shallow clones stop at missing parents
+      // Kept sorted oldest first, so the newest is popped from the end
+      let index = queue.length;
+      while (index > 0 && queue[index - 1].committedAt > commit.committedAt) {
+        index--;
+      }
+      queue.splice(index, 0, commit);
+    };
+    if (head) enqueue(head);
+    while (queue.length > 0) {
+      const commit = queue.pop()!;
+      reachable.push(commit);
+      commit.parents.forEach(enqueue);
+    }
+
+    // With a path, only commits that changed it are listed; merges count
+    // only when they differ from every parent
+    const history = reachable.filter((commit) => {
+      if (commit.committedAt > cutoff) return false;
+      if (!path) return true;
+      const current = lookup(commit.tree, path);
+      const parents = commit.parents
+        .map((parent) => readCommit(parent))
+        .filter((parent): parent is GitCommit => parent !== null);
+      return parents.length === 0
+        ? current !== null
+        : parents.every((parent) => lookup(parent.tree, path) !== current);
+    });
+
+    return {
+      total_count: history.length,
+      truncated: history.length > maxCommits,
+      commits: history.slice(0, maxCommits).map((commit) => ({
+        sha: commit.sha,
+        commit: { message: commit.message, author: commit.author },
+      })),
+    };
+  }
+
+  function readTree(revision: string): FileTree | null {
+    const commit = resolve(revision);
+    const root = commit ? readCommit(commit)?.tree : null;
+    if (!root) return null;
+
+    const entries: FileTreeEntry[] = [];
+    const walk = (sha: string, prefix: string) => {
+      for (const entry of readTreeEntries(sha)) {
+        const path = `${prefix}${entry.name}`;
+        if (entry.mode === "40000") {
+          entries.push({ path, type: "tree" });
+          walk(entry.sha, `${path}/`);
+        } else if (entry.mode !== "160000") {
+          // Submodules (mode 160000) point into other repositories
+          entries.push({ path, type: "blob" });
+        }
+      }
+    };
+    walk(root, "");
+    return { entries, truncated: false };
+  }
+
+  function readFile(revision: string, path: string) {
+    const commit = resolve(revision);
+    const root = commit ? readCommit(commit)?.tree : null;
+    const sha = root ? lookup(root, path) : null;
+    const object = sha ? readObject(sha) : null;
+    return object?.type === "blob" ? object.data : null;
+  }
+
+  const head = readText("HEAD");
+  return {
+    headBranch: head?.startsWith("ref: refs/heads/")
+      ? head.slice("ref: refs/heads/".length)
+      : null,
+    resolve,
+    log,
+    readTree,
+    readFile,
+  };
+}
@@ -0,0 +1,90 @@
+const TOKEN_STORAGE_KEY = "repository-mirror.github-token";
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: Date;
+  authenticated: boolean;
+}
+
+type RateLimitListener = (status: RateLimitStatus | null) => void;
+
+let rateLimit: RateLimitStatus | null = null;
+const listeners = new Set<RateLimitListener>();
+
+export function getGitHubToken(): string | null {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch (e) {
+    // Storage unavailable (private mode, disabled cookies)
+    return null;
+  }
+}
+
+export function setGitHubToken(token: string | null) {
+  try {
+    if (token) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch (e) {
+    // Storage unavailable
+  }
+}
+
+export function getRateLimit(): RateLimitStatus | null {
+  return rateLimit;
+}
+
+export function subscribeToRateLimit(listener: RateLimitListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function recordRateLimit(response: Response, authenticated: boolean) {
+  // GraphQL queries draw on a separate quota of points
+  const resource = response.headers.get("X-RateLimit-Resource");
+  if (resource !== null && resource !== "core") return;
+
+  const limit = response.headers.get("X-RateLimit-Limit");
+  const remaining = response.headers.get("X-RateLimit-Remaining");
+  const reset = response.headers.get("X-RateLimit-Reset");
+  if (limit === null || remaining === null || reset === null) return;
+
+  rateLimit = {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(response.headers.get("X-RateLimit-Used") ?? 0),
+    resetAt: new Date(Number(reset) * 1000),
+    authenticated,
+  };
+  listeners.forEach((listener) => listener(rateLimit));
+}
+
+// Drop-in replacement for fetch that authenticates GitHub API calls with the
+// stored token and tracks the quota reported in the response headers
+export const githubFetch: typeof fetch = async (input, init) => {
+  const token = getGitHubToken();
+  const headers = new Headers(init?.headers);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  recordRateLimit(response, Boolean(token));
+  return response;
+};
+
+// The rate_limit endpoint does not count against the quota, so it is safe to
+// call whenever the token changes
+export async function refreshRateLimit() {
+  try {
+    await githubFetch("https://api.github.com/rate_limit");
+  } catch (e) {
+    // Quota unknown until the next API call
+  }
+}
@@ -0,0 +1,83 @@
+import type { CommitData, FileTree, RepositoryData } from "../types";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import { trackSource } from "./progress";
+
+// README file names recognized at the repository root
+const README_PATTERN = /^readme(\.(md|markdown|rst|txt|adoc))?$/i;
+
+export function findReadme(tree: FileTree) {
+  const candidates = tree.entries.filter(
+    (entry) =>
+      entry.type === "blob" &&
+      !entry.path.includes("/") &&
+      README_PATTERN.test(entry.path),
+  );
+  return (
+    candidates.find((entry) => /\.md$/i.test(entry.path)) ?? candidates[0]
+  )?.path;
+}
+
+export interface RepositorySnapshot {
+  repoData: RepositoryData;
+  // Newest commit of the fetched history the files were read at
+  commit: string;
+}
+
+export interface SnapshotOptions {
+  // Branch, tag or commit the history was listed from
+  revision?: string | null;
+  // Instant the history was cut off at
+  asOf?: Date;
+}
+
+// Rebuilds the repository as it stood at the newest commit of a history
+// fetched for a revision or up to a past instant. The file tree and README
+// are read at that commit, so current needs neither, and activity dates
+// come from it. Stars, forks, issues, languages and the license have no
+// history in the host APIs and keep their current values.
+export async function snapshotRepository(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  current: RepositoryData,
+  commitData: CommitData,
+  { revision, asOf }: SnapshotOptions,
+): Promise<RepositorySnapshot> {
+  const [head] = commitData.commits;
+  if (!head) {
+    const at = revision ? ` at ${revision}` : "";
+    const before = asOf
+      ? ` on or before ${asOf.toISOString().slice(0, 10)}`
+      : "";
+    throw new Error(`No commits found${at}${before}`);
+  }
+
+  // Recorded like the default branch's tree and README, so the dimensions
+  // relying on them are marked incomplete when they cannot be read
+  const tree = await trackSource("tree", "file tree", null, async () => {
+    const listing = await provider.fetchTree(ref, head.sha);
+    if (!listing) {
+      throw new Error(
+        `The file tree at ${head.sha.slice(0, 7)} is unavailable.`,
+      );
+    }
+    return listing;
+  });
+  const readmePath = tree ? findReadme(tree) : undefined;
+  const readme = readmePath
+    ? await trackSource("readme", "README", null, () =>
+        provider.fetchFile(ref, readmePath, head.sha),
+      )
+    : null;
+
+  const lastActivity = head.commit.author.date;
+  return {
+    commit: head.sha,
+    repoData: {
+      ...current,
+      updated_at: lastActivity,
+      pushed_at: lastActivity,
+      readme,
+      tree,
+    },
+  };
+}
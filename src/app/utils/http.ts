@@ -0,0 +1,204 @@
+import type { FetchFn } from "./providers/types";
+
+// Attempts made after a failed request before its response is returned
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+// Longer Retry-After waits are reported to the user instead of sat out
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "The requested resource was not found") {
+    super(message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+// The hourly quota is used up; requests succeed again after resetAt
+export class RateLimitedError extends HttpError {
+  constructor(
+    status: number,
+    readonly resetAt: Date | null,
+  ) {
+    super(
+      resetAt
+        ? `API rate limit exceeded. It resets at ${resetAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.`
+        : "API rate limit exceeded. Please try again later.",
+      status,
+    );
+    this.name = "RateLimitedError";
+  }
+}
+
+// Too many requests in a short burst, regardless of the remaining quota
+export class SecondaryRateLimitError extends HttpError {
+  constructor(
+    status: number,
+    readonly retryAfter: number,
+  ) {
+    super(
+      `The host asked to slow down. Please try again in ${retryAfter} seconds.`,
+      status,
+    );
+    this.name = "SecondaryRateLimitError";
+  }
+}
+
+export class ServerError extends HttpError {
+  constructor(status: number) {
+    super(
+      `The host failed to respond (HTTP ${status}). Please try again later.`,
+      status,
+    );
+    this.name = "ServerError";
+  }
+}
+
+// The request never got a response, e.g. offline or blocked by CORS
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super("The host could not be reached. Please check your connection.", {
+      cause,
+    });
+    this.name = "NetworkError";
+  }
+}
+
+function retryAfterSeconds(response: Response) {
+  const header = response.headers.get("Retry-After");
+  if (header === null) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? null
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// GitHub reports the quota in X-RateLimit-*, GitLab in RateLimit-*
+function quotaExhausted(response: Response) {
+  const remaining =
+    response.headers.get("X-RateLimit-Remaining") ??
+    response.headers.get("RateLimit-Remaining");
+  return remaining !== null && Number(remaining) === 0;
+}
+
+function quotaReset(response: Response) {
+  const reset =
+    response.headers.get("X-RateLimit-Reset") ??
+    response.headers.get("RateLimit-Reset");
+  return reset === null ? null : new Date(Number(reset) * 1000);
+}
+
+function isSecondaryRateLimit(response: Response) {
+  return (
+    (response.status === 403 || response.status === 429) &&
+    !quotaExhausted(response) &&
+    retryAfterSeconds(response) !== null
+  );
+}
+
+// Maps a failed response to the error describing it
+export function httpError(response: Response): HttpError {
+  const { status } = response;
+  if (status === 404) return new NotFoundError();
+  if (status === 401) {
+    return new HttpError(
+      "Authentication failed. Please check the access token in Settings.",
+      status,
+    );
+  }
+  if (isSecondaryRateLimit(response)) {
+    return new SecondaryRateLimitError(
+      status,
+      retryAfterSeconds(response) ?? 0,
+    );
+  }
+  if (status === 429 || (status === 403 && quotaExhausted(response))) {
+    return new RateLimitedError(status, quotaReset(response));
+  }
+  if (status === 403) {
+    return new HttpError("Access to this resource was denied.", status);
+  }
+  if (status >= 500) return new ServerError(status);
+  return new HttpError(`Request failed with HTTP ${status}`, status);
+}
+
+export function ensureOk(response: Response) {
+  if (!response.ok) throw httpError(response);
+}
+
+// Failures that say nothing about the repository itself and may well pass
+// on a later attempt
+export function isTransientError(error: unknown) {
+  return (
+    error instanceof RateLimitedError ||
+    error instanceof SecondaryRateLimitError ||
+    error instanceof ServerError ||
+    error instanceof NetworkError
+  );
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function delay(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    // The signal outlives the analysis's many waits, so each one removes
+    // its listener again
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Wraps fetch so transient failures are retried: network errors and 5xx
+// responses with exponential backoff, and short secondary rate limits after
+// the wait the host asks for. The last response is returned as is once the
+// retries run out; network failures then throw a NetworkError.
+export function createResilientFetch(fetchImpl: FetchFn = fetch): FetchFn {
+  return async (input, init) => {
+    for (let attempt = 0; ; attempt++) {
+      const backoff = BASE_DELAY_MS * 2 ** attempt;
+      let response: Response;
+      try {
+        response = await fetchImpl(input, init);
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        if (attempt >= MAX_RETRIES) throw new NetworkError(e);
+        await delay(backoff, init?.signal);
+        continue;
+      }
+
+      if (attempt >= MAX_RETRIES) return response;
+      if (response.status >= 500) {
+        await delay(backoff, init?.signal);
+        continue;
+      }
+      if (isSecondaryRateLimit(response)) {
+        const wait = retryAfterSeconds(response) ?? 0;
+        if (wait > MAX_RETRY_AFTER_SECONDS) return response;
+        await delay(Math.max(wait * 1000, backoff), init?.signal);
+        continue;
+      }
+      return response;
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { detectWorkspaces } from "./monorepo";
+import type { RepositoryProvider } from "./providers";
+import { RateLimitedError } from "./http";
+import type { FileTree } from "../types";
+
+const ref = { host: "git.example.com", owner: "acme", repo: "platform" };
+
+const tree: FileTree = {
+  entries: [
+    { path: "package.json", type: "blob" },
+    { path: "pnpm-workspace.yaml", type: "blob" },
+    { path: "apps/web/package.json", type: "blob" },
+    { path: "packages/ui/package.json", type: "blob" },
+  ],
+  truncated: false,
+};
+
+const files: Record<string, string> = {
+  "package.json": JSON.stringify({ workspaces: ["apps/*"] }),
+};
+
+// Serves the files above; pnpm-workspace.yaml is rate limited
+const provider: Pick<RepositoryProvider, "fetchFile"> = {
+  fetchFile: async (_ref, path) => {
+    if (path === "pnpm-workspace.yaml") {
+      throw new RateLimitedError(403, null);
+    }
+    return files[path] ?? null;
+  },
+};
+
+describe("detectWorkspaces", () => {
+  it("reports manifests that could not be downloaded", async () => {
+    expect(await detectWorkspaces(provider, ref, tree, "main")).toEqual({
+      packages: [{ path: "apps/web", tool: "npm" }],
+      unavailable: ["pnpm-workspace.yaml"],
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { parse as parseYaml } from "yaml";
+import { parse as parseToml } from "smol-toml";
+import type {
+  CommitData,
+  FileTree,
+  RepositoryData,
+  WorkspacePackage,
+  WorkspaceTool,
+} from "../types";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import {
+  getFileName,
+  listFiles,
+  scopeTree,
+  summarizeLanguages,
+} from "./fileTree";
+import { isLockfile } from "./dependencies";
+import { findReadme } from "./history";
+import { trackSource } from "./progress";
+
+// Upper bound on workspace packages found before the listing is cut short
+const MAX_WORKSPACE_PACKAGES = 50;
+
+function parentDirectory(path: string) {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+// URLs such as /tree/main/packages/foo do not say where the branch name
+// ends, since branch names may contain slashes. Git forbids a branch named
+// "a" alongside "a/b", so the shortest prefix naming an existing revision
+// is the only one.
+export async function resolveRevisionPath(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  revisionPath: string,
+): Promise<{ revision: string; path: string | null }> {
+  const exists = async (revision: string) => {
+    if (provider.revisionExists) {
+      return provider.revisionExists(ref, revision);
+    }
+    const history = await provider.fetchCommitData(ref, {
+      revision,
+      maxCommits: 1,
+    });
+    return history.commits.length > 0;
+  };
+
+  const segments = revisionPath.split("/");
+  for (let end = 1; end < segments.length; end++) {
+    const revision = segments.slice(0, end).join("/");
+    if (await exists(revision)) {
+      return { revision, path: segments.slice(end).join("/") };
+    }
+  }
+  return { revision: revisionPath, path: null };
+}
+
+// Reads files relative to a directory of the repository, so tree-based
+// analysis can run on a subdirectory unchanged
+export function scopeProvider(
+  provider: RepositoryProvider,
+  directory: string,
+): RepositoryProvider {
+  return {
+    ...provider,
+    fetchFile: (ref, path, branch) =>
+      provider.fetchFile(ref, `${directory}/${path}`, branch),
+    fetchTree: async (ref, revision) => {
+      const tree = await provider.fetchTree(ref, revision);
+      return tree && scopeTree(tree, directory);
+    },
+  };
+}
+
+// Lockfiles in the directory's ancestors, e.g. a pnpm-lock.yaml at the root
+// of the monorepo
+export function ancestorLockfiles(tree: FileTree, directory: string) {
+  return listFiles(tree).filter((path) => {
+    const parent = parentDirectory(path);
+    return (
+      isLockfile(path) &&
+      (parent === "" || directory.startsWith(`${parent}/`))
+    );
+  });
+}
+
+// Narrows repository data to a subdirectory: its files, README, language
+// breakdown and the history of commits touching it. Repository-wide
+// counters such as stars keep their values.
+export async function scopeRepository(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  root: RepositoryData,
+  commitData: CommitData,
+  directory: string,
+  revision: string,
+): Promise<RepositoryData> {
+  const tree = root.tree ? scopeTree(root.tree, directory) : null;
+  if (tree && tree.entries.length === 0) {
+    throw new Error(`Directory not found in the repository: ${directory}`);
+  }
+
+  const readmePath = tree ? findReadme(tree) : undefined;
+  const readme = readmePath
+    ? await trackSource("readme", "README", null, () =>
+        provider.fetchFile(ref, `${directory}/${readmePath}`, revision),
+      )
+    : null;
+
+  const languages = tree ? summarizeLanguages(tree) : {};
+  const language =
+    Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  const sizes = tree?.entries.map((entry) => entry.size ?? 0) ?? [];
+  const lastActivity = commitData.commits[0]?.commit.author.date;
+
+  return {
+    ...root,
+    name: `${root.name}/${directory}`,
+    language,
+    languages,
+    size: sizes.some((size) => size > 0)
+      ? Math.round(sizes.reduce((sum, size) => sum + size, 0) / 1024)
+      : root.size,
+    updated_at: lastActivity ?? root.updated_at,
+    pushed_at: lastActivity ?? root.pushed_at,
+    readme,
+    tree,
+  };
+}
+
+// Converts a workspace glob such as "packages/*" or "crates/**" into a
+// regular expression over directory paths
+function globToRegExp(glob: string) {
+  const pattern = glob
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "")
+    .split("**")
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, "[^/]*")
+        .replace(/\?/g, "[^/]"),
+    )
+    .join(".*");
+  return new RegExp(`^${pattern}$`);
+}
+
+// Directories containing the manifest that match the globs; globs starting
+// with "!" exclude directories
+function matchDirectories(files: string[], manifest: string, globs: string[]) {
+  const include = globs
+    .filter((glob) => !glob.startsWith("!"))
+    .map(globToRegExp);
+  const exclude = globs
+    .filter((glob) => glob.startsWith("!"))
+    .map((glob) => globToRegExp(glob.slice(1)));
+
+  return files
+    .filter((path) => getFileName(path) === manifest)
+    .map(parentDirectory)
+    .filter(
+      (directory) =>
+        directory !== "" &&
+        include.some((pattern) => pattern.test(directory)) &&
+        !exclude.some((pattern) => pattern.test(directory)),
+    );
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+// Reads the "use" directives of a go.work file
+function parseGoWork(content: string) {
+  const uses: string[] = [];
+  const block = content.match(/^use\s*\(([\s\S]*?)\)/m);
+  if (block) {
+    uses.push(...block[1].split("\n").map((line) => line.trim()));
+  }
+  for (const match of content.matchAll(/^use\s+([^\s(]+)/gm)) {
+    uses.push(match[1]);
+  }
+  return uses
+    .map((use) => use.replace(/\/\/.*$/, "").trim())
+    .filter(Boolean)
+    .map((use) => use.replace(/^\.\//, "").replace(/\/+$/, ""))
+    .filter((use) => use !== ".");
+}
+
+export interface DetectedWorkspaces {
+  packages: WorkspacePackage[];
+  // Workspace manifests that could not be downloaded; packages they
+  // declare may be missing
+  unavailable: string[];
+}
+
+// Finds workspace packages declared by npm/Yarn, pnpm, Cargo and Go
+// workspaces. Paths are relative to the tree.
+export async function detectWorkspaces(
+  provider: Pick<RepositoryProvider, "fetchFile">,
+  ref: RepositoryRef,
+  tree: FileTree,
+  revision: string,
+): Promise<DetectedWorkspaces> {
+  const files = listFiles(tree);
+  const has = (path: string) => files.includes(path);
+  const unavailable: string[] = [];
+  const read = async (path: string) => {
+    if (!has(path)) return null;
+    try {
+      return await provider.fetchFile(ref, path, revision);
+    } catch (e) {
+      unavailable.push(path);
+      return null;
+    }
+  };
+
+  const [packageJson, pnpmWorkspace, cargoToml, goWork] = await Promise.all(
+    [
+      read("package.json"),
+      read("pnpm-workspace.yaml"),
+      read("Cargo.toml"),
+      read("go.work"),
+    ],
+  );
+
+  const found = new Map<string, WorkspaceTool>();
+  const add = (directories: string[], tool: WorkspaceTool) => {
+    for (const directory of directories) {
+      if (!found.has(directory)) found.set(directory, tool);
+    }
+  };
+
+  try {
+    const workspaces = packageJson ? JSON.parse(packageJson).workspaces : null;
+    const globs = stringList(
+      Array.isArray(workspaces) ? workspaces : workspaces?.packages,
+    );
+    add(matchDirectories(files, "package.json", globs), "npm");
+  } catch (e) {
+    // Malformed package.json
+  }
+
+  try {
+    const workspace = pnpmWorkspace ? parseYaml(pnpmWorkspace) : null;
+    add(
+      matchDirectories(files, "package.json", stringList(workspace?.packages)),
+      "pnpm",
+    );
+  } catch (e) {
+    // Malformed pnpm-workspace.yaml
+  }
+
+  try {
+    const workspace = cargoToml
+      ? (parseToml(cargoToml).workspace as Record<string, unknown> | undefined)
+      : undefined;
+    const exclusions = stringList(workspace?.exclude).map(
+      (glob) => `!${glob}`,
+    );
+    add(
+      matchDirectories(files, "Cargo.toml", [
+        ...stringList(workspace?.members),
+        ...exclusions,
+      ]),
+      "Cargo",
+    );
+  } catch (e) {
+    // Malformed Cargo.toml
+  }
+
+  // Go modules are listed by go.work, or found as nested go.mod files
+  const goModules = goWork
+    ? parseGoWork(goWork).filter((use) => has(`${use}/go.mod`))
+    : files
+        .filter((path) => getFileName(path) === "go.mod")
+        .map(parentDirectory)
+        .filter((directory) => directory !== "");
+  add(goModules, "Go");
+
+  const packages = [...found]
+    .map(([path, tool]) => ({ path, tool }))
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .slice(0, MAX_WORKSPACE_PACKAGES);
+  return { packages, unavailable };
+}
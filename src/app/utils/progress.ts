@@ -0,0 +1,139 @@
+import type { SourceStatus } from "../types";
+import type { FetchFn } from "./providers/types";
+import { NotFoundError, isTransientError } from "./http";
+
+export type AnalysisStepStatus = "running" | "done" | "failed" | "cancelled";
+
+export interface AnalysisStep {
+  id: string;
+  label: string;
+  status: AnalysisStepStatus;
+  startedAt: Date;
+  // Milliseconds the step took; null while it is running
+  duration: number | null;
+}
+
+export type ProgressListener = (step: AnalysisStep) => void;
+
+interface AnalysisRun {
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+  // Steps currently running; only the outermost one is reported, so work
+  // nested in a step counts towards it
+  depth: number;
+  sources: SourceStatus[];
+}
+
+let activeRun: AnalysisRun | null = null;
+
+// Runs an analysis with the signal and listener that the steps and requests
+// made along the way report to. Analyses are not expected to overlap.
+export async function withAnalysisRun<T>(
+  run: { signal?: AbortSignal; onProgress?: ProgressListener },
+  task: () => Promise<T>,
+): Promise<T> {
+  const previous = activeRun;
+  activeRun = { ...run, depth: 0, sources: [] };
+  try {
+    activeRun.signal?.throwIfAborted();
+    return await task();
+  } finally {
+    activeRun = previous;
+  }
+}
+
+// Times a named step of the analysis and reports it to the listener. A
+// cancelled analysis stops at the next step boundary, even when the step
+// swallowed the failed requests.
+export async function trackStep<T>(
+  id: string,
+  label: string,
+  task: () => Promise<T> | T,
+): Promise<T> {
+  const run = activeRun;
+  if (!run) return task();
+
+  run.signal?.throwIfAborted();
+  const startedAt = new Date();
+  const report = (status: AnalysisStepStatus) => {
+    if (run.depth > 0) return;
+    run.onProgress?.({
+      id,
+      label,
+      status,
+      startedAt,
+      duration: status === "running" ? null : Date.now() - startedAt.getTime(),
+    });
+  };
+
+  report("running");
+  run.depth++;
+  try {
+    const result = await task();
+    run.signal?.throwIfAborted();
+    run.depth--;
+    report("done");
+    return result;
+  } catch (e) {
+    run.depth--;
+    report(run.signal?.aborted ? "cancelled" : "failed");
+    throw e;
+  }
+}
+
+// Fetches one source of repository data as a step. A failure is recorded
+// with the source and the fallback used in its place, so the analysis
+// carries on and can say what was missing. A required source only falls
+// back on transient failures; anything else, such as a 404 for the
+// repository itself, ends the analysis.
+export async function trackSource<T>(
+  id: string,
+  name: string,
+  fallback: T,
+  task: () => Promise<T>,
+  { required = false }: { required?: boolean } = {},
+): Promise<T> {
+  const run = activeRun;
+  const outermost = run?.depth === 0;
+  const record = (status: SourceStatus) => {
+    if (outermost) run.sources.push(status);
+  };
+
+  return trackStep(id, `Fetching ${name}`, async () => {
+    try {
+      const result = await task();
+      record({ id, name, status: "ok", error: null });
+      return result;
+    } catch (e) {
+      if (run?.signal?.aborted || (required && !isTransientError(e))) {
+        throw e;
+      }
+      record({
+        id,
+        name,
+        status: e instanceof NotFoundError ? "missing" : "unavailable",
+        error: e instanceof Error ? e.message : String(e),
+      });
+      return fallback;
+    }
+  });
+}
+
+// Records a source read file by file inside a step, such as the dependency
+// manifests, which trackSource cannot follow request by request
+export function recordSource(status: SourceStatus) {
+  activeRun?.sources.push(status);
+}
+
+// Sources fetched so far by the running analysis
+export function listSources(): SourceStatus[] {
+  return activeRun ? [...activeRun.sources] : [];
+}
+
+// Wraps fetch so requests made during an analysis are aborted with it
+export function createAbortableFetch(fetchImpl: FetchFn = fetch): FetchFn {
+  return (input, init) => {
+    const signal = activeRun?.signal;
+    return fetchImpl(input, signal ? { ...init, signal } : init);
+  };
+}
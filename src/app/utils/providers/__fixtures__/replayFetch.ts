@@ -0,0 +1,27 @@
+import type { FetchFn } from "../types";
+
+export interface RecordedResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  // JSON bodies are recorded as values, file contents as strings
+  body?: unknown;
+}
+
+// Recorded responses keyed by request URL
+export type Recording = Record<string, RecordedResponse>;
+
+// Answers requests from a recording, so providers can be tested without
+// the network. A request that was not recorded fails the test.
+export function replayFetch(recording: Recording): FetchFn {
+  return async (input) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const recorded = recording[url];
+    if (!recorded) throw new Error(`No recorded response for ${url}`);
+
+    const { status = 200, headers = {}, body = null } = recorded;
+    return new Response(
+      typeof body === "string" ? body : JSON.stringify(body),
+      { status, headers },
+    );
+  };
+}
@@ -0,0 +1,142 @@
+import type {
+  RepositoryData,
+  CommitData,
+  FileTree,
+  FileTreeEntry,
+} from "../../types";
+import type {
+  FetchCommitOptions,
+  RepositoryProvider,
+  RepositoryRef,
+} from "./types";
+import {
+  DEFAULT_MAX_COMMITS,
+  EMPTY_COMMIT_DATA,
+  detectLicense,
+  findLicenseFile,
+} from "./shared";
+import type { RepositoryArchive } from "../archive";
+import { findGitDirectory, openGitRepository } from "../gitObjects";
+import { getFileName, summarizeLanguages } from "../fileTree";
+import { findReadme } from "../history";
+
+// Lists the files of a working copy, leaving out the .git directory like
+// the hosts do
+function workingTree(files: Map<string, Uint8Array>): FileTree {
+  const paths = [...files.keys()].filter(
+    (path) => path !== ".git" && !path.startsWith(".git/"),
+  );
+  const directories = new Set<string>();
+  for (const path of paths) {
+    const segments = path.split("/");
+    for (let end = 1; end < segments.length; end++) {
+      directories.add(segments.slice(0, end).join("/"));
+    }
+  }
+  return {
+    entries: [
+      ...[...directories].map(
+        (path): FileTreeEntry => ({ path, type: "tree" }),
+      ),
+      ...paths.map(
+        (path): FileTreeEntry => ({
+          path,
+          type: "blob",
+          size: files.get(path)?.length,
+        }),
+      ),
+    ].sort((a, b) => a.path.localeCompare(b.path)),
+    truncated: false,
+  };
+}
+
+// Serves an uploaded archive through the provider interface so the file
+// based checks run unchanged. Archives carry no hosting metadata such as
+// stars or issues. History is read from the .git directory when the
+// archive includes one; a bare repository has no working copy, so its files
+// are read from the commits as well.
+export function createArchiveProvider(
+  archive: RepositoryArchive,
+): RepositoryProvider {
+  const decoder = new TextDecoder();
+  const gitDir = findGitDirectory(archive.files);
+  const git = gitDir !== null ? openGitRepository(archive.files, gitDir) : null;
+  const bare = gitDir === "";
+  const worktree = bare ? null : workingTree(archive.files);
+
+  function readTree(revision: string) {
+    return worktree ?? git?.readTree(revision) ?? null;
+  }
+
+  function readFile(path: string, revision: string) {
+    const bytes = worktree
+      ? archive.files.get(path)
+      : git?.readFile(revision, path);
+    return bytes ? decoder.decode(bytes) : null;
+  }
+
+  async function fetchCommitData(
+    _ref: RepositoryRef,
+    options: FetchCommitOptions = {},
+  ): Promise<CommitData> {
+    return git
+      ? git.log({
+          ...options,
+          maxCommits: options.maxCommits ?? DEFAULT_MAX_COMMITS,
+        })
+      : EMPTY_COMMIT_DATA;
+  }
+
+  async function fetchRepositoryData(): Promise<RepositoryData> {
+    const tree = readTree("");
+    const files = tree?.entries.filter((entry) => entry.type === "blob") ?? [];
+    const readmePath = tree ? findReadme(tree) : undefined;
+    const licensePath = tree ? findLicenseFile(tree) : undefined;
+    const languages = tree ? summarizeLanguages(tree) : {};
+    const size = files.reduce((sum, entry) => sum + (entry.size ?? 0), 0);
+
+    // Without history the archive's own date is all there is
+    const history = git?.log() ?? EMPTY_COMMIT_DATA;
+    const newest = history.commits[0]?.commit.author.date;
+    const oldest =
+      history.commits[history.commits.length - 1]?.commit.author.date;
+
+    return {
+      name: archive.name,
+      description: null,
+      language:
+        Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] ??
+        null,
+      languages,
+      stars: 0,
+      forks: 0,
+      open_issues: 0,
+      size: Math.round(size / 1024),
+      created_at: oldest ?? archive.modifiedAt,
+      updated_at: newest ?? archive.modifiedAt,
+      pushed_at: newest ?? archive.modifiedAt,
+      has_wiki: false,
+      has_issues: false,
+      has_projects: false,
+      license: licensePath
+        ? {
+            name: detectLicense(readFile(licensePath, "") ?? ""),
+            url: getFileName(licensePath),
+          }
+        : null,
+      readme: readmePath ? readFile(readmePath, "") : null,
+      default_branch: git?.headBranch ?? "",
+      tree,
+    };
+  }
+
+  return {
+    id: "archive",
+    name: "Uploaded archive",
+    parsePath: () => null,
+    fetchRepositoryData,
+    fetchCommitData,
+    fetchTree: async (_ref, revision) => readTree(revision),
+    fetchFile: async (_ref, path, revision) => readFile(path, revision),
+  };
+}
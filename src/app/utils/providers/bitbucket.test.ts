@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createBitbucketProvider } from "./bitbucket";
+import { replayFetch } from "./__fixtures__/replayFetch";
+import recording from "./__fixtures__/bitbucket.json";
+
+const ref = { host: "bitbucket.org", owner: "acme", repo: "ledger" };
+
+describe("Bitbucket provider", () => {
+  const provider = createBitbucketProvider(replayFetch(recording));
+
+  it("reads the issue count and license the repository leaves out", async () => {
+    const data = await provider.fetchRepositoryData(ref);
+
+    expect(data).toMatchObject({
+      name: "ledger",
+      forks: 2,
+      open_issues: 3,
+      license: {
+        name: "MIT License",
+        url: "https://bitbucket.org/acme/ledger/src/main/LICENSE",
+      },
+      readme: "# Ledger\n",
+    });
+    // Bitbucket has no stars
+    expect(data.missing).toEqual(["stars"]);
+  });
+
+  it("reports the license as missing without the file tree", async () => {
+    const data = await provider.fetchRepositoryData(ref, { files: false });
+    expect(data.license).toBeNull();
+    expect(data.missing).toEqual(["stars", "license"]);
+  });
+
+  it("reports the issue count as missing when it could not be read", async () => {
+    const data = await provider.fetchRepositoryData(
+      { ...ref, repo: "drafts" },
+      { files: false },
+    );
+    expect(data.missing).toEqual(["stars", "open_issues", "license"]);
+  });
+});
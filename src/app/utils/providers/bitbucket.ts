@@ -0,0 +1,269 @@
+import type {
+  RepositoryData,
+  CommitData,
+  FileTree,
+  HostingMetadata,
+} from "../../types";
+import type {
+  FetchCommitOptions,
+  FetchFn,
+  FetchRepositoryOptions,
+  RepositoryProvider,
+  RepositoryRef,
+} from "./types";
+import {
+  DEFAULT_MAX_COMMITS,
+  EMPTY_COMMIT_DATA,
+  MAX_TREE_ENTRIES,
+  detectLicense,
+  encodePath,
+  ensureRepositoryResponse,
+  fetchPages,
+  findLicenseFile,
+  isMissingHistory,
+  readText,
+  splitOwnerAndRepo,
+  unknownRepository,
+} from "./shared";
+import { ensureOk } from "../http";
+import { trackSource } from "../progress";
+
+const API_BASE = "https://api.bitbucket.org/2.0";
+const WEB_BASE = "https://bitbucket.org";
+
+// Issues Bitbucket counts as open
+const OPEN_ISSUES_QUERY = encodeURIComponent('state="new" OR state="open"');
+
+// Repository URL routes that name a revision, e.g. /owner/repo/src/main
+const REVISION_ROUTES = [["src"], ["commits"], ["branch"]];
+
+export function createBitbucketProvider(
+  fetchImpl: FetchFn = fetch,
+): RepositoryProvider {
+  const repoUrl = ({ owner, repo }: RepositoryRef) =>
+    `${API_BASE}/repositories/${owner}/${repo}`;
+
+  async function fetchRepositoryData(
+    ref: RepositoryRef,
+    { files = true }: FetchRepositoryOptions = {},
+  ): Promise<RepositoryData> {
+    const data = await trackSource(
+      "metadata",
+      "repository metadata",
+      null,
+      async () => {
+        const response = await fetchImpl(repoUrl(ref));
+        ensureRepositoryResponse(response);
+        return response.json();
+      },
+      { required: true },
+    );
+    const defaultBranch: string = data?.mainbranch?.name ?? "main";
+
+    // Fetch README
+    const readme = files
+      ? await trackSource("readme", "README", null, async () => {
+          const readmeResponse = await fetchImpl(
+            `${repoUrl(ref)}/src/${encodeURIComponent(defaultBranch)}/README.md`,
+          );
+          ensureOk(readmeResponse);
+          return readmeResponse.text();
+        })
+      : null;
+
+    // Fetch fork count (Bitbucket does not include it in the repository)
+    const forks = await trackSource("forks", "forks", 0, async () => {
+      const forksResponse = await fetchImpl(
+        `${repoUrl(ref)}/forks?pagelen=1`,
+      );
+      ensureOk(forksResponse);
+      return ((await forksResponse.json()).size ?? 0) as number;
+    });
+
+    // Fetch the recursive file tree of the default branch
+    const tree = files
+      ? await trackSource("tree", "file tree", null, () =>
+          readTree(ref, defaultBranch),
+        )
+      : null;
+
+    if (!data) {
+      return {
+        ...unknownRepository(ref, defaultBranch),
+        languages: {},
+        readme,
+        tree,
+      };
+    }
+
+    // Bitbucket has no stars, and its repository carries neither an issue
+    // count nor a license, so those are read separately
+    const openIssues = data.has_issues
+      ? await trackSource("openIssues", "open issues", null, async () => {
+          const issuesResponse = await fetchImpl(
+            `${repoUrl(ref)}/issues?q=${OPEN_ISSUES_QUERY}&pagelen=1`,
+          );
+          ensureOk(issuesResponse);
+          return ((await issuesResponse.json()).size ?? 0) as number;
+        })
+      : 0;
+    const licensePath = tree ? findLicenseFile(tree) : undefined;
+    const licenseText = licensePath
+      ? await trackSource("license", "license", null, () =>
+          fetchFile(ref, licensePath, defaultBranch),
+        )
+      : null;
+    const license =
+      licensePath && licenseText !== null
+        ? {
+            name: detectLicense(licenseText),
+            url: `${WEB_BASE}/${ref.owner}/${ref.repo}/src/${encodeURIComponent(defaultBranch)}/${encodePath(licensePath)}`,
+          }
+        : null;
+
+    const missing: HostingMetadata[] = ["stars"];
+    if (openIssues === null) missing.push("open_issues");
+    // Without the tree, or with an unreadable license file, the license
+    // is unknown rather than absent
+    if (!tree || (licensePath && licenseText === null)) {
+      missing.push("license");
+    }
+
+    // Bitbucket only reports a single language
+    const sizeInKb = Math.round((data.size ?? 0) / 1024);
+
+    return {
+      name: data.name,
+      description: data.description || null,
+      language: data.language || null,
+      languages: data.language ? { [data.language]: sizeInKb } : {},
+      stars: 0,
+      forks,
+      open_issues: openIssues ?? 0,
+      size: sizeInKb,
+      created_at: data.created_on,
+      updated_at: data.updated_on,
+      pushed_at: data.updated_on,
+      has_wiki: Boolean(data.has_wiki),
+      has_issues: Boolean(data.has_issues),
+      has_projects: false,
+      license,
+      readme,
+      default_branch: defaultBranch,
+      tree,
+      missing,
+    };
+  }
+
+  async function readTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree | null> {
+    const treeResult = await fetchPages<any>(
+      fetchImpl,
+      `${repoUrl(ref)}/src/${encodeURIComponent(revision)}/?max_depth=20&pagelen=100`,
+      MAX_TREE_ENTRIES,
+      async (response) => {
+        const { values, next } = await response.json();
+        return { items: values, next };
+      },
+    );
+    if (!treeResult) return null;
+
+    return {
+      entries: treeResult.items.map((entry: any) => ({
+        path: entry.path,
+        type: entry.type === "commit_directory" ? "tree" : "blob",
+        size: entry.size,
+      })),
+      truncated: treeResult.truncated,
+    };
+  }
+
+  async function fetchTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree | null> {
+    try {
+      return await readTree(ref, revision);
+    } catch (e) {
+      // Tree not available
+      return null;
+    }
+  }
+
+  async function fetchCommitData(
+    ref: RepositoryRef,
+    {
+      maxCommits = DEFAULT_MAX_COMMITS,
+      revision,
+      until,
+      path,
+    }: FetchCommitOptions = {},
+  ): Promise<CommitData> {
+    try {
+      // Bitbucket cannot filter commits by date, so later commits are
+      // skipped while paging and count towards the ceiling
+      const cutoff = until ? new Date(until).getTime() : Infinity;
+      const start = revision ? `/${encodeURIComponent(revision)}` : "";
+      const filter = path ? `&path=${encodeURIComponent(path)}` : "";
+      const result = await fetchPages<any>(
+        fetchImpl,
+        `${repoUrl(ref)}/commits${start}?pagelen=100${filter}`,
+        maxCommits,
+        async (response) => {
+          const { values, next } = await response.json();
+          return {
+            items: values.filter(
+              (commit: any) => new Date(commit.date).getTime() <= cutoff,
+            ),
+            next,
+          };
+        },
+      );
+
+      if (!result) {
+        return EMPTY_COMMIT_DATA;
+      }
+
+      // Bitbucket does not report a commit total, so a truncated history
+      // is counted as the number of commits fetched
+      return {
+        total_count: result.items.length,
+        truncated: result.truncated,
+        commits: result.items.map((commit: any) => ({
+          sha: commit.hash,
+          commit: {
+            message: commit.message,
+            author: {
+              name:
+                commit.author.user?.display_name ??
+                String(commit.author.raw).replace(/\s*<.*>$/, ""),
+              date: commit.date,
+            },
+          },
+        })),
+      };
+    } catch (e) {
+      if (isMissingHistory(e)) return EMPTY_COMMIT_DATA;
+      throw e;
+    }
+  }
+
+  function fetchFile(ref: RepositoryRef, path: string, branch: string) {
+    return readText(
+      fetchImpl,
+      `${repoUrl(ref)}/src/${encodeURIComponent(branch)}/${encodePath(path)}`,
+    );
+  }
+
+  return {
+    id: "bitbucket",
+    name: "Bitbucket",
+    parsePath: (segments) => splitOwnerAndRepo(segments, REVISION_ROUTES),
+    fetchRepositoryData,
+    fetchCommitData,
+    fetchTree,
+    fetchFile,
+  };
+}
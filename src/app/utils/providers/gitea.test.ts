@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createGiteaProvider } from "./gitea";
+import { replayFetch } from "./__fixtures__/replayFetch";
+import recording from "./__fixtures__/gitea.json";
+import { ServerError } from "../http";
+
+const ref = { host: "codeberg.org", owner: "forge", repo: "notes" };
+
+describe("Gitea provider", () => {
+  const provider = createGiteaProvider(replayFetch(recording));
+
+  it("parses branch URLs", () => {
+    expect(
+      provider.parsePath(["forge", "notes", "src", "branch", "trunk"]),
+    ).toEqual({ owner: "forge", repo: "notes", revision: "trunk" });
+  });
+
+  it("maps repository metadata onto repository data", async () => {
+    const data = await provider.fetchRepositoryData(ref);
+
+    expect(data).toMatchObject({
+      name: "notes",
+      // Falls back to the largest language when Gitea reports none
+      language: "Rust",
+      stars: 5,
+      license: {
+        name: "GPL-3.0-or-later",
+        url: "https://codeberg.org/forge/notes/src/branch/trunk/LICENSE",
+      },
+      // The first README candidate that exists
+      readme: "notes\n=====\n",
+      default_branch: "trunk",
+    });
+    expect(data.tree?.entries.map((entry) => entry.path)).toEqual([
+      "Cargo.toml",
+      "src",
+      "src/main.rs",
+    ]);
+  });
+
+  it("reads the commit total from X-Total-Count", async () => {
+    const history = await provider.fetchCommitData(ref);
+    expect(history.total_count).toBe(1);
+    expect(history.commits[0]).toEqual({
+      sha: "e5d7a21",
+      commit: {
+        message: "Start notes\n",
+        author: { name: "Kim", date: "2023-11-03T08:00:00Z" },
+      },
+    });
+  });
+
+  it("encodes the owner and repository in API paths", async () => {
+    const draft = { ...ref, repo: "notes#draft" };
+    expect(await provider.fetchFile(draft, "README", "trunk")).toBe(
+      "draft\n",
+    );
+  });
+
+  it("surfaces server errors when reading files", async () => {
+    await expect(
+      provider.fetchFile(ref, "src/main.rs", "trunk"),
+    ).rejects.toBeInstanceOf(ServerError);
+  });
+});
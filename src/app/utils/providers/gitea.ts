@@ -0,0 +1,238 @@
+import type {
+  RepositoryData,
+  CommitData,
+  FileTree,
+} from "../../types";
+import type {
+  FetchCommitOptions,
+  FetchFn,
+  FetchRepositoryOptions,
+  RepositoryProvider,
+  RepositoryRef,
+} from "./types";
+import {
+  DEFAULT_MAX_COMMITS,
+  EMPTY_COMMIT_DATA,
+  MAX_TREE_ENTRIES,
+  apiOrigin,
+  encodePath,
+  ensureRepositoryResponse,
+  fetchPages,
+  isMissingHistory,
+  readText,
+  splitOwnerAndRepo,
+  unknownRepository,
+} from "./shared";
+import { ensureOk } from "../http";
+import { trackSource } from "../progress";
+
+// Gitea has no README endpoint, so the common file names are tried in order
+const README_CANDIDATES = ["README.md", "README", "readme.md", "README.rst"];
+
+// Repository URL routes that name a revision, e.g. /owner/repo/src/tag/v1
+const REVISION_ROUTES = [
+  ["src", "branch"],
+  ["src", "tag"],
+  ["src", "commit"],
+  ["commit"],
+];
+
+export function createGiteaProvider(
+  fetchImpl: FetchFn = fetch,
+): RepositoryProvider {
+  const repoUrl = (ref: RepositoryRef) =>
+    `${apiOrigin(ref)}/api/v1/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}`;
+
+  async function fetchRepositoryData(
+    ref: RepositoryRef,
+    { files = true }: FetchRepositoryOptions = {},
+  ): Promise<RepositoryData> {
+    const data = await trackSource(
+      "metadata",
+      "repository metadata",
+      null,
+      async () => {
+        const response = await fetchImpl(repoUrl(ref));
+        ensureRepositoryResponse(response);
+        return response.json();
+      },
+      { required: true },
+    );
+    // Without metadata the files are read at HEAD, the default branch
+    const defaultBranch: string = data?.default_branch ?? "HEAD";
+
+    // Fetch README
+    const readme = files
+      ? await trackSource("readme", "README", null, async () => {
+          for (const candidate of README_CANDIDATES) {
+            const readmeResponse = await fetchImpl(
+              `${repoUrl(ref)}/raw/${candidate}?ref=${encodeURIComponent(defaultBranch)}`,
+            );
+            if (readmeResponse.status === 404) continue;
+            ensureOk(readmeResponse);
+            return readmeResponse.text();
+          }
+          return null;
+        })
+      : null;
+
+    // Fetch languages
+    const languages = await trackSource(
+      "languages",
+      "languages",
+      {},
+      async (): Promise<Record<string, number>> => {
+        const languagesResponse = await fetchImpl(
+          `${repoUrl(ref)}/languages`,
+        );
+        ensureOk(languagesResponse);
+        return languagesResponse.json();
+      },
+    );
+
+    // Fetch the recursive file tree of the default branch
+    const tree = files
+      ? await trackSource("tree", "file tree", null, () =>
+          readTree(ref, defaultBranch),
+        )
+      : null;
+
+    if (!data) {
+      return {
+        ...unknownRepository(ref, defaultBranch),
+        languages,
+        readme,
+        tree,
+      };
+    }
+
+    const primaryLanguage =
+      data.language ||
+      Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] ||
+      null;
+    const licenseName: string | undefined = data.licenses?.[0];
+
+    return {
+      name: data.name,
+      description: data.description || null,
+      language: primaryLanguage,
+      languages,
+      stars: data.stars_count ?? 0,
+      forks: data.forks_count ?? 0,
+      open_issues: data.open_issues_count ?? 0,
+      size: data.size ?? 0,
+      created_at: data.created_at,
+      updated_at: data.updated_at,
+      pushed_at: data.updated_at,
+      has_wiki: Boolean(data.has_wiki),
+      has_issues: Boolean(data.has_issues),
+      has_projects: Boolean(data.has_projects),
+      license: licenseName
+        ? {
+            name: licenseName,
+            url: `${data.html_url}/src/branch/${data.default_branch}/LICENSE`,
+          }
+        : null,
+      readme,
+      default_branch: data.default_branch,
+      tree,
+    };
+  }
+
+  async function readTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree> {
+    const treeResponse = await fetchImpl(
+      `${repoUrl(ref)}/git/trees/${encodeURIComponent(revision)}?recursive=true&per_page=${MAX_TREE_ENTRIES}`,
+    );
+    ensureOk(treeResponse);
+
+    const treeData = await treeResponse.json();
+    return {
+      entries: (treeData.tree ?? [])
+        .filter((entry: any) => entry.type !== "commit")
+        .map((entry: any) => ({
+          path: entry.path,
+          type: entry.type,
+          size: entry.size,
+        })),
+      truncated: Boolean(treeData.truncated),
+    };
+  }
+
+  async function fetchTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree | null> {
+    try {
+      return await readTree(ref, revision);
+    } catch (e) {
+      // Tree not available
+      return null;
+    }
+  }
+
+  async function fetchCommitData(
+    ref: RepositoryRef,
+    {
+      maxCommits = DEFAULT_MAX_COMMITS,
+      revision,
+      until,
+      path,
+    }: FetchCommitOptions = {},
+  ): Promise<CommitData> {
+    const filter =
+      (revision ? `&sha=${encodeURIComponent(revision)}` : "") +
+      (until ? `&until=${encodeURIComponent(until)}` : "") +
+      (path ? `&path=${encodeURIComponent(path)}` : "");
+    try {
+      const result = await fetchPages<any>(
+        fetchImpl,
+        `${repoUrl(ref)}/commits?limit=100&stat=false${filter}`,
+        maxCommits,
+      );
+
+      if (!result) {
+        return EMPTY_COMMIT_DATA;
+      }
+
+      return {
+        total_count:
+          Number(result.firstResponse.headers.get("X-Total-Count")) ||
+          result.items.length,
+        truncated: result.truncated,
+        commits: result.items.map((commit: any) => ({
+          sha: commit.sha,
+          commit: {
+            message: commit.commit.message,
+            author: {
+              name: commit.commit.author.name,
+              date: commit.commit.author.date,
+            },
+          },
+        })),
+      };
+    } catch (e) {
+      if (isMissingHistory(e)) return EMPTY_COMMIT_DATA;
+      throw e;
+    }
+  }
+
+  function fetchFile(ref: RepositoryRef, path: string, branch: string) {
+    return readText(
+      fetchImpl,
+      `${repoUrl(ref)}/raw/${encodePath(path)}?ref=${encodeURIComponent(branch)}`,
+    );
+  }
+
+  return {
+    id: "gitea",
+    name: "Gitea",
+    parsePath: (segments) => splitOwnerAndRepo(segments, REVISION_ROUTES),
+    fetchRepositoryData,
+    fetchCommitData,
+    fetchTree,
+    fetchFile,
+  };
+}
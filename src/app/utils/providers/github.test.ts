@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { createGitHubProvider } from "./github";
+import { replayFetch } from "./__fixtures__/replayFetch";
+import recording from "./__fixtures__/github.json";
+import { RateLimitedError } from "../http";
+
+const ref = { host: "github.com", owner: "octo", repo: "widget" };
+
+describe("GitHub provider", () => {
+  const provider = createGitHubProvider(replayFetch(recording));
+
+  it("parses repository and revision URLs", () => {
+    expect(provider.parsePath(["octo", "widget.git"])).toEqual({
+      owner: "octo",
+      repo: "widget",
+    });
+    expect(
+      provider.parsePath(["octo", "widget", "tree", "release", "1.x"]),
+    ).toEqual({ owner: "octo", repo: "widget", revision: "release/1.x" });
+    expect(provider.parsePath(["octo", "widget", "issues"])).toBeNull();
+  });
+
+  it("maps repository metadata, README, languages and tree", async () => {
+    const data = await provider.fetchRepositoryData(ref);
+
+    expect(data).toMatchObject({
+      name: "widget",
+      description: "A small widget library",
+      language: "TypeScript",
+      stars: 42,
+      forks: 7,
+      default_branch: "main",
+      license: { name: "MIT License" },
+      readme: "# Widget\n\nA small widget library.\n",
+      languages: { TypeScript: 48210, CSS: 1840 },
+    });
+    // Submodules are not part of the file tree
+    expect(data.tree?.entries.map((entry) => entry.path)).toEqual([
+      "README.md",
+      "package.json",
+      "src",
+      "src/index.ts",
+    ]);
+  });
+
+  it("leaves the files out when asked to", async () => {
+    const data = await provider.fetchRepositoryData(ref, { files: false });
+    expect(data.readme).toBeNull();
+    expect(data.tree).toBeNull();
+  });
+
+  it("follows commit pages", async () => {
+    const history = await provider.fetchCommitData(ref, {
+      revision: "main",
+    });
+    expect(history.total_count).toBe(3);
+    expect(history.truncated).toBe(false);
+    expect(history.commits.map((commit) => commit.sha)).toEqual([
+      "c3d1f0a",
+      "b2e4c91",
+      "a1f9e27",
+    ]);
+  });
+
+  it("counts truncated histories from the last page", async () => {
+    const history = await provider.fetchCommitData(ref, {
+      revision: "main",
+      maxCommits: 2,
+    });
+    expect(history.truncated).toBe(true);
+    expect(history.total_count).toBe(3);
+    expect(history.commits).toHaveLength(2);
+  });
+
+  it("reports missing revisions", async () => {
+    expect(await provider.revisionExists?.(ref, "v9.9.9")).toBe(false);
+  });
+
+  it("tells missing files from files that could not be read", async () => {
+    expect(await provider.fetchFile(ref, "src/index.ts", "main")).toBe(
+      "export const widget = true;\n",
+    );
+    expect(await provider.fetchFile(ref, "CHANGELOG.md", "main")).toBeNull();
+    await expect(
+      provider.fetchFile(ref, "package.json", "main"),
+    ).rejects.toBeInstanceOf(RateLimitedError);
+  });
+
+  it("looks up the workflow runs of a pinned commit", async () => {
+    const health = await provider.fetchCiRunHealth?.(
+      ref,
+      "c3d1f0a9b8e7d6c5b4a3928170f6e5d4c3b2a190",
+    );
+    expect(health).toMatchObject({ runCount: 2, passRate: 0.5 });
+  });
+
+  it("reads files from raw.githubusercontent.com when asked to", async () => {
+    const raw = createGitHubProvider(replayFetch(recording), {
+      useRawFiles: () => true,
+    });
+    expect(await raw.fetchFile(ref, "src/index.ts", "main")).toBe(
+      "export const widget = true;\n",
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import type {
+  RepositoryData,
+  CommitData,
+  CiRunHealth,
+  FileTree,
+} from "../../types";
+import type {
+  FetchCiRunOptions,
+  FetchCommitOptions,
+  FetchFn,
+  FetchRepositoryOptions,
+  RepositoryProvider,
+  RepositoryRef,
+} from "./types";
+import {
+  DEFAULT_MAX_COMMITS,
+  EMPTY_COMMIT_DATA,
+  countFromLastPage,
+  encodePath,
+  ensureRepositoryResponse,
+  fetchPages,
+  isMissingHistory,
+  readText,
+  splitOwnerAndRepo,
+  unknownRepository,
+} from "./shared";
+import { createGitHubGraphqlClient } from "./githubGraphql";
+import { ensureOk } from "../http";
+import { trackSource, trackStep } from "../progress";
+import {
+  findFlakyWorkflows,
+  summarizeCiRuns,
+  type CiRun,
+} from "../ciRuns";
+
+const API_BASE = "https://api.github.com";
+const RAW_BASE = "https://raw.githubusercontent.com";
+
+// Repository URL routes that name a revision, e.g. /owner/repo/tree/main
+const REVISION_ROUTES = [["tree"], ["commit"], ["releases", "tag"]];
+
+// Re-run workflows whose attempts are compared job by job; each costs two
+// extra requests
+const MAX_RERUNS_INSPECTED = 5;
+
+const FULL_SHA = /^[0-9a-f]{40}$/i;
+
+export interface GitHubProviderOptions {
+  // Whether the GraphQL API may be used; it only answers authenticated
+  // requests. REST stays the fallback for anything GraphQL fails to fetch.
+  useGraphql?: () => boolean;
+  // Whether files are read from raw.githubusercontent.com, which does not
+  // count against the API quota but only serves public repositories
+  useRawFiles?: () => boolean;
+}
+
+export function createGitHubProvider(
+  fetchImpl: FetchFn = fetch,
+  {
+    useGraphql = () => false,
+    useRawFiles = () => false,
+  }: GitHubProviderOptions = {},
+): RepositoryProvider {
+  const graphql = createGitHubGraphqlClient(fetchImpl);
+
+  async function fetchRepositoryData(
+    ref: RepositoryRef,
+    { files = true }: FetchRepositoryOptions = {},
+  ): Promise<RepositoryData> {
+    // Metadata, languages and README come in a single query
+    const overview = useGraphql()
+      ? await trackStep("overview", "Fetching repository overview", () =>
+          graphql.fetchRepositoryData(ref).catch(() => null),
+        )
+      : null;
+    if (overview) {
+      const tree = files
+        ? await trackSource("tree", "file tree", null, () =>
+            readTree(ref, overview.default_branch),
+          )
+        : null;
+      return { ...overview, tree };
+    }
+
+    const { owner, repo } = ref;
+    const data = await trackSource(
+      "metadata",
+      "repository metadata",
+      null,
+      async () => {
+        const response = await fetchImpl(
+          `${API_BASE}/repos/${owner}/${repo}`,
+        );
+        ensureRepositoryResponse(response);
+        return response.json();
+      },
+      { required: true },
+    );
+    // Without metadata the files are read at HEAD, the default branch
+    const defaultBranch: string = data?.default_branch ?? "HEAD";
+
+    // Fetch README
+    const readme = files
+      ? await trackSource("readme", "README", null, async () => {
+          const readmeResponse = await fetchImpl(
+            `${API_BASE}/repos/${owner}/${repo}/readme`,
+            {
+              headers: { Accept: "application/vnd.github.raw" },
+            },
+          );
+          ensureOk(readmeResponse);
+          return readmeResponse.text();
+        })
+      : null;
+
+    // Fetch languages
+    const languages = await trackSource(
+      "languages",
+      "languages",
+      {},
+      async (): Promise<Record<string, number>> => {
+        const languagesResponse = await fetchImpl(
+          `${API_BASE}/repos/${owner}/${repo}/languages`,
+        );
+        ensureOk(languagesResponse);
+        return languagesResponse.json();
+      },
+    );
+
+    // Fetch the recursive file tree of the default branch
+    const tree = files
+      ? await trackSource("tree", "file tree", null, () =>
+          readTree(ref, defaultBranch),
+        )
+      : null;
+
+    if (!data) {
+      return {
+        ...unknownRepository(ref, defaultBranch),
+        languages,
+        readme,
+        tree,
+      };
+    }
+
+    return {
+      name: data.name,
+      description: data.description,
+      language: data.language,
+      languages,
+      stars: data.stargazers_count,
+      forks: data.forks_count,
+      open_issues: data.open_issues_count,
+      size: data.size,
+      created_at: data.created_at,
+      updated_at: data.updated_at,
+      pushed_at: data.pushed_at,
+      has_wiki: data.has_wiki,
+      has_issues: data.has_issues,
+      has_projects: data.has_projects,
+      license: data.license
+        ? {
+            name: data.license.name,
+            url: data.license.url,
+          }
+        : null,
+      readme,
+      default_branch: data.default_branch,
+      tree,
+    };
+  }
+
+  async function readTree(
+    { owner, repo }: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree> {
+    const treeResponse = await fetchImpl(
+      `${API_BASE}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(revision)}?recursive=1`,
+    );
+    ensureOk(treeResponse);
+
+    const treeData = await treeResponse.json();
+    return {
+      entries: treeData.tree
+        .filter((entry: any) => entry.type !== "commit")
+        .map((entry: any) => ({
+          path: entry.path,
+          type: entry.type,
+          size: entry.size,
+        })),
+      truncated: Boolean(treeData.truncated),
+    };
+  }
+
+  async function fetchTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree | null> {
+    try {
+      return await readTree(ref, revision);
+    } catch (e) {
+      // Tree not available
+      return null;
+    }
+  }
+
+  async function fetchCommitData(
+    ref: RepositoryRef,
+    options: FetchCommitOptions = {},
+  ): Promise<CommitData> {
+    // GraphQL reports the total with the first page
+    const history = useGraphql()
+      ? await graphql.fetchCommitData(ref, options).catch(() => null)
+      : null;
+    if (history) return history;
+
+    const { owner, repo } = ref;
+    const {
+      maxCommits = DEFAULT_MAX_COMMITS,
+      revision,
+      until,
+      path,
+    } = options;
+    const commitsUrl = `${API_BASE}/repos/${owner}/${repo}/commits`;
+    const filter =
+      (revision ? `&sha=${encodeURIComponent(revision)}` : "") +
+      (until ? `&until=${encodeURIComponent(until)}` : "") +
+      (path ? `&path=${encodeURIComponent(path)}` : "");
+
+    try {
+      const result = await fetchPages<any>(
+        fetchImpl,
+        `${commitsUrl}?per_page=100${filter}`,
+        maxCommits,
+      );
+
+      if (!result) {
+        return EMPTY_COMMIT_DATA;
+      }
+
+      // GitHub has no total in the commits response, so longer histories
+      // are counted with the last-page trick
+      const totalCount = result.truncated
+        ? ((await countFromLastPage(
+            fetchImpl,
+            `${commitsUrl}?per_page=1${filter}`,
+          )) ?? result.items.length)
+        : result.items.length;
+
+      return {
+        total_count: totalCount,
+        truncated: result.truncated,
+        commits: result.items.map((commit: any) => ({
+          sha: commit.sha,
+          commit: {
+            message: commit.commit.message,
+            author: {
+              name: commit.commit.author.name,
+              date: commit.commit.author.date,
+            },
+          },
+        })),
+      };
+    } catch (e) {
+      if (isMissingHistory(e)) return EMPTY_COMMIT_DATA;
+      throw e;
+    }
+  }
+
+  async function revisionExists(
+    { owner, repo }: RepositoryRef,
+    revision: string,
+  ) {
+    // The SHA media type answers with the commit hash alone
+    const response = await fetchImpl(
+      `${API_BASE}/repos/${owner}/${repo}/commits/${encodeURIComponent(revision)}`,
+      { headers: { Accept: "application/vnd.github.sha" } },
+    );
+    try {
+      ensureOk(response);
+      return true;
+    } catch (e) {
+      if (isMissingHistory(e)) return false;
+      throw e;
+    }
+  }
+
+  function fetchFile(
+    { owner, repo }: RepositoryRef,
+    path: string,
+    branch: string,
+  ) {
+    if (useRawFiles()) {
+      return readText(
+        fetchImpl,
+        `${RAW_BASE}/${owner}/${repo}/${encodePath(branch)}/${encodePath(path)}`,
+      );
+    }
+    return readText(
+      fetchImpl,
+      `${API_BASE}/repos/${owner}/${repo}/contents/${encodePath(path)}?ref=${encodeURIComponent(branch)}`,
+      { headers: { Accept: "application/vnd.github.raw" } },
+    );
+  }
+
+  async function fetchRunJobs(
+    { owner, repo }: RepositoryRef,
+    runId: number,
+    attempt?: number,
+  ): Promise<Array<{ name: string; conclusion: string | null }>> {
+    const path = attempt
+      ? `runs/${runId}/attempts/${attempt}/jobs`
+      : `runs/${runId}/jobs`;
+    const response = await fetchImpl(
+      `${API_BASE}/repos/${owner}/${repo}/actions/${path}?per_page=100`,
+    );
+    if (!response.ok) return [];
+    return (await response.json()).jobs;
+  }
+
+  async function fetchCiRunHealth(
+    ref: RepositoryRef,
+    branch: string,
+    { until }: FetchCiRunOptions = {},
+  ): Promise<CiRunHealth | null> {
+    // The branch filter only matches branch names, so an analysis pinned
+    // to a commit asks for the runs of that commit instead
+    const scope = FULL_SHA.test(branch)
+      ? `head_sha=${branch}`
+      : `branch=${encodeURIComponent(branch)}`;
+    const filter = until
+      ? `&created=${encodeURIComponent(`<=${until}`)}`
+      : "";
+    try {
+      const response = await fetchImpl(
+        `${API_BASE}/repos/${ref.owner}/${ref.repo}/actions/runs?${scope}&per_page=100${filter}`,
+      );
+      if (!response.ok) return null;
+
+      const { workflow_runs: workflowRuns } = await response.json();
+      if (!workflowRuns?.length) return null;
+
+      const runs: CiRun[] = workflowRuns.map((run: any) => ({
+        workflow: run.name,
+        sha: run.head_sha,
+        conclusion: run.conclusion,
+        startedAt: run.run_started_at ?? run.created_at,
+        finishedAt: run.updated_at,
+      }));
+
+      // Re-runs keep a single run entry, so jobs that failed on an earlier
+      // attempt and passed on the latest one are found by comparing attempts
+      const flakyJobs = new Set(findFlakyWorkflows(runs));
+      const reruns = workflowRuns
+        .filter(
+          (run: any) =>
+            run.run_attempt > 1 && run.conclusion === "success",
+        )
+        .slice(0, MAX_RERUNS_INSPECTED);
+
+      for (const run of reruns) {
+        const [firstAttempt, latestAttempt] = await Promise.all([
+          fetchRunJobs(ref, run.id, 1),
+          fetchRunJobs(ref, run.id),
+        ]);
+        for (const job of firstAttempt) {
+          const rerun = latestAttempt.find(
+            (latest) => latest.name === job.name,
+          );
+          if (
+            job.conclusion === "failure" &&
+            rerun?.conclusion === "success"
+          ) {
+            flakyJobs.add(`${run.name} / ${job.name}`);
+          }
+        }
+      }
+
+      return summarizeCiRuns(runs, [...flakyJobs]);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  return {
+    id: "github",
+    name: "GitHub",
+    parsePath: (segments) => splitOwnerAndRepo(segments, REVISION_ROUTES),
+    fetchRepositoryData,
+    fetchCommitData,
+    revisionExists,
+    fetchTree,
+    fetchFile,
+    fetchCiRunHealth,
+  };
+}
@@ -0,0 +1,197 @@
+import type { CommitData, RepositoryData } from "../../types";
+import type { FetchCommitOptions, FetchFn, RepositoryRef } from "./types";
+import { DEFAULT_MAX_COMMITS } from "./shared";
+import { ensureOk } from "../http";
+
+const GRAPHQL_URL = "https://api.github.com/graphql";
+
+// Connections return at most 100 nodes per page
+const PAGE_SIZE = 100;
+
+// README names looked up in the root of the default branch, in order. The
+// REST endpoint also finds READMEs in docs/ and .github/.
+const README_NAMES = [
+  "README.md",
+  "README",
+  "README.rst",
+  "README.txt",
+  "README.markdown",
+  "readme.md",
+];
+
+const REPOSITORY_QUERY = `
+query ($owner: String!, $name: String!) {
+  repository(owner: $owner, name: $name) {
+    name
+    description
+    primaryLanguage { name }
+    languages(first: 100) { edges { size node { name } } }
+    stargazerCount
+    forkCount
+    issues(states: OPEN) { totalCount }
+    pullRequests(states: OPEN) { totalCount }
+    diskUsage
+    createdAt
+    updatedAt
+    pushedAt
+    hasWikiEnabled
+    hasIssuesEnabled
+    hasProjectsEnabled
+    licenseInfo { name url }
+    defaultBranchRef { name }
+    ${README_NAMES.map(
+      (name, i) =>
+        `readme${i}: object(expression: "HEAD:${name}") { ... on Blob { text } }`,
+    ).join("\n    ")}
+  }
+}`;
+
+const HISTORY_QUERY = `
+query (
+  $owner: String!
+  $name: String!
+  $expression: String!
+  $first: Int!
+  $after: String
+  $until: GitTimestamp
+  $path: String
+) {
+  repository(owner: $owner, name: $name) {
+    object(expression: $expression) {
+      ... on Commit {
+        history(first: $first, after: $after, until: $until, path: $path) {
+          totalCount
+          pageInfo { hasNextPage endCursor }
+          nodes { oid message author { name date } }
+        }
+      }
+    }
+  }
+}`;
+
+// Client for the GitHub GraphQL API, which answers in one request what the
+// REST API spreads over several and reports the length of a history
+// directly. It requires a token. Every failure throws, including a
+// repository or revision that was not found, so callers can fall back to
+// REST and get its typed errors.
+export function createGitHubGraphqlClient(fetchImpl: FetchFn = fetch) {
+  async function query(
+    document: string,
+    variables: Record<string, unknown>,
+  ): Promise<any> {
+    const response = await fetchImpl(GRAPHQL_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: document, variables }),
+    });
+    ensureOk(response);
+
+    const { data, errors } = await response.json();
+    if (errors?.length) {
+      throw new Error(`GraphQL query failed: ${errors[0].message}`);
+    }
+    return data;
+  }
+
+  // Everything in RepositoryData except the file tree, which GraphQL only
+  // lists one directory at a time
+  async function fetchRepositoryData({
+    owner,
+    repo,
+  }: RepositoryRef): Promise<Omit<RepositoryData, "tree">> {
+    const { repository: data } = await query(REPOSITORY_QUERY, {
+      owner,
+      name: repo,
+    });
+    if (!data?.defaultBranchRef) {
+      throw new Error("Repository has no default branch");
+    }
+
+    const readme = README_NAMES.map((_, i) => data[`readme${i}`]?.text).find(
+      (text) => typeof text === "string",
+    );
+
+    return {
+      name: data.name,
+      description: data.description,
+      language: data.primaryLanguage?.name ?? null,
+      languages: Object.fromEntries(
+        data.languages.edges.map((edge: any) => [edge.node.name, edge.size]),
+      ),
+      stars: data.stargazerCount,
+      forks: data.forkCount,
+      // REST counts open pull requests as issues too
+      open_issues: data.issues.totalCount + data.pullRequests.totalCount,
+      size: data.diskUsage ?? 0,
+      created_at: data.createdAt,
+      updated_at: data.updatedAt,
+      pushed_at: data.pushedAt,
+      has_wiki: data.hasWikiEnabled,
+      has_issues: data.hasIssuesEnabled,
+      has_projects: data.hasProjectsEnabled,
+      license: data.licenseInfo
+        ? {
+            name: data.licenseInfo.name,
+            url: data.licenseInfo.url,
+          }
+        : null,
+      readme: readme ?? null,
+      default_branch: data.defaultBranchRef.name,
+    };
+  }
+
+  async function fetchCommitData(
+    { owner, repo }: RepositoryRef,
+    {
+      maxCommits = DEFAULT_MAX_COMMITS,
+      revision,
+      until,
+      path,
+    }: FetchCommitOptions = {},
+  ): Promise<CommitData> {
+    const commits: CommitData["commits"] = [];
+    let totalCount = 0;
+    let after: string | null = null;
+
+    do {
+      const { repository } = await query(HISTORY_QUERY, {
+        owner,
+        name: repo,
+        expression: revision ?? "HEAD",
+        first: Math.min(PAGE_SIZE, maxCommits - commits.length),
+        after,
+        until,
+        path,
+      });
+      // Missing revisions, empty repositories and annotated tags that are
+      // not peeled to a commit are left to the REST path
+      const history = repository?.object?.history;
+      if (!history) {
+        throw new Error(`No commit history at ${revision ?? "HEAD"}`);
+      }
+
+      totalCount = history.totalCount;
+      for (const node of history.nodes) {
+        commits.push({
+          sha: node.oid,
+          commit: {
+            message: node.message,
+            author: {
+              name: node.author.name,
+              date: node.author.date,
+            },
+          },
+        });
+      }
+      after = history.pageInfo.hasNextPage ? history.pageInfo.endCursor : null;
+    } while (after && commits.length < maxCommits);
+
+    return {
+      total_count: totalCount,
+      truncated: totalCount > commits.length,
+      commits,
+    };
+  }
+
+  return { fetchRepositoryData, fetchCommitData };
+}
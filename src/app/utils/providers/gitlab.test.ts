@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { createGitLabProvider } from "./gitlab";
+import { replayFetch } from "./__fixtures__/replayFetch";
+import recording from "./__fixtures__/gitlab.json";
+import { RateLimitedError } from "../http";
+
+const ref = {
+  host: "gitlab.example.com",
+  owner: "platform/tools",
+  repo: "deployer",
+};
+
+describe("GitLab provider", () => {
+  const provider = createGitLabProvider(replayFetch(recording));
+
+  it("parses projects in nested subgroups", () => {
+    expect(
+      provider.parsePath(["platform", "tools", "deployer", "-", "tree", "v2"]),
+    ).toEqual({ owner: "platform/tools", repo: "deployer", revision: "v2" });
+    expect(
+      provider.parsePath(["platform", "tools", "deployer", "-", "issues"]),
+    ).toEqual({ owner: "platform/tools", repo: "deployer" });
+    expect(provider.parsePath(["deployer"])).toBeNull();
+  });
+
+  it("maps project metadata onto repository data", async () => {
+    const data = await provider.fetchRepositoryData(ref);
+
+    expect(data).toMatchObject({
+      name: "deployer",
+      description: null,
+      // GitLab reports language shares rather than bytes
+      language: "Go",
+      stars: 12,
+      size: 2048,
+      pushed_at: "2024-06-02T15:20:00Z",
+      license: {
+        name: "Apache License 2.0",
+        url: "https://www.apache.org/licenses/LICENSE-2.0",
+      },
+      readme: "# Deployer\n",
+      default_branch: "develop",
+    });
+    expect(data.tree).toEqual({
+      entries: [
+        { path: "docs", type: "tree" },
+        { path: "docs/README.md", type: "blob" },
+        { path: "go.mod", type: "blob" },
+        { path: "main.go", type: "blob" },
+      ],
+      truncated: false,
+    });
+  });
+
+  it("reads commits and their total", async () => {
+    const history = await provider.fetchCommitData(ref, {
+      revision: "develop",
+    });
+    expect(history).toEqual({
+      total_count: 2,
+      truncated: false,
+      commits: [
+        {
+          sha: "9f2c1e4",
+          commit: {
+            message: "Retry failed rollouts\n",
+            author: { name: "Sam", date: "2024-06-02T15:20:00Z" },
+          },
+        },
+        {
+          sha: "71ab3d0",
+          commit: {
+            message: "Initial import\n",
+            author: { name: "Sam", date: "2022-09-14T12:00:00Z" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("treats a missing revision as an empty history", async () => {
+    const history = await provider.fetchCommitData(ref, { revision: "empty" });
+    expect(history.commits).toEqual([]);
+  });
+
+  it("surfaces rate limits when reading files", async () => {
+    expect(await provider.fetchFile(ref, "go.mod", "develop")).toBe(
+      "module example.com/deployer\n",
+    );
+    await expect(
+      provider.fetchFile(ref, "go.sum", "develop"),
+    ).rejects.toBeInstanceOf(RateLimitedError);
+  });
+});
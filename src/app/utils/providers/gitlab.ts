@@ -0,0 +1,279 @@
+import type {
+  RepositoryData,
+  CommitData,
+  FileTree,
+} from "../../types";
+import type {
+  FetchCommitOptions,
+  FetchFn,
+  FetchRepositoryOptions,
+  RepositoryProvider,
+  RepositoryRef,
+} from "./types";
+import {
+  DEFAULT_MAX_COMMITS,
+  EMPTY_COMMIT_DATA,
+  MAX_TREE_ENTRIES,
+  apiOrigin,
+  countFromLastPage,
+  ensureRepositoryResponse,
+  fetchPages,
+  matchRevisionRoute,
+  isMissingHistory,
+  readText,
+  unknownRepository,
+} from "./shared";
+import { ensureOk } from "../http";
+import { trackSource } from "../progress";
+
+// Routes after "/-/" that name a revision, e.g. /group/project/-/tree/main
+const REVISION_ROUTES = [["tree"], ["commit"], ["tags"]];
+
+export function createGitLabProvider(
+  fetchImpl: FetchFn = fetch,
+): RepositoryProvider {
+  // GitLab addresses projects by their URL-encoded full path, which may
+  // include nested subgroups
+  const projectUrl = (ref: RepositoryRef) =>
+    `${apiOrigin(ref)}/api/v4/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}`;
+
+  function parsePath(segments: string[]) {
+    const end = segments.indexOf("-");
+    const path = end === -1 ? segments : segments.slice(0, end);
+    if (path.length < 2) return null;
+
+    // Other routes after "/-/", such as issues, still identify the project
+    const revision =
+      end === -1
+        ? null
+        : matchRevisionRoute(segments.slice(end + 1), REVISION_ROUTES);
+    return {
+      owner: path.slice(0, -1).join("/"),
+      repo: path[path.length - 1].replace(/\.git$/, ""),
+      ...(revision ? { revision } : {}),
+    };
+  }
+
+  async function fetchRepositoryData(
+    ref: RepositoryRef,
+    { files = true }: FetchRepositoryOptions = {},
+  ): Promise<RepositoryData> {
+    const data = await trackSource(
+      "metadata",
+      "repository metadata",
+      null,
+      async () => {
+        const response = await fetchImpl(
+          `${projectUrl(ref)}?license=true&statistics=true`,
+        );
+        ensureRepositoryResponse(response);
+        return response.json();
+      },
+      { required: true },
+    );
+    // Without metadata the files are read at HEAD, the default branch
+    const defaultBranch: string = data?.default_branch ?? "HEAD";
+
+    // Fetch README through the raw file endpoint of the path GitLab reports
+    const readmePath = data?.readme_url
+      ? String(data.readme_url).split(`/-/blob/${defaultBranch}/`)[1]
+      : undefined;
+    const readme = files
+      ? await trackSource("readme", "README", null, async () => {
+          if (!readmePath) return null;
+          const readmeResponse = await fetchImpl(
+            `${projectUrl(ref)}/repository/files/${encodeURIComponent(readmePath)}/raw?ref=${encodeURIComponent(defaultBranch)}`,
+          );
+          ensureOk(readmeResponse);
+          return readmeResponse.text();
+        })
+      : null;
+
+    // Fetch languages (GitLab reports percentages rather than bytes)
+    const languages = await trackSource(
+      "languages",
+      "languages",
+      {},
+      async (): Promise<Record<string, number>> => {
+        const languagesResponse = await fetchImpl(
+          `${projectUrl(ref)}/languages`,
+        );
+        ensureOk(languagesResponse);
+        return languagesResponse.json();
+      },
+    );
+
+    // Fetch the recursive file tree of the default branch
+    const tree = files
+      ? await trackSource("tree", "file tree", null, () =>
+          readTree(ref, defaultBranch),
+        )
+      : null;
+
+    if (!data) {
+      return {
+        ...unknownRepository(ref, defaultBranch),
+        languages,
+        readme,
+        tree,
+      };
+    }
+
+    const primaryLanguage =
+      Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] ??
+      null;
+
+    return {
+      name: data.name,
+      description: data.description || null,
+      language: primaryLanguage,
+      languages,
+      stars: data.star_count ?? 0,
+      forks: data.forks_count ?? 0,
+      open_issues: data.open_issues_count ?? 0,
+      // Statistics are reported in bytes; RepositoryData uses kilobytes
+      size: data.statistics
+        ? Math.round(data.statistics.repository_size / 1024)
+        : 0,
+      created_at: data.created_at,
+      updated_at: data.last_activity_at,
+      pushed_at: data.last_activity_at,
+      has_wiki: Boolean(data.wiki_enabled),
+      has_issues: Boolean(data.issues_enabled),
+      has_projects: false,
+      license: data.license
+        ? {
+            name: data.license.name,
+            url: data.license.source_url || data.license_url,
+          }
+        : null,
+      readme,
+      default_branch: data.default_branch,
+      tree,
+    };
+  }
+
+  async function readTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree | null> {
+    const treeResult = await fetchPages<any>(
+      fetchImpl,
+      `${projectUrl(ref)}/repository/tree?recursive=true&per_page=100&ref=${encodeURIComponent(revision)}`,
+      MAX_TREE_ENTRIES,
+    );
+    if (!treeResult) return null;
+
+    return {
+      entries: treeResult.items
+        .filter((entry: any) => entry.type !== "commit")
+        .map((entry: any) => ({
+          path: entry.path,
+          type: entry.type,
+        })),
+      truncated: treeResult.truncated,
+    };
+  }
+
+  async function fetchTree(
+    ref: RepositoryRef,
+    revision: string,
+  ): Promise<FileTree | null> {
+    try {
+      return await readTree(ref, revision);
+    } catch (e) {
+      // Tree not available
+      return null;
+    }
+  }
+
+  async function fetchCommitData(
+    ref: RepositoryRef,
+    {
+      maxCommits = DEFAULT_MAX_COMMITS,
+      revision,
+      until,
+      path,
+    }: FetchCommitOptions = {},
+  ): Promise<CommitData> {
+    const commitsUrl = `${projectUrl(ref)}/repository/commits`;
+    const filter =
+      (revision ? `&ref_name=${encodeURIComponent(revision)}` : "") +
+      (until ? `&until=${encodeURIComponent(until)}` : "") +
+      (path ? `&path=${encodeURIComponent(path)}` : "");
+
+    try {
+      const result = await fetchPages<any>(
+        fetchImpl,
+        `${commitsUrl}?per_page=100${filter}`,
+        maxCommits,
+      );
+
+      if (!result) {
+        return EMPTY_COMMIT_DATA;
+      }
+
+      // X-Total is omitted for very large histories, in which case the
+      // last-page trick is used instead
+      let totalCount = result.items.length;
+      if (result.truncated) {
+        totalCount =
+          Number(result.firstResponse.headers.get("X-Total")) ||
+          ((await countFromLastPage(
+            fetchImpl,
+            `${commitsUrl}?per_page=1${filter}`,
+          )) ??
+            totalCount);
+      }
+
+      return {
+        total_count: totalCount,
+        truncated: result.truncated,
+        commits: result.items.map((commit: any) => ({
+          sha: commit.id,
+          commit: {
+            message: commit.message,
+            author: {
+              name: commit.author_name,
+              date: commit.authored_date,
+            },
+          },
+        })),
+      };
+    } catch (e) {
+      if (isMissingHistory(e)) return EMPTY_COMMIT_DATA;
+      throw e;
+    }
+  }
+
+  async function revisionExists(ref: RepositoryRef, revision: string) {
+    const response = await fetchImpl(
+      `${projectUrl(ref)}/repository/commits/${encodeURIComponent(revision)}`,
+    );
+    try {
+      ensureOk(response);
+      return true;
+    } catch (e) {
+      if (isMissingHistory(e)) return false;
+      throw e;
+    }
+  }
+
+  function fetchFile(ref: RepositoryRef, path: string, branch: string) {
+    return readText(
+      fetchImpl,
+      `${projectUrl(ref)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(branch)}`,
+    );
+  }
+
+  return {
+    id: "gitlab",
+    name: "GitLab",
+    parsePath,
+    fetchRepositoryData,
+    fetchCommitData,
+    revisionExists,
+    fetchTree,
+    fetchFile,
+  };
+}
@@ -0,0 +1,118 @@
+import type { RepositoryProvider, RepositoryRef } from "./types";
+import { createGitHubProvider } from "./github";
+import { createGitLabProvider } from "./gitlab";
+import { createGiteaProvider } from "./gitea";
+import { createBitbucketProvider } from "./bitbucket";
+import { getGitHubToken, githubFetch } from "../githubAuth";
+import { createCachedFetch } from "../responseCache";
+import { createAbortableFetch } from "../progress";
+import { createResilientFetch } from "../http";
+import type { FetchFn } from "./types";
+
+export type {
+  RepositoryPath,
+  RepositoryProvider,
+  RepositoryRef,
+} from "./types";
+export { createGitHubProvider } from "./github";
+export { createGitLabProvider } from "./gitlab";
+export { createGiteaProvider } from "./gitea";
+export { createBitbucketProvider } from "./bitbucket";
+export { createArchiveProvider } from "./archive";
+
+// Responses are cached in the browser, so analyzing a repository again
+// mostly costs revalidation requests. Requests still on the network are
+// aborted when the analysis is cancelled, and transient failures are retried.
+// credential names the token fetchImpl adds, which the cache keeps entries
+// apart by.
+function hostFetch(
+  fetchImpl: FetchFn = fetch,
+  credential?: () => string | null,
+) {
+  return createCachedFetch(
+    createAbortableFetch(createResilientFetch(fetchImpl)),
+    credential,
+  );
+}
+
+const providers: Record<string, RepositoryProvider> = {
+  // Without a token only public repositories can be read, and the 60
+  // requests an hour would not last the files a single analysis samples
+  github: createGitHubProvider(hostFetch(githubFetch, getGitHubToken), {
+    useGraphql: () => getGitHubToken() !== null,
+    useRawFiles: () => getGitHubToken() === null,
+  }),
+  gitlab: createGitLabProvider(hostFetch()),
+  gitea: createGiteaProvider(hostFetch()),
+  bitbucket: createBitbucketProvider(hostFetch()),
+};
+
+// Hosts are matched exactly first; self-hosted instances can be registered
+// explicitly or fall back to a guess based on the host name
+const providersByHost = new Map<string, string>([
+  ["github.com", "github"],
+  ["gitlab.com", "gitlab"],
+  ["bitbucket.org", "bitbucket"],
+  ["codeberg.org", "gitea"],
+  ["gitea.com", "gitea"],
+]);
+
+export function registerProvider(provider: RepositoryProvider) {
+  providers[provider.id] = provider;
+}
+
+export function registerHost(host: string, providerId: string) {
+  if (!providers[providerId]) {
+    throw new Error(`Unknown repository provider: ${providerId}`);
+  }
+  providersByHost.set(host.toLowerCase(), providerId);
+}
+
+export function getProviderForHost(
+  host: string,
+): RepositoryProvider | null {
+  const normalizedHost = host.toLowerCase().replace(/^www\./, "");
+  const providerId =
+    providersByHost.get(normalizedHost) ??
+    (normalizedHost.includes("gitlab")
+      ? "gitlab"
+      : normalizedHost.includes("gitea") ||
+          normalizedHost.includes("forgejo")
+        ? "gitea"
+        : undefined);
+  return providerId ? providers[providerId] : null;
+}
+
+export function parseRepositoryUrl(url: string): {
+  provider: RepositoryProvider;
+  ref: RepositoryRef;
+  revision: string | null;
+} | null {
+  let parsed: URL;
+  let segments: string[];
+  try {
+    parsed = new URL(/^https?:\/\//.test(url) ? url : `https://${url}`);
+    segments = parsed.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+  } catch (e) {
+    return null;
+  }
+
+  const provider = getProviderForHost(parsed.hostname);
+  if (!provider) return null;
+
+  const path = provider.parsePath(segments);
+  if (!path) return null;
+
+  return {
+    provider,
+    ref: {
+      host: parsed.host.toLowerCase().replace(/^www\./, ""),
+      owner: path.owner,
+      repo: path.repo,
+    },
+    revision: path.revision ?? null,
+  };
+}
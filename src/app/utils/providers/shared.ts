@@ -0,0 +1,223 @@
+import type { CommitData, FileTree, RepositoryData } from "../../types";
+import type { FetchFn, RepositoryPath, RepositoryRef } from "./types";
+import { HttpError, NotFoundError, ensureOk } from "../http";
+
+export function ensureRepositoryResponse(response: Response) {
+  if (response.status === 404) {
+    throw new NotFoundError(
+      "Repository not found. Please check the URL and ensure the repository is public or your access token can read it.",
+    );
+  }
+  ensureOk(response);
+}
+
+// Hosts answer 404, 409 or 422 when a revision does not exist or the
+// repository has no commits yet; either way the history is empty
+export function isMissingHistory(error: unknown) {
+  return (
+    error instanceof HttpError && [404, 409, 422].includes(error.status)
+  );
+}
+
+// Matches the path after the repository against routes such as
+// ["tree"] in ".../tree/<ref>". Branch names may contain slashes, so the
+// revision is the rest of the path.
+export function matchRevisionRoute(rest: string[], routes: string[][]) {
+  for (const route of routes) {
+    if (
+      rest.length > route.length &&
+      route.every((segment, index) => rest[index] === segment)
+    ) {
+      return rest.slice(route.length).join("/");
+    }
+  }
+  return null;
+}
+
+export function splitOwnerAndRepo(
+  segments: string[],
+  revisionRoutes: string[][] = [],
+): RepositoryPath | null {
+  const [owner, repo, ...rest] = segments;
+  if (!owner || !repo) return null;
+
+  const path = { owner, repo: repo.replace(/\.git$/, "") };
+  if (rest.length === 0) return path;
+
+  const revision = matchRevisionRoute(rest, revisionRoutes);
+  return revision ? { ...path, revision } : null;
+}
+
+export function encodePath(path: string) {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+export function apiOrigin(ref: RepositoryRef) {
+  return `https://${ref.host}`;
+}
+
+// Reads a file's text, or null if the host has no such file. Every other
+// failure, such as a rate limit or an unreachable host, throws the typed
+// error describing it, so callers can tell a missing file from one that
+// could not be read.
+export async function readText(
+  fetchImpl: FetchFn,
+  url: string,
+  init?: RequestInit,
+): Promise<string | null> {
+  const response = await fetchImpl(url, init);
+  if (response.status === 404) return null;
+  ensureOk(response);
+  return response.text();
+}
+
+export const DEFAULT_MAX_COMMITS = 500;
+
+// Upper bound on file tree entries for hosts that page their tree listing
+export const MAX_TREE_ENTRIES = 10000;
+
+export const EMPTY_COMMIT_DATA: CommitData = {
+  total_count: 0,
+  commits: [],
+  truncated: false,
+};
+
+// Stands in for metadata the host failed to return. The dimensions that rely
+// on it are reported as incomplete and left out of the overall score.
+export function unknownRepository(
+  ref: RepositoryRef,
+  defaultBranch: string,
+): Omit<RepositoryData, "readme" | "languages" | "tree"> {
+  return {
+    name: ref.repo,
+    description: null,
+    language: null,
+    stars: 0,
+    forks: 0,
+    open_issues: 0,
+    size: 0,
+    created_at: "",
+    updated_at: "",
+    pushed_at: "",
+    has_wiki: false,
+    has_issues: false,
+    has_projects: false,
+    license: null,
+    default_branch: defaultBranch,
+  };
+}
+
+// License file names recognized at the project root
+const LICENSE_PATTERN = /^(licen[cs]e|copying)(\.(md|txt|rst))?$/i;
+
+// Opening lines of common license texts, checked in order
+const LICENSE_NAMES: Array<[RegExp, string]> = [
+  [/MIT License|Permission is hereby granted, free of charge/i, "MIT License"],
+  [/Apache License,?\s+Version 2\.0/i, "Apache License 2.0"],
+  [/GNU LESSER GENERAL PUBLIC LICENSE/i, "GNU LGPL"],
+  [/GNU AFFERO GENERAL PUBLIC LICENSE/i, "GNU AGPL"],
+  [/GNU GENERAL PUBLIC LICENSE/i, "GNU GPL"],
+  [/Mozilla Public License,?\s+(Version\s+)?2\.0/i, "Mozilla Public License"],
+  [/Redistribution and use in source and binary forms/i, "BSD License"],
+  [/This is free and unencumbered software/i, "The Unlicense"],
+  [/ISC License/i, "ISC License"],
+];
+
+// For sources that do not name their license, such as archives and
+// Bitbucket, the license is read from the file at the project root
+export function findLicenseFile(tree: FileTree) {
+  return tree.entries.find(
+    (entry) =>
+      entry.type === "blob" &&
+      !entry.path.includes("/") &&
+      LICENSE_PATTERN.test(entry.path),
+  )?.path;
+}
+
+export function detectLicense(text: string) {
+  return (
+    LICENSE_NAMES.find(([pattern]) => pattern.test(text))?.[1] ??
+    "Other license"
+  );
+}
+
+// Parses an RFC 8288 Link header into a map of rel -> URL
+export function parseLinkHeader(header: string | null) {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+export interface Page<T> {
+  items: T[];
+  next?: string;
+}
+
+async function readLinkedPage<T>(response: Response): Promise<Page<T>> {
+  return {
+    items: await response.json(),
+    next: parseLinkHeader(response.headers.get("Link")).next,
+  };
+}
+
+// Follows "next" links until maxItems have been collected. Throws the
+// error of the first page if it could not be fetched; a later failure ends
+// the listing early.
+export async function fetchPages<T>(
+  fetchImpl: FetchFn,
+  url: string,
+  maxItems: number,
+  readPage: (response: Response) => Promise<Page<T>> = readLinkedPage,
+) {
+  const items: T[] = [];
+  let firstResponse: Response | null = null;
+  let nextUrl: string | undefined = url;
+
+  while (nextUrl && items.length < maxItems) {
+    const response = await fetchImpl(nextUrl);
+    if (!response.ok) {
+      if (!firstResponse) ensureOk(response);
+      break;
+    }
+    firstResponse ??= response;
+
+    const page = await readPage(response);
+    items.push(...page.items);
+    nextUrl = page.next;
+  }
+
+  if (!firstResponse) return null;
+
+  return {
+    items: items.slice(0, maxItems),
+    truncated: Boolean(nextUrl) || items.length > maxItems,
+    firstResponse,
+  };
+}
+
+// Counts a collection by requesting one item per page and reading the page
+// number of the "last" link
+export async function countFromLastPage(
+  fetchImpl: FetchFn,
+  url: string,
+): Promise<number | null> {
+  try {
+    const response = await fetchImpl(url);
+    if (!response.ok) return null;
+
+    const last = parseLinkHeader(response.headers.get("Link")).last;
+    if (!last) return (await response.json()).length;
+
+    const page = new URL(last).searchParams.get("page");
+    return page ? Number(page) : null;
+  } catch (e) {
+    return null;
+  }
+}
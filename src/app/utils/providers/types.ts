@@ -0,0 +1,81 @@
+import type {
+  RepositoryData,
+  CommitData,
+  CiRunHealth,
+  FileTree,
+} from "../../types";
+
+export type FetchFn = typeof fetch;
+
+export interface RepositoryRef {
+  host: string;
+  owner: string;
+  repo: string;
+}
+
+export interface RepositoryPath {
+  owner: string;
+  repo: string;
+  // Branch, tag or commit named in the URL, e.g. ".../tree/v1.2.0"
+  revision?: string;
+}
+
+export interface FetchCommitOptions {
+  // Branch, tag or commit to list history from; defaults to the default
+  // branch
+  revision?: string;
+  // Upper bound on the number of commits downloaded; the total count is
+  // still reported when the history is longer
+  maxCommits?: number;
+  // ISO timestamp; only commits made at or before it are returned
+  until?: string;
+  // Directory; only commits touching files below it are returned
+  path?: string;
+}
+
+export interface FetchRepositoryOptions {
+  // Also read the README and file tree of the default branch; analyses
+  // pinned to a revision read them at that commit instead
+  files?: boolean;
+}
+
+export interface FetchCiRunOptions {
+  // ISO timestamp; only runs started at or before it are summarized
+  until?: string;
+}
+
+export interface RepositoryProvider {
+  id: string;
+  name: string;
+  // Splits the URL path into owner, repository and revision, or returns
+  // null if the path does not point at a repository on this provider
+  parsePath(segments: string[]): RepositoryPath | null;
+  fetchRepositoryData(
+    ref: RepositoryRef,
+    options?: FetchRepositoryOptions,
+  ): Promise<RepositoryData>;
+  fetchCommitData(
+    ref: RepositoryRef,
+    options?: FetchCommitOptions,
+  ): Promise<CommitData>;
+  // Whether a branch, tag or commit exists, looked up with a single small
+  // request; hosts without it are probed by listing one commit instead
+  revisionExists?(ref: RepositoryRef, revision: string): Promise<boolean>;
+  // Returns the recursive file listing at a branch or commit, or null if
+  // the host did not return one
+  fetchTree(ref: RepositoryRef, revision: string): Promise<FileTree | null>;
+  // Returns the raw text of a file at the given branch, or null if there is
+  // no such file; throws when the file cannot be read
+  fetchFile(
+    ref: RepositoryRef,
+    path: string,
+    branch: string,
+  ): Promise<string | null>;
+  // Summarizes recent CI runs on the branch; only implemented by hosts with
+  // a runs API
+  fetchCiRunHealth?(
+    ref: RepositoryRef,
+    branch: string,
+    options?: FetchCiRunOptions,
+  ): Promise<CiRunHealth | null>;
+}
@@ -0,0 +1,207 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import { toString } from "mdast-util-to-string";
+import type { Nodes } from "mdast";
+import { ENGLISH, detectLanguage } from "./readmeLanguages";
+
+export type ReadmeSection = "installation" | "usage" | "contributing" | "license";
+
+export interface ReadmeHeading {
+  depth: number;
+  text: string;
+  line: number;
+}
+
+export interface ReadmeImage {
+  url: string;
+  alt: string;
+  line: number;
+  // Status badge rather than a screenshot or diagram
+  badge: boolean;
+}
+
+// Link target written in the README, other than an image
+export interface ReadmeLink {
+  url: string;
+  line: number;
+}
+
+export interface ReadmeCodeBlock {
+  lang: string | null;
+  line: number;
+}
+
+export interface ReadmeOutline {
+  // Language the README is written in, as an ISO 639-1 code
+  language: string;
+  headings: ReadmeHeading[];
+  // First heading introducing each dedicated section, if there is one
+  sections: Record<ReadmeSection, ReadmeHeading | null>;
+  // Headings more than one level deeper than the heading before them
+  skippedLevels: ReadmeHeading[];
+  // Fenced code blocks only; indented blocks cannot carry a language
+  codeBlocks: ReadmeCodeBlock[];
+  tables: number;
+  images: ReadmeImage[];
+  // Inline links, link reference definitions and HTML anchors
+  links: ReadmeLink[];
+  // Fragment targets declared in HTML, e.g. <a name="setup">
+  anchors: string[];
+  tableOfContents: boolean;
+}
+
+// Badge services, and badge endpoints such as GitHub Actions' badge.svg
+const BADGE_URL = /shields\.io|badgen\.net|badge\.fury\.io|\/badges?\b|badge\.svg/i;
+
+// Links in a list that make it a table of contents
+const MIN_TABLE_OF_CONTENTS_LINKS = 3;
+
+const HTML_IMAGE = /<img\b[^>]*>/gi;
+const HTML_LINK = /<a\b[^>]*>/gi;
+const HTML_ANCHOR = /<[a-z][a-z\d]*\b[^>]*\b(?:id|name)\s*=\s*(["'])(.*?)\1/gi;
+const HTML_HEADING = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+function walk(node: Nodes, visit: (node: Nodes) => void) {
+  visit(node);
+  if ("children" in node) {
+    for (const child of node.children) walk(child, visit);
+  }
+}
+
+function htmlAttribute(tag: string, name: string) {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`, "i").exec(
+    tag,
+  );
+  return match ? match[2] : null;
+}
+
+// Line of a match inside a node that starts at the given line
+function lineAt(text: string, index: number, firstLine: number) {
+  return firstLine + (text.slice(0, index).match(/\n/g)?.length ?? 0);
+}
+
+function isTableOfContents(list: Nodes) {
+  const targets: string[] = [];
+  walk(list, (node) => {
+    if (node.type === "link") targets.push(node.url);
+  });
+  return (
+    targets.length >= MIN_TABLE_OF_CONTENTS_LINKS &&
+    targets.every((url) => url.startsWith("#"))
+  );
+}
+
+// Parses a README as GitHub-flavored Markdown and lists the structure the
+// documentation rules score. HTML blocks are searched for images, links and
+// headings, which READMEs often use for centered logos and titles.
+export function outlineReadme(markdown: string): ReadmeOutline {
+  const headings: ReadmeHeading[] = [];
+  const codeBlocks: ReadmeCodeBlock[] = [];
+  const images: ReadmeImage[] = [];
+  const links: ReadmeLink[] = [];
+  const anchors: string[] = [];
+  let tables = 0;
+  let tableOfContents = false;
+
+  walk(parser.parse(markdown), (node) => {
+    const line = node.position?.start.line ?? 0;
+    switch (node.type) {
+      case "heading":
+        headings.push({ depth: node.depth, text: toString(node), line });
+        break;
+      case "code": {
+        const offset = node.position?.start.offset ?? 0;
+        if (/^ {0,3}(`{3}|~{3})/.test(markdown.slice(offset, offset + 6))) {
+          codeBlocks.push({ lang: node.lang ?? null, line });
+        }
+        break;
+      }
+      case "table":
+        tables++;
+        break;
+      case "image":
+        images.push({
+          url: node.url,
+          alt: node.alt ?? "",
+          line,
+          badge: BADGE_URL.test(node.url),
+        });
+        break;
+      case "link":
+      case "definition":
+        links.push({ url: node.url, line });
+        break;
+      case "list":
+        tableOfContents ||= isTableOfContents(node);
+        break;
+      case "html":
+        for (const match of node.value.matchAll(HTML_IMAGE)) {
+          const url = htmlAttribute(match[0], "src") ?? "";
+          images.push({
+            url,
+            alt: htmlAttribute(match[0], "alt") ?? "",
+            line: lineAt(node.value, match.index, line),
+            badge: BADGE_URL.test(url),
+          });
+        }
+        for (const match of node.value.matchAll(HTML_LINK)) {
+          const url = htmlAttribute(match[0], "href");
+          if (url !== null) {
+            links.push({ url, line: lineAt(node.value, match.index, line) });
+          }
+        }
+        for (const match of node.value.matchAll(HTML_ANCHOR)) {
+          anchors.push(match[2]);
+        }
+        for (const match of node.value.matchAll(HTML_HEADING)) {
+          headings.push({
+            depth: Number(match[1]),
+            text: match[2].replace(/<[^>]*>/g, "").trim(),
+            line: lineAt(node.value, match.index, line),
+          });
+        }
+        break;
+    }
+  });
+
+  headings.sort((a, b) => a.line - b.line);
+  // Headings are matched in the README's language and in English, which
+  // READMEs in other languages often mix in
+  const language = detectLanguage(markdown);
+  const languages = language === ENGLISH ? [ENGLISH] : [language, ENGLISH];
+  const findSection = (section: ReadmeSection) =>
+    headings.find((heading) =>
+      languages.some((candidate) =>
+        candidate.sections[section].test(heading.text.toLowerCase()),
+      ),
+    ) ?? null;
+
+  return {
+    language: language.code,
+    headings,
+    sections: {
+      installation: findSection("installation"),
+      usage: findSection("usage"),
+      contributing: findSection("contributing"),
+      license: findSection("license"),
+    },
+    skippedLevels: headings.filter(
+      (heading, i) => i > 0 && heading.depth > headings[i - 1].depth + 1,
+    ),
+    codeBlocks,
+    tables,
+    images,
+    links,
+    anchors,
+    tableOfContents:
+      tableOfContents ||
+      headings.some((heading) =>
+        languages.some((candidate) =>
+          candidate.tableOfContents.test(heading.text.trim().toLowerCase()),
+        ),
+      ),
+  };
+}
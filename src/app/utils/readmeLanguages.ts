@@ -0,0 +1,229 @@
+import type { ReadmeSection } from "./readme";
+
+export interface ReadmeLanguage {
+  // ISO 639-1 code
+  code: string;
+  name: string;
+  // Letters of the script the language is written in, and the share of all
+  // letters in the README they must reach
+  script?: { pattern: RegExp; minShare: number };
+  // Frequent words that tell Latin-script languages apart
+  stopwords?: string[];
+  // Heading text that introduces each section, matched on lower-cased text
+  sections: Record<ReadmeSection, RegExp>;
+  tableOfContents: RegExp;
+}
+
+export const ENGLISH: ReadmeLanguage = {
+  code: "en",
+  name: "English",
+  stopwords: ["the", "and", "is", "of", "to", "with", "for", "this", "you", "are"],
+  sections: {
+    installation:
+      /\b(install|installation|installing|setup|set up|getting started|quick ?start)\b/,
+    usage: /\b(usage|examples?|how to use|tutorial)\b/,
+    contributing: /\bcontribut/,
+    license: /\blicen[cs]e\b/,
+  },
+  tableOfContents: /^(table of contents|contents|toc)$/,
+};
+
+// Scripted languages are listed first; Japanese before Chinese, since
+// Japanese text also uses Chinese characters
+export const README_LANGUAGES: ReadmeLanguage[] = [
+  {
+    code: "ja",
+    name: "Japanese",
+    script: {
+      pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu,
+      minShare: 0.05,
+    },
+    sections: {
+      installation: /インストール|導入|セットアップ|はじめに|始め方|環境構築/,
+      usage: /使い方|使用方法|使用例|利用方法|例/,
+      contributing: /貢献|コントリビュー/,
+      license: /ライセンス/,
+    },
+    tableOfContents: /^目次$/,
+  },
+  {
+    code: "ko",
+    name: "Korean",
+    script: { pattern: /\p{Script=Hangul}/gu, minShare: 0.15 },
+    sections: {
+      installation: /설치|시작하기|설정/,
+      usage: /사용법|사용 방법|사용 예|사용하기|예제/,
+      contributing: /기여/,
+      license: /라이선스|라이센스/,
+    },
+    tableOfContents: /^목차$/,
+  },
+  {
+    code: "zh",
+    name: "Chinese",
+    script: { pattern: /\p{Script=Han}/gu, minShare: 0.15 },
+    sections: {
+      installation: /安装|安裝|部署|快速开始|快速開始|入门|入門|环境配置|環境配置/,
+      usage: /使用|用法|示例|范例|範例|例子|教程/,
+      contributing: /贡献|貢獻|参与|參與/,
+      license: /许可|許可|协议|協議|授权|授權|版权|版權/,
+    },
+    tableOfContents: /^(目录|目錄)$/,
+  },
+  {
+    code: "ru",
+    name: "Russian",
+    script: { pattern: /\p{Script=Cyrillic}/gu, minShare: 0.15 },
+    sections: {
+      installation: /установк|настройк|начало работы|быстрый старт/,
+      usage: /использовани|пример|применени/,
+      contributing: /вклад|участи|контрибь/,
+      license: /лицензи/,
+    },
+    tableOfContents: /^(содержание|оглавление)$/,
+  },
+  ENGLISH,
+  {
+    code: "es",
+    name: "Spanish",
+    stopwords: ["el", "los", "las", "para", "con", "una", "es", "por", "del", "que", "como", "está", "puede"],
+    sections: {
+      installation:
+        /instalaci[oó]n|instalar|configuraci[oó]n|primeros pasos|comenzando|inicio r[aá]pido/,
+      usage: /\buso\b|ejemplos?|c[oó]mo usar|utilizaci[oó]n/,
+      contributing: /contribu/,
+      license: /licencia/,
+    },
+    tableOfContents: /^([ií]ndice|tabla de contenidos?|contenidos?)$/,
+  },
+  {
+    code: "pt",
+    name: "Portuguese",
+    stopwords: ["os", "para", "com", "uma", "é", "não", "do", "da", "dos", "das", "em", "você", "são"],
+    sections: {
+      installation:
+        /instala[cç][aã]o|instalar|configura[cç][aã]o|primeiros passos|come[cç]ando|in[ií]cio r[aá]pido/,
+      usage: /\buso\b|utiliza[cç][aã]o|exemplos?|como usar/,
+      contributing: /contribu/,
+      license: /licen[cç]a/,
+    },
+    tableOfContents: /^([ií]ndice|sum[aá]rio|conte[uú]dos?)$/,
+  },
+  {
+    code: "fr",
+    name: "French",
+    stopwords: ["le", "les", "des", "et", "est", "pour", "avec", "une", "dans", "vous", "sur", "du", "au"],
+    sections: {
+      installation:
+        /installation|installer|configuration|d[ée]marrage|premiers pas|mise en route/,
+      usage: /utilisation|exemples?|mode d'emploi|comment utiliser/,
+      contributing: /contribu/,
+      license: /licence/,
+    },
+    tableOfContents: /^(table des mati[eè]res|sommaire)$/,
+  },
+  {
+    code: "de",
+    name: "German",
+    stopwords: ["der", "die", "das", "und", "ist", "mit", "für", "nicht", "ein", "eine", "zu", "auf", "sie", "wird"],
+    sections: {
+      installation: /installation|installieren|einrichtung|erste schritte|schnellstart/,
+      usage: /verwendung|benutzung|nutzung|beispiele?|anwendung/,
+      contributing: /mitwirken|beitragen|beitr[aä]ge/,
+      license: /lizenz/,
+    },
+    tableOfContents: /^(inhaltsverzeichnis|inhalt)$/,
+  },
+  {
+    code: "it",
+    name: "Italian",
+    stopwords: ["il", "gli", "di", "che", "è", "per", "con", "una", "della", "sono", "non", "questo", "nel"],
+    sections: {
+      installation: /installazione|installare|configurazione|per iniziare|guida rapida/,
+      usage: /\buso\b|utilizzo|esempi|come usare/,
+      contributing: /contribu/,
+      license: /licenza/,
+    },
+    tableOfContents: /^(indice|sommario)$/,
+  },
+  {
+    code: "tr",
+    name: "Turkish",
+    stopwords: ["ve", "bir", "bu", "için", "ile", "olarak", "çok", "gibi", "daha", "veya", "olan"],
+    sections: {
+      installation: /kurulum|y[üu]kleme|ba[sş]lang[ıi][cç]/,
+      usage: /kullan[ıi]m|[öo]rnek/,
+      contributing: /katk[ıi]/,
+      license: /lisans/,
+    },
+    // "İ" lower-cases to "i" followed by a combining dot
+    tableOfContents: /^i̇?[çc]indekiler$/,
+  },
+  {
+    code: "vi",
+    name: "Vietnamese",
+    stopwords: ["và", "của", "các", "là", "cho", "được", "trong", "có", "này", "một", "để", "với"],
+    sections: {
+      installation: /cài đặt|thiết lập|bắt đầu/,
+      usage: /sử dụng|cách dùng|ví dụ|hướng dẫn/,
+      contributing: /đóng góp/,
+      license: /giấy phép/,
+    },
+    tableOfContents: /^mục lục$/,
+  },
+];
+
+export function getLanguageName(code: string) {
+  return (
+    README_LANGUAGES.find((language) => language.code === code)?.name ?? code
+  );
+}
+
+// Stopword hits a Latin-script language needs to win over English
+const MIN_STOPWORD_HITS = 3;
+
+// Code, links and markup say nothing about the language of the prose
+function proseOf(markdown: string) {
+  return markdown
+    .replace(/(```|~~~)[\s\S]*?\1/g, " ")
+    .replace(/`[^`]*`/g, " ")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/<[^>]*>/g, " ");
+}
+
+// Guesses the language the README is written in: by script for languages
+// with their own, otherwise by the most frequent stopwords. English wins
+// ties and READMEs with too little prose to tell.
+export function detectLanguage(markdown: string): ReadmeLanguage {
+  const prose = proseOf(markdown);
+  const letters = prose.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return ENGLISH;
+
+  for (const language of README_LANGUAGES) {
+    if (!language.script) continue;
+    const count = prose.match(language.script.pattern)?.length ?? 0;
+    if (count / letters >= language.script.minShare) return language;
+  }
+
+  const counts = new Map<string, number>();
+  for (const word of prose.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  const hits = (language: ReadmeLanguage) =>
+    (language.stopwords ?? []).reduce(
+      (sum, word) => sum + (counts.get(word) ?? 0),
+      0,
+    );
+
+  let best = ENGLISH;
+  let bestHits = hits(ENGLISH);
+  for (const language of README_LANGUAGES) {
+    if (!language.stopwords || language === ENGLISH) continue;
+    const languageHits = hits(language);
+    if (languageHits > bestHits && languageHits >= MIN_STOPWORD_HITS) {
+      best = language;
+      bestHits = languageHits;
+    }
+  }
+  return best;
+}
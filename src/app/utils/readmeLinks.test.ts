@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { checkReadmeLinks, createLinkChecker } from "./readmeLinks";
+import type { LinkChecker } from "./readmeLinks";
+import { outlineReadme } from "./readme";
+import type { FetchFn } from "./providers/types";
+import type { FileTree } from "../types";
+
+const README = [
+  "# Widget",
+  "",
+  "## Getting started",
+  "",
+  "- [Setup](#getting-started)",
+  "- [Nowhere](#nowhere)",
+  "- [Guide](docs/guide.md)",
+  "- [Old guide](docs/old.md)",
+  "- [Issues](../../issues)",
+  "- [Site](https://widget.example.com)",
+  "- [Dead](https://dead.example.com)",
+  "- [Blocked](https://blocked.example.com)",
+  "- [Mail](mailto:team@widget.example.com)",
+  "",
+  "![Logo](assets/logo.png)",
+].join("\n");
+
+const tree: FileTree = {
+  entries: [
+    { path: "README.md", type: "blob" },
+    { path: "docs/guide.md", type: "blob" },
+    { path: "assets/logo.png", type: "blob" },
+  ],
+  truncated: false,
+};
+
+// Local stand-in for the network: one dead link and one the checker
+// cannot judge
+const checkLink: LinkChecker = async (url) => {
+  if (url.includes("dead")) return false;
+  if (url.includes("blocked")) return null;
+  return true;
+};
+
+describe("checkReadmeLinks", () => {
+  it("checks anchors, relative paths and external URLs", async () => {
+    const report = await checkReadmeLinks(outlineReadme(README), tree, {
+      checkLink,
+    });
+
+    expect(report.broken).toEqual([
+      {
+        url: "#nowhere",
+        line: 6,
+        image: false,
+        reason: "no heading with this anchor",
+      },
+      {
+        url: "docs/old.md",
+        line: 8,
+        image: false,
+        reason: "file not found in the repository",
+      },
+      {
+        url: "https://dead.example.com",
+        line: 11,
+        image: false,
+        reason: "URL did not resolve",
+      },
+    ]);
+    // Links outside the tree and those the checker could not judge
+    expect(report.unchecked).toBe(2);
+    expect(report.checked).toBe(7);
+  });
+
+  it("leaves external URLs unchecked without a checker", async () => {
+    const report = await checkReadmeLinks(outlineReadme(README), tree);
+    expect(report.unchecked).toBe(4);
+    expect(report.broken.map((link) => link.url)).toEqual([
+      "#nowhere",
+      "docs/old.md",
+    ]);
+  });
+});
+
+describe("createLinkChecker", () => {
+  it("confirms URLs that answer, whatever the opaque status", async () => {
+    const requests: RequestInit[] = [];
+    const fetchImpl: FetchFn = async (_url, init) => {
+      requests.push(init ?? {});
+      return new Response(null, { status: 404 });
+    };
+
+    expect(await createLinkChecker(fetchImpl)("https://a.example")).toBe(
+      true,
+    );
+    expect(requests).toEqual([{ method: "HEAD", mode: "no-cors" }]);
+  });
+
+  it("leaves URLs whose request failed unchecked", async () => {
+    const fetchImpl: FetchFn = async () => {
+      throw new TypeError("Failed to fetch");
+    };
+    expect(await createLinkChecker(fetchImpl)("https://a.example")).toBeNull();
+  });
+
+  it("passes cancellation on", async () => {
+    const fetchImpl: FetchFn = async () => {
+      throw new DOMException("The operation was aborted", "AbortError");
+    };
+    await expect(
+      createLinkChecker(fetchImpl)("https://a.example"),
+    ).rejects.toThrow("aborted");
+  });
+});
@@ -0,0 +1,194 @@
+import type { FileTree } from "../types";
+import type { FetchFn } from "./providers/types";
+import type { ReadmeOutline } from "./readme";
+import { createAbortableFetch } from "./progress";
+
+// Resolves to true when the URL resolves, false when it is known to be
+// broken and null when the checker could not tell
+export type LinkChecker = (url: string) => Promise<boolean | null>;
+
+export interface BrokenLink {
+  url: string;
+  line: number;
+  image: boolean;
+  reason: string;
+}
+
+export interface ReadmeLinkReport {
+  // Links and images confirmed to resolve or found broken
+  checked: number;
+  // External links without a checker, beyond the check limit or that the
+  // checker could not reach, or relative links the tree cannot confirm
+  unchecked: number;
+  broken: BrokenLink[];
+}
+
+export interface CheckReadmeLinksOptions {
+  // Directory the README and tree belong to, relative to the repository
+  // root; links starting with / are resolved from the root
+  directory?: string | null;
+  checkLink?: LinkChecker;
+}
+
+// External URLs checked per README; each is one request
+const MAX_EXTERNAL_CHECKS = 50;
+
+const EXTERNAL_URL = /^(https?:)?\/\//i;
+// mailto:, tel:, data: and similar targets that are not fetched
+const OTHER_SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+// Checks external links with a HEAD request. Cross-origin responses are
+// opaque and carry no status, so an answer only confirms that the host is
+// up. A failed request says nothing about the link either: the browser
+// reports a dead host the same way as one blocked by a content security
+// policy or an ad blocker, so such links are left unchecked.
+export function createLinkChecker(
+  fetchImpl: FetchFn = createAbortableFetch(fetch),
+): LinkChecker {
+  return async (url) => {
+    try {
+      await fetchImpl(url, { method: "HEAD", mode: "no-cors" });
+      return true;
+    } catch (e) {
+      if (e instanceof DOMException && e.name === "AbortError") throw e;
+      return null;
+    }
+  };
+}
+
+// Anchor GitHub generates for a heading: lower-cased, punctuation dropped
+// and spaces turned into hyphens, with -1, -2 appended to repeats
+function headingSlugs(outline: ReadmeOutline) {
+  const slugs = new Set(outline.anchors.map((anchor) => anchor.toLowerCase()));
+  const occurrences = new Map<string, number>();
+  for (const heading of outline.headings) {
+    const slug = heading.text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, "")
+      .replace(/ /g, "-");
+    const count = occurrences.get(slug) ?? 0;
+    occurrences.set(slug, count + 1);
+    slugs.add(count === 0 ? slug : `${slug}-${count}`);
+  }
+  return slugs;
+}
+
+// Every file and directory in the tree, including directories only implied
+// by the paths below them
+function treePaths(tree: FileTree) {
+  const paths = new Set<string>([""]);
+  for (const entry of tree.entries) {
+    const segments = entry.path.split("/");
+    for (let i = 1; i <= segments.length; i++) {
+      paths.add(segments.slice(0, i).join("/"));
+    }
+  }
+  return paths;
+}
+
+function decode(text: string) {
+  try {
+    return decodeURIComponent(text);
+  } catch (e) {
+    return text;
+  }
+}
+
+// Path of a relative link inside the tree, or null when it points outside,
+// e.g. "../../issues", which GitHub resolves to the repository's pages
+function resolvePath(target: string, directory: string | null) {
+  let path = decode(target.split(/[?#]/)[0]);
+  if (path.startsWith("/")) {
+    path = path.slice(1);
+    if (directory) {
+      if (!path.startsWith(`${directory}/`)) return null;
+      path = path.slice(directory.length + 1);
+    }
+  }
+
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+// Confirms that the README's links and images point somewhere: relative
+// targets must exist in the tree at the analyzed revision, anchors must
+// match a heading, and external URLs are left to the checker when one is
+// given.
+export async function checkReadmeLinks(
+  outline: ReadmeOutline,
+  tree: FileTree | null,
+  { directory = null, checkLink }: CheckReadmeLinksOptions = {},
+): Promise<ReadmeLinkReport> {
+  const slugs = headingSlugs(outline);
+  const paths = tree ? treePaths(tree) : null;
+  const targets = [
+    ...outline.links.map((link) => ({ ...link, image: false })),
+    ...outline.images.map(({ url, line }) => ({ url, line, image: true })),
+  ].filter(({ url }) => url.trim() !== "");
+
+  const broken: BrokenLink[] = [];
+  const external = new Map<string, typeof targets>();
+  let checked = 0;
+  let unchecked = 0;
+
+  for (const target of targets) {
+    const url = target.url.trim();
+    if (EXTERNAL_URL.test(url)) {
+      external.set(url, [...(external.get(url) ?? []), target]);
+    } else if (OTHER_SCHEME.test(url)) {
+      continue;
+    } else if (url.startsWith("#")) {
+      checked++;
+      if (!slugs.has(decode(url.slice(1)).toLowerCase())) {
+        broken.push({ ...target, reason: "no heading with this anchor" });
+      }
+    } else {
+      const path = resolvePath(url, directory);
+      if (path === null || !paths || !tree) {
+        unchecked++;
+      } else if (paths.has(path)) {
+        checked++;
+      } else if (tree.truncated) {
+        // The file may be among the entries the host left out
+        unchecked++;
+      } else {
+        checked++;
+        broken.push({ ...target, reason: "file not found in the repository" });
+      }
+    }
+  }
+
+  const urls = [...external.keys()];
+  const toCheck = checkLink ? urls.slice(0, MAX_EXTERNAL_CHECKS) : [];
+  const results = await Promise.all(
+    toCheck.map((url) => (checkLink ? checkLink(url) : true)),
+  );
+  toCheck.forEach((url, i) => {
+    const uses = external.get(url) ?? [];
+    if (results[i] === null) {
+      unchecked += uses.length;
+      return;
+    }
+    checked += uses.length;
+    if (!results[i]) {
+      for (const use of uses) {
+        broken.push({ ...use, reason: "URL did not resolve" });
+      }
+    }
+  });
+  for (const url of urls.slice(toCheck.length)) {
+    unchecked += external.get(url)?.length ?? 0;
+  }
+
+  broken.sort((a, b) => a.line - b.line);
+  return { checked, unchecked, broken };
+}
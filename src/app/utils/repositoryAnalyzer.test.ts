@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { analyzeRepository } from "./repositoryAnalyzer";
+import { registerHost, registerProvider } from "./providers";
+import type { RepositoryProvider } from "./providers";
+import { splitOwnerAndRepo, unknownRepository } from "./providers/shared";
+import { RateLimitedError } from "./http";
+import type { FileTree } from "../types";
+
+const files: Record<string, string> = {
+  "README.md": "# Platform\n",
+  "package.json": JSON.stringify({
+    workspaces: ["packages/*"],
+    dependencies: { lodash: "4.17.20" },
+  }),
+  "packages/api/package.json": JSON.stringify({ name: "api" }),
+  "packages/web/package.json": JSON.stringify({ name: "web" }),
+};
+
+const tree: FileTree = {
+  entries: Object.keys(files).map((path) => ({ path, type: "blob" })),
+  truncated: false,
+};
+
+// A host without stars whose commit history cannot be listed for
+// packages/web
+const provider: RepositoryProvider = {
+  id: "workspace-fixture",
+  name: "Workspace fixture",
+  parsePath: (segments) => splitOwnerAndRepo(segments),
+  fetchRepositoryData: async (ref) => ({
+    ...unknownRepository(ref, "main"),
+    languages: {},
+    readme: files["README.md"],
+    tree,
+    missing: ["stars"],
+  }),
+  fetchCommitData: async (_ref, options = {}) => {
+    if (options.path === "packages/web") {
+      throw new RateLimitedError(403, null);
+    }
+    return { total_count: 0, commits: [], truncated: false };
+  },
+  fetchTree: async () => tree,
+  fetchFile: async (_ref, path) => files[path] ?? null,
+};
+
+registerProvider(provider);
+registerHost("workspaces.example.com", provider.id);
+
+describe("analyzeRepository", () => {
+  it("leaves vulnerabilities unscored with the sample advisories", async () => {
+    const result = await analyzeRepository(
+      "https://workspaces.example.com/acme/platform",
+    );
+
+    expect(result.vulnerabilities?.sample).toBe(true);
+    expect(result.scores.security.notApplicable).toContain("vulnerabilities");
+    expect(
+      result.scores.security.rules.map((rule) => rule.id),
+    ).not.toContain("vulnerabilities");
+  });
+
+  it("leaves metadata the host does not provide unscored", async () => {
+    const result = await analyzeRepository(
+      "https://workspaces.example.com/acme/platform",
+    );
+    const { projectStructure, realWorldRelevance } = result.scores;
+
+    expect(projectStructure.notApplicable).toContain("stars");
+    expect(realWorldRelevance.notApplicable).toContain("stars");
+    expect(realWorldRelevance.notApplicable).not.toContain("license");
+  });
+
+  it("reports workspace packages whose requests failed", async () => {
+    const result = await analyzeRepository(
+      "https://workspaces.example.com/acme/platform",
+      { workspaces: true },
+    );
+
+    expect(result.workspaces?.packageCount).toBe(2);
+    expect(result.workspaces?.packages.map(({ path }) => path)).toEqual([
+      "packages/api",
+    ]);
+    expect(result.workspaces?.unavailable).toEqual([
+      {
+        path: "packages/web",
+        tool: "npm",
+        error: "API rate limit exceeded. Please try again later.",
+      },
+    ]);
+  });
+});
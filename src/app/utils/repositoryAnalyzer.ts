@@ -2,27 +2,392 @@ import type {
   AnalysisResult,
   RepositoryData,
   CommitData,
+  CiRunHealth,
+  CiSummary,
+  DependencyReport,
+  DocumentationInventory,
+  FileTree,
+  HostingMetadata,
+  PackageScore,
+  ScoreDimension,
   Scores,
+  SecretScanReport,
+  SourceStatus,
+  UnscoredPackage,
+  VulnerabilityFinding,
+  VulnerabilityReport,
+  WorkspacePackage,
+  WorkspaceReport,
 } from "../types";
+import { createArchiveProvider, parseRepositoryUrl } from "./providers";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import { EMPTY_COMMIT_DATA } from "./providers/shared";
+import { getFileName, summarizeTests } from "./fileTree";
+import type { TestInventory } from "./fileTree";
+import { fetchCiSummary } from "./ciConfig";
+import { formatDuration } from "./ciRuns";
+import { fetchDependencyReport } from "./dependencies";
+import {
+  compareVersions,
+  matchVulnerabilities,
+} from "./vulnerabilities";
+import { scanForSecrets } from "./secrets";
+import { fetchDocumentationInventory } from "./documentation";
+import { outlineReadme } from "./readme";
+import type { ReadmeOutline, ReadmeSection } from "./readme";
+import { getLanguageName } from "./readmeLanguages";
+import { checkReadmeLinks } from "./readmeLinks";
+import type { LinkChecker, ReadmeLinkReport } from "./readmeLinks";
+import type { RepositoryArchive } from "./archive";
+import { snapshotRepository } from "./history";
+import {
+  ancestorLockfiles,
+  detectWorkspaces,
+  resolveRevisionPath,
+  scopeProvider,
+  scopeRepository,
+} from "./monorepo";
+import { withRevalidation } from "./responseCache";
+import {
+  listSources,
+  recordSource,
+  trackSource,
+  trackStep,
+  withAnalysisRun,
+} from "./progress";
+import type { ProgressListener } from "./progress";
+import { evaluateRules } from "./rules";
+import type { Rule } from "./rules";
+import { DEFAULT_RUBRIC } from "./rubric";
+import type { RubricDimensions, RubricProfile } from "./rubric";
+
+export interface AnalyzeOptions {
+  // Ceiling on the number of commits downloaded for history analysis
+  maxCommits?: number;
+  // Scoring rules and weights; defaults to the built-in balanced profile
+  rubric?: RubricProfile;
+  // Instant every time-based rule is measured from. When set, the
+  // repository is replayed as it stood at that time; defaults to now.
+  asOf?: Date;
+  // Also score each package declared by npm, Yarn, pnpm, Cargo or Go
+  // workspaces in the analyzed directory
+  workspaces?: boolean;
+  // Checks the README's external links; relative links and anchors are
+  // always checked against the file tree
+  linkChecker?: LinkChecker;
+  // Check every cached response with the host instead of trusting entries
+  // that are younger than the cache time-to-live
+  refresh?: boolean;
+  // Aborts the requests in flight and stops the analysis at the next step
+  signal?: AbortSignal;
+  // Called whenever a step of the analysis starts or finishes
+  onProgress?: ProgressListener;
+}
 
 export async function analyzeRepository(
   url: string,
+  options: AnalyzeOptions = {},
+): Promise<AnalysisResult> {
+  return withAnalysisRun(options, () =>
+    options.refresh
+      ? withRevalidation(() => analyzeUrl(url, options))
+      : analyzeUrl(url, options),
+  );
+}
+
+async function analyzeUrl(
+  url: string,
+  options: AnalyzeOptions,
 ): Promise<AnalysisResult> {
-  // Extract owner and repo from URL
-  const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/?$/);
-  if (!match) {
-    throw new Error("Invalid GitHub repository URL");
+  // Resolve the hosting provider and owner/repo from the URL
+  const resolved = parseRepositoryUrl(url);
+  if (!resolved) {
+    throw new Error("Invalid or unsupported repository URL");
   }
 
-  const [, owner, repo] = match;
-  const repoName = repo.replace(/\.git$/, "");
+  const { provider, ref } = resolved;
+  const rubric = options.rubric ?? DEFAULT_RUBRIC;
+  const context: AnalysisContext = {
+    asOf: options.asOf ?? new Date(),
+    hosting: true,
+    history: true,
+  };
+  const until = options.asOf?.toISOString();
+
+  // A revision from the URL may continue into a directory of the repository
+  const requested = resolved.revision;
+  const { revision, path } = requested
+    ? await trackStep("revision", "Resolving revision", () =>
+        resolveRevisionPath(provider, ref, requested),
+      )
+    : { revision: null, path: null };
+
+  // Files are read at a fixed commit when the URL names a revision or the
+  // analysis is replayed, so later pushes cannot change the result. The
+  // default branch's README and tree are then not fetched at all.
+  const pinned = Boolean(revision || options.asOf);
+
+  // Fetch repository data. Inside a directory only the commits touching it
+  // count as its history.
+  const current = await provider.fetchRepositoryData(ref, { files: !pinned });
+  const commitData = await trackSource(
+    "commits",
+    "commit history",
+    EMPTY_COMMIT_DATA,
+    () =>
+      provider.fetchCommitData(ref, {
+        maxCommits: options.maxCommits,
+        revision: revision ?? undefined,
+        until,
+        path: path ?? undefined,
+      }),
+  );
+
+  // Inside a directory the history only lists the commits touching it, so
+  // the files are read at the newest commit of the whole repository
+  const tip =
+    pinned && path
+      ? await trackStep("snapshot", "Loading revision", () =>
+          provider.fetchCommitData(ref, {
+            revision: revision ?? undefined,
+            until,
+            maxCommits: 1,
+          }),
+        )
+      : commitData;
+  const snapshot = pinned
+    ? await snapshotRepository(provider, ref, current, tip, {
+        revision,
+        asOf: options.asOf,
+      })
+    : null;
+  const root = snapshot?.repoData ?? current;
+  const branch = revision ?? root.default_branch;
+  const commit = snapshot?.commit ?? branch;
+
+  // Not a step of its own, so the directory's README is recorded as a source
+  const repoData = path
+    ? await scopeRepository(provider, ref, root, commitData, path, commit)
+    : root;
+
+  const result = await analyzeSource(
+    {
+      provider,
+      ref,
+      root,
+      repoData,
+      commitData,
+      path,
+      branch,
+      commit,
+      until,
+    },
+    rubric,
+    context,
+    options,
+  );
+
+  return {
+    repositoryName: `${ref.owner}/${ref.repo}${path ? `/${path}` : ""}`,
+    ...result,
+    snapshot: snapshot
+      ? {
+          commit: snapshot.commit,
+          revision,
+          replayed: options.asOf !== undefined,
+        }
+      : null,
+  };
+}
+
+// Grades an uploaded .zip or tarball. It has no hosting metadata, and no
+// history unless it includes the .git directory, so the rules that need
+// them are not applicable rather than scored zero.
+export async function analyzeArchive(
+  archive: RepositoryArchive,
+  options: AnalyzeOptions = {},
+): Promise<AnalysisResult> {
+  return withAnalysisRun(options, () => analyzeFiles(archive, options));
+}
+
+async function analyzeFiles(
+  archive: RepositoryArchive,
+  options: AnalyzeOptions,
+): Promise<AnalysisResult> {
+  const provider = createArchiveProvider(archive);
+  const ref: RepositoryRef = { host: "", owner: "", repo: archive.name };
+  const repoData = await trackStep("files", "Reading archive", () =>
+    provider.fetchRepositoryData(ref),
+  );
+  const commitData = await trackStep(
+    "commits",
+    "Reading commit history",
+    () =>
+      provider.fetchCommitData(ref, {
+        maxCommits: options.maxCommits,
+      }),
+  );
+  const context: AnalysisContext = {
+    asOf: options.asOf ?? new Date(),
+    hosting: false,
+    history: commitData.commits.length > 0,
+  };
+
+  const result = await analyzeSource(
+    {
+      provider,
+      ref,
+      root: repoData,
+      repoData,
+      commitData,
+      path: null,
+      branch: repoData.default_branch,
+      commit: commitData.commits[0]?.sha ?? repoData.default_branch,
+      until: undefined,
+    },
+    options.rubric ?? DEFAULT_RUBRIC,
+    context,
+    options,
+  );
+
+  return { repositoryName: archive.name, ...result, snapshot: null };
+}
 
-  // Fetch repository data
-  const repoData = await fetchRepositoryData(owner, repoName);
-  const commitData = await fetchCommitData(owner, repoName);
+// Repository data fetched for an analysis, whatever its source
+interface AnalysisSource {
+  provider: RepositoryProvider;
+  ref: RepositoryRef;
+  // Repository at the analyzed commit, before scoping to a directory
+  root: RepositoryData;
+  // Repository as scored, narrowed to the directory when there is one
+  repoData: RepositoryData;
+  commitData: CommitData;
+  path: string | null;
+  branch: string;
+  commit: string;
+  until: string | undefined;
+}
+
+async function analyzeSource(
+  {
+    provider,
+    ref,
+    root,
+    repoData,
+    commitData,
+    path,
+    branch,
+    commit,
+    until,
+  }: AnalysisSource,
+  rubric: RubricProfile,
+  context: AnalysisContext,
+  options: AnalyzeOptions,
+): Promise<Omit<AnalysisResult, "repositoryName" | "snapshot">> {
+  // CI runs for the whole repository, so pipelines come from the root tree
+  // while every other check reads the directory
+  const files = path ? scopeProvider(provider, path) : provider;
+  const rootTree = root.tree;
+  const tree = repoData.tree;
+  const inheritedLockfiles =
+    path && rootTree ? ancestorLockfiles(rootTree, path) : [];
+
+  const ci = rootTree
+    ? await trackStep("ci", "Checking CI", () =>
+        fetchCiSummary(provider, ref, rootTree, branch, {
+          revision: commit,
+          until,
+        }),
+      )
+    : null;
+  if (ci && ci.unavailable.length > 0) {
+    recordSource({
+      id: "ciConfig",
+      name: "CI configuration",
+      status: "unavailable",
+      error: `${ci.unavailable.length} CI configuration files could not be downloaded: ${ci.unavailable.slice(0, 3).join(", ")}.`,
+    });
+  }
+  const dependencies = tree
+    ? await trackStep("dependencies", "Reading dependencies", () =>
+        fetchDependencyReport(
+          files,
+          ref,
+          tree,
+          commit,
+          inheritedLockfiles,
+        ),
+      )
+    : null;
+  if (dependencies && dependencies.unavailable.length > 0) {
+    recordSource({
+      id: "manifests",
+      name: "dependency manifests",
+      status: "unavailable",
+      error: `${dependencies.unavailable.length} manifests and lockfiles in the file tree could not be downloaded: ${dependencies.unavailable.slice(0, 3).join(", ")}.`,
+    });
+  }
+  const vulnerabilities = dependencies
+    ? await trackStep(
+        "vulnerabilities",
+        "Matching known vulnerabilities",
+        () => matchVulnerabilities(dependencies),
+      )
+    : null;
+  const secrets = tree
+    ? await trackStep("secrets", "Scanning for secrets", () =>
+        scanForSecrets(files, ref, tree, commit),
+      )
+    : null;
+  if (secrets && secrets.failedFiles > 0) {
+    recordSource({
+      id: "secretScan",
+      name: "files sampled for secrets",
+      status: "unavailable",
+      error: `${secrets.failedFiles} of ${secrets.scannedFiles + secrets.failedFiles} sampled files could not be downloaded.`,
+    });
+  }
+  const docs = tree
+    ? await trackStep("docs", "Taking documentation inventory", () =>
+        fetchDocumentationInventory(files, ref, tree, commit),
+      )
+    : null;
+  if (docs && docs.failedFiles > 0) {
+    recordSource({
+      id: "docSample",
+      name: "source files sampled for API docs",
+      status: "unavailable",
+      error: `${docs.failedFiles} sampled source files could not be downloaded.`,
+    });
+  }
+  const readme = repoData.readme;
+  const links =
+    readme === null
+      ? null
+      : await trackStep("links", "Checking README links", () =>
+          checkReadmeLinks(outlineReadme(readme), tree, {
+            directory: path,
+            checkLink: options.linkChecker,
+          }),
+        );
 
   // Analyze the repository
-  const scores = analyzeScores(repoData, commitData);
+  const sources = listSources();
+  const scores = markIncomplete(
+    await analyzeScores(
+      repoData,
+      commitData,
+      ci,
+      dependencies,
+      vulnerabilities,
+      secrets,
+      links,
+      docs,
+      rubric.dimensions,
+      context,
+    ),
+    sources,
+  );
   const overallScore = calculateOverallScore(scores);
   const maxScore = calculateMaxScore(scores);
   const skillLevel = determineSkillLevel(
@@ -35,11 +400,31 @@ export async function analyzeRepository(
     scores,
     overallScore,
     maxScore,
+    context,
+  );
+  const roadmap = generateRoadmap(
+    scores,
+    repoData,
+    vulnerabilities,
+    secrets,
   );
-  const roadmap = generateRoadmap(scores, repoData);
+
+  const workspaces =
+    options.workspaces && tree
+      ? await trackStep("workspaces", "Scoring workspace packages", () =>
+          scoreWorkspaces(provider, ref, tree, {
+            root,
+            path,
+            commit,
+            until,
+            ci,
+            rubric,
+            context,
+          }),
+        )
+      : null;
 
   return {
-    repositoryName: `${owner}/${repoName}`,
     overallScore,
     maxScore,
     skillLevel,
@@ -47,631 +432,2409 @@ export async function analyzeRepository(
     scores,
     summary,
     roadmap,
+    ci,
+    dependencies,
+    vulnerabilities,
+    secrets,
+    rubric: { id: rubric.id, name: rubric.name },
+    asOf: context.asOf.toISOString(),
+    path,
+    workspaces,
+    sources,
+    confidence: calculateConfidence(scores),
   };
 }
 
-async function fetchRepositoryData(
-  owner: string,
-  repo: string,
-): Promise<RepositoryData> {
-  const response = await fetch(
-    `https://api.github.com/repos/${owner}/${repo}`,
+// Workspace packages scored in monorepo mode, since each one costs several
+// requests of its own
+const MAX_SCORED_PACKAGES = 10;
+// Files sampled by the secret scan of each workspace package
+const PACKAGE_SCANNED_FILES = 5;
+// Commits fetched for the history of each workspace package
+const PACKAGE_MAX_COMMITS = 100;
+
+interface WorkspaceScoringContext {
+  // Repository at the analyzed commit, before scoping to a directory
+  root: RepositoryData;
+  // Directory the workspaces were detected in, or null for the root
+  path: string | null;
+  commit: string;
+  until: string | undefined;
+  ci: CiSummary | null;
+  rubric: RubricProfile;
+  context: AnalysisContext;
+}
+
+async function scoreWorkspaces(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  tree: FileTree,
+  scoring: WorkspaceScoringContext,
+): Promise<WorkspaceReport> {
+  const detected = await detectWorkspaces(
+    scoring.path ? scopeProvider(provider, scoring.path) : provider,
+    ref,
+    tree,
+    scoring.commit,
   );
 
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(
-        "Repository not found. Please check the URL and ensure the repository is public.",
-      );
-    }
-    if (response.status === 403) {
-      throw new Error(
-        "API rate limit exceeded. Please try again later.",
+  // A package whose requests fail is reported instead of ending the
+  // analysis, which has already scored the repository itself
+  const packages: PackageScore[] = [];
+  const unavailable: UnscoredPackage[] = [];
+  const selected = detected.packages.slice(0, MAX_SCORED_PACKAGES);
+  for (const workspacePackage of selected) {
+    const path = scoring.path
+      ? `${scoring.path}/${workspacePackage.path}`
+      : workspacePackage.path;
+    try {
+      packages.push(
+        await scorePackage(
+          provider,
+          ref,
+          { ...workspacePackage, path },
+          scoring,
+        ),
       );
+    } catch (e) {
+      if (e instanceof DOMException && e.name === "AbortError") throw e;
+      unavailable.push({
+        ...workspacePackage,
+        path,
+        error: e instanceof Error ? e.message : String(e),
+      });
     }
-    throw new Error("Failed to fetch repository data");
   }
 
-  const data = await response.json();
+  return {
+    tools: [...new Set(detected.packages.map(({ tool }) => tool))],
+    packageCount: detected.packages.length,
+    packages,
+    unavailable,
+    unavailableManifests: detected.unavailable,
+  };
+}
 
-  // Fetch README
-  let readme: string | null = null;
-  try {
-    const readmeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/readme`,
-      {
-        headers: { Accept: "application/vnd.github.raw" },
-      },
-    );
-    if (readmeResponse.ok) {
-      readme = await readmeResponse.text();
-    }
-  } catch (e) {
-    // README not available
-  }
+// Runs the same checks as a subdirectory analysis with a smaller history
+// and secret sample; CI is shared with the whole repository
+async function scorePackage(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  workspacePackage: WorkspacePackage,
+  { root, commit, until, ci, rubric, context }: WorkspaceScoringContext,
+): Promise<PackageScore> {
+  const { path } = workspacePackage;
+  const commitData = await provider.fetchCommitData(ref, {
+    maxCommits: PACKAGE_MAX_COMMITS,
+    revision: commit,
+    until,
+    path,
+  });
+  const repoData = await scopeRepository(
+    provider,
+    ref,
+    root,
+    commitData,
+    path,
+    commit,
+  );
+  const files = scopeProvider(provider, path);
+
+  const dependencies = repoData.tree
+    ? await fetchDependencyReport(
+        files,
+        ref,
+        repoData.tree,
+        commit,
+        root.tree ? ancestorLockfiles(root.tree, path) : [],
+      )
+    : null;
+  const vulnerabilities = dependencies
+    ? await matchVulnerabilities(dependencies)
+    : null;
+  const secrets = repoData.tree
+    ? await scanForSecrets(
+        files,
+        ref,
+        repoData.tree,
+        commit,
+        PACKAGE_SCANNED_FILES,
+      )
+    : null;
+  const docs = repoData.tree
+    ? await fetchDocumentationInventory(
+        files,
+        ref,
+        repoData.tree,
+        commit,
+        PACKAGE_SCANNED_FILES,
+      )
+    : null;
+  // External links are only checked for the analyzed repository
+  const links = repoData.readme
+    ? await checkReadmeLinks(outlineReadme(repoData.readme), repoData.tree, {
+        directory: path,
+      })
+    : null;
+
+  const scores = await analyzeScores(
+    repoData,
+    commitData,
+    ci,
+    dependencies,
+    vulnerabilities,
+    secrets,
+    links,
+    docs,
+    rubric.dimensions,
+    context,
+  );
+  const overallScore = calculateOverallScore(scores);
+  const maxScore = calculateMaxScore(scores);
+
+  return {
+    ...workspacePackage,
+    overallScore,
+    maxScore,
+    tier: determineTier(overallScore, maxScore),
+    scores: Object.fromEntries(
+      Object.entries(scores).map(([key, { score, maxScore }]) => [
+        key,
+        { score, maxScore },
+      ]),
+    ) as PackageScore["scores"],
+  };
+}
 
-  // Fetch languages
-  let languages: Record<string, number> = {};
-  try {
-    const languagesResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/languages`,
+async function analyzeScores(
+  repoData: RepositoryData,
+  commitData: CommitData,
+  ci: CiSummary | null,
+  dependencies: DependencyReport | null,
+  vulnerabilities: VulnerabilityReport | null,
+  secrets: SecretScanReport | null,
+  links: ReadmeLinkReport | null,
+  docs: DocumentationInventory | null,
+  rubric: RubricDimensions,
+  context: AnalysisContext,
+): Promise<Scores> {
+  const score = (
+    dimension: keyof Scores,
+    label: string,
+    analyze: () => ScoreDimension,
+  ) =>
+    trackStep(`score:${dimension}`, `Scoring ${label}`, () =>
+      applyWeight(analyze(), rubric[dimension].weight),
     );
-    if (languagesResponse.ok) {
-      languages = await languagesResponse.json();
-    }
-  } catch (e) {
-    // Languages not available
-  }
 
   return {
-    name: data.name,
-    description: data.description,
-    language: data.language,
-    languages,
-    stars: data.stargazers_count,
-    forks: data.forks_count,
-    open_issues: data.open_issues_count,
-    size: data.size,
-    created_at: data.created_at,
-    updated_at: data.updated_at,
-    pushed_at: data.pushed_at,
-    has_wiki: data.has_wiki,
-    has_issues: data.has_issues,
-    has_projects: data.has_projects,
-    license: data.license
-      ? {
-          name: data.license.name,
-          url: data.license.url,
-        }
-      : null,
-    readme,
-    default_branch: data.default_branch,
+    codeQuality: await score("codeQuality", "code quality", () =>
+      analyzeCodeQuality(repoData, commitData, context, rubric.codeQuality),
+    ),
+    projectStructure: await score(
+      "projectStructure",
+      "project structure",
+      () => analyzeProjectStructure(repoData, context, rubric.projectStructure),
+    ),
+    documentation: await score("documentation", "documentation", () =>
+      analyzeDocumentation(repoData, links, docs, rubric.documentation),
+    ),
+    testing: await score("testing", "testing", () =>
+      analyzeTesting(repoData, ci, context, rubric.testing),
+    ),
+    realWorldRelevance: await score(
+      "realWorldRelevance",
+      "real-world relevance",
+      () =>
+        analyzeRealWorldRelevance(
+          repoData,
+          context,
+          rubric.realWorldRelevance,
+        ),
+    ),
+    developmentPractices: await score(
+      "developmentPractices",
+      "development practices",
+      () =>
+        analyzeDevelopmentPractices(
+          repoData,
+          commitData,
+          ci,
+          context,
+          rubric.developmentPractices,
+        ),
+    ),
+    dependencyHealth: await score(
+      "dependencyHealth",
+      "dependency health",
+      () => analyzeDependencyHealth(dependencies, rubric.dependencyHealth),
+    ),
+    security: await score("security", "security", () =>
+      analyzeSecurity(vulnerabilities, secrets, rubric.security),
+    ),
   };
 }
 
-async function fetchCommitData(
-  owner: string,
-  repo: string,
-): Promise<CommitData> {
-  try {
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/commits?per_page=100`,
-    );
+function applyWeight(
+  dimension: ScoreDimension,
+  weight: number,
+): ScoreDimension {
+  const score = Math.min(dimension.score, dimension.maxScore);
+  return {
+    ...dimension,
+    score: Math.round(score * weight),
+    maxScore: Math.round(dimension.maxScore * weight),
+    ...(weight !== 1 ? { weight } : {}),
+  };
+}
 
-    if (!response.ok) {
-      return { total_count: 0, commits: [] };
-    }
+// Shared by every rule, so time-based checks are measured from the same
+// instant and an analysis can be reproduced later
+interface AnalysisContext {
+  asOf: Date;
+  // Whether the source has hosting metadata such as stars and issues, and
+  // a commit history; uploaded archives have neither
+  hosting: boolean;
+  history: boolean;
+}
 
-    const commits = await response.json();
+const needsHosting = ({ hosting }: AnalysisContext) => hosting;
+const needsHistory = ({ history }: AnalysisContext) => history;
+
+// Some hosts lack a piece of metadata, such as stars on Bitbucket
+const reports =
+  (field: HostingMetadata) =>
+  ({ repoData }: { repoData: RepositoryData }) =>
+    !repoData.missing?.includes(field);
+const needsMetadata =
+  (field: HostingMetadata) =>
+  (context: AnalysisContext & { repoData: RepositoryData }) =>
+    needsHosting(context) && reports(field)(context);
+
+interface RepositoryContext extends AnalysisContext {
+  repoData: RepositoryData;
+  commitData: CommitData;
+}
 
-    return {
-      total_count: commits.length,
-      commits: commits.map((commit: any) => ({
-        sha: commit.sha,
-        commit: {
-          message: commit.commit.message,
-          author: {
-            name: commit.commit.author.name,
-            date: commit.commit.author.date,
+type CodeQualityRule = Rule<
+  RepositoryContext,
+  RubricDimensions["codeQuality"]["rules"]
+>;
+
+const CODE_QUALITY_RULES: CodeQualityRule[] = [
+  {
+    id: "primaryLanguage",
+    evaluate: ({ repoData }, rules) =>
+      repoData.language
+        ? {
+            points: rules.primaryLanguage.points,
+            message: `✓ Primary language identified: ${repoData.language}`,
+            evidence: { language: repoData.language },
+          }
+        : {
+            points: 0,
+            message: "✗ No primary programming language detected",
+            evidence: { language: null },
           },
-        },
-      })),
-    };
-  } catch (e) {
-    return { total_count: 0, commits: [] };
-  }
-}
+  },
+  {
+    // Multiple languages indicate complexity
+    id: "multipleLanguages",
+    evaluate: ({ repoData }, rules) => {
+      const languageCount = Object.keys(repoData.languages).length;
+      return languageCount > 1
+        ? {
+            points: rules.multipleLanguages.points,
+            message: `✓ Uses ${languageCount} programming languages, showing technical diversity`,
+            evidence: { languageCount },
+          }
+        : {
+            points: 0,
+            message: "⚠ Uses a single programming language",
+            evidence: { languageCount },
+          };
+    },
+  },
+  {
+    id: "recentUpdate",
+    applies: needsHistory,
+    evaluate: ({ repoData, asOf }, rules) => {
+      const daysSinceUpdate = getDaysSince(repoData.updated_at, asOf);
+      const evidence = { updatedAt: repoData.updated_at, daysSinceUpdate };
+      const [recent, lapsing] = rules.recentUpdate.tiers;
+      if (daysSinceUpdate < recent.threshold) {
+        return {
+          points: recent.points,
+          message: `✓ Recently updated (within last ${recent.threshold} days)`,
+          evidence,
+        };
+      }
+      if (daysSinceUpdate < lapsing.threshold) {
+        return {
+          points: lapsing.points,
+          message: `⚠ Updated within last ${lapsing.threshold} days`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "✗ No recent updates - repository may be abandoned",
+        evidence,
+      };
+    },
+  },
+  {
+    id: "commitMessages",
+    applies: needsHistory,
+    evaluate: ({ commitData }, rules) => {
+      if (commitData.commits.length === 0) {
+        return {
+          points: 0,
+          message: "✗ No commits available to assess message quality",
+          evidence: { commitsInspected: 0 },
+        };
+      }
+
+      const goodCommits = commitData.commits.filter(
+        (c) =>
+          c.commit.message.length > 10 &&
+          !c.commit.message.startsWith("Update "),
+      ).length;
+      const commitQuality =
+        (goodCommits / commitData.commits.length) * 100;
+      const evidence = {
+        commitsInspected: commitData.commits.length,
+        descriptiveCommits: goodCommits,
+        descriptivePercentage: Math.round(commitQuality),
+      };
+      const [good, fair] = rules.commitMessages.tiers;
+
+      if (commitQuality > good.threshold) {
+        return {
+          points: good.points,
+          message:
+            "✓ Good commit message quality (descriptive and meaningful)",
+          evidence,
+        };
+      }
+      if (commitQuality > fair.threshold) {
+        return {
+          points: fair.points,
+          message: "⚠ Commit messages could be more descriptive",
+          evidence,
+        };
+      }
+      return {
+        points: rules.commitMessages.fallback ?? 0,
+        message:
+          "✗ Poor commit message quality - use meaningful descriptions",
+        evidence,
+      };
+    },
+  },
+  {
+    // Repository size indicates development effort
+    id: "codebaseSize",
+    evaluate: ({ repoData }, rules) => {
+      const evidence = { sizeKb: repoData.size };
+      const [substantial, moderate] = rules.codebaseSize.tiers;
+      if (repoData.size > substantial.threshold) {
+        return {
+          points: substantial.points,
+          message:
+            "✓ Substantial codebase size indicating significant development",
+          evidence,
+        };
+      }
+      if (repoData.size > moderate.threshold) {
+        return {
+          points: moderate.points,
+          message: "⚠ Moderate codebase size",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "✗ Small codebase - may lack comprehensive features",
+        evidence,
+      };
+    },
+  },
+  {
+    id: "license",
+    applies: reports("license"),
+    evaluate: ({ repoData }, rules) =>
+      repoData.license
+        ? {
+            points: rules.license.points,
+            message: `✓ Licensed under ${repoData.license.name}`,
+            evidence: { license: repoData.license.name },
+          }
+        : {
+            points: 0,
+            message:
+              "✗ No license file - important for open source projects",
+            evidence: { license: null },
+          },
+  },
+];
 
-function analyzeScores(
+function analyzeCodeQuality(
   repoData: RepositoryData,
   commitData: CommitData,
-): Scores {
+  context: AnalysisContext,
+  rubric: RubricDimensions["codeQuality"],
+) {
+  return evaluateRules(
+    CODE_QUALITY_RULES,
+    { ...context, repoData, commitData },
+    rubric,
+  );
+}
+
+type ProjectStructureRule = Rule<
+  AnalysisContext & { repoData: RepositoryData },
+  RubricDimensions["projectStructure"]["rules"]
+>;
+
+// Repository features that are simply on or off
+function featureRule(
+  id: "issues" | "wiki" | "projects",
+  enabled: (repoData: RepositoryData) => boolean,
+  enabledMessage: string,
+  disabledMessage: string,
+): ProjectStructureRule {
   return {
-    codeQuality: analyzeCodeQuality(repoData, commitData),
-    projectStructure: analyzeProjectStructure(repoData),
-    documentation: analyzeDocumentation(repoData),
-    testing: analyzeTesting(repoData),
-    realWorldRelevance: analyzeRealWorldRelevance(repoData),
-    developmentPractices: analyzeDevelopmentPractices(
-      repoData,
-      commitData,
-    ),
+    id,
+    applies: needsHosting,
+    evaluate: ({ repoData }, rules) =>
+      enabled(repoData)
+        ? {
+            points: rules[id].points,
+            message: enabledMessage,
+            evidence: { enabled: true },
+          }
+        : {
+            points: 0,
+            message: disabledMessage,
+            evidence: { enabled: false },
+          },
   };
 }
 
-function analyzeCodeQuality(
+const PROJECT_STRUCTURE_RULES: ProjectStructureRule[] = [
+  {
+    id: "description",
+    applies: needsHosting,
+    evaluate: ({ repoData }, rules) => {
+      const evidence = {
+        descriptionLength: repoData.description?.length ?? 0,
+      };
+      const [clear] = rules.description.tiers;
+      if (
+        repoData.description &&
+        repoData.description.length > clear.threshold
+      ) {
+        return {
+          points: clear.points,
+          message: "✓ Clear and descriptive project description",
+          evidence,
+        };
+      }
+      if (repoData.description) {
+        return {
+          points: rules.description.fallback ?? 0,
+          message: "⚠ Project description is too brief",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message:
+          "✗ Missing project description - add one to explain the purpose",
+        evidence,
+      };
+    },
+  },
+  featureRule(
+    "issues",
+    (repoData) => repoData.has_issues,
+    "✓ Issues enabled for bug tracking and feature requests",
+    "⚠ Issues are disabled",
+  ),
+  featureRule(
+    "wiki",
+    (repoData) => repoData.has_wiki,
+    "✓ Wiki enabled for extended documentation",
+    "⚠ Wiki is disabled",
+  ),
+  featureRule(
+    "projects",
+    (repoData) => repoData.has_projects,
+    "✓ Projects enabled for task management",
+    "⚠ Projects are disabled",
+  ),
+  {
+    // Community engagement
+    id: "stars",
+    applies: needsMetadata("stars"),
+    evaluate: ({ repoData }, rules) => {
+      const evidence = { stars: repoData.stars };
+      const [popular, noticed] = rules.stars.tiers;
+      if (repoData.stars > popular.threshold) {
+        return {
+          points: popular.points,
+          message: `✓ ${repoData.stars} stars - community interest demonstrated`,
+          evidence,
+        };
+      }
+      if (repoData.stars > noticed.threshold) {
+        return {
+          points: noticed.points,
+          message: `⚠ ${repoData.stars} stars - limited community engagement`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "✗ No stars - consider promoting the project",
+        evidence,
+      };
+    },
+  },
+  {
+    id: "forks",
+    applies: needsHosting,
+    evaluate: ({ repoData }, rules) =>
+      repoData.forks > 0
+        ? {
+            points: rules.forks.points,
+            message: `✓ ${repoData.forks} forks - code is being reused`,
+            evidence: { forks: repoData.forks },
+          }
+        : {
+            points: 0,
+            message: "⚠ No forks yet",
+            evidence: { forks: 0 },
+          },
+  },
+];
+
+function analyzeProjectStructure(
   repoData: RepositoryData,
-  commitData: CommitData,
+  context: AnalysisContext,
+  rubric: RubricDimensions["projectStructure"],
 ) {
-  const feedback: string[] = [];
-  let score = 0;
-  const maxScore = 20;
+  return evaluateRules(
+    PROJECT_STRUCTURE_RULES,
+    { ...context, repoData },
+    rubric,
+  );
+}
 
-  // Language usage
-  if (repoData.language) {
-    score += 3;
-    feedback.push(
-      `✓ Primary language identified: ${repoData.language}`,
-    );
-  } else {
-    feedback.push("✗ No primary programming language detected");
-  }
+interface DocumentationContext {
+  readme: string | null;
+  outline: ReadmeOutline | null;
+  links: ReadmeLinkReport | null;
+  docs: DocumentationInventory | null;
+}
 
-  // Multiple languages indicate complexity
-  const languageCount = Object.keys(repoData.languages).length;
-  if (languageCount > 1) {
-    score += 2;
-    feedback.push(
-      `✓ Uses ${languageCount} programming languages, showing technical diversity`,
-    );
-  }
+type DocumentationRule = Rule<
+  DocumentationContext,
+  RubricDimensions["documentation"]["rules"]
+>;
 
-  // Repository activity
-  const daysSinceUpdate = getDaysSince(repoData.updated_at);
-  if (daysSinceUpdate < 30) {
-    score += 5;
-    feedback.push("✓ Recently updated (within last 30 days)");
-  } else if (daysSinceUpdate < 90) {
-    score += 3;
-    feedback.push("⚠ Updated within last 90 days");
-  } else {
-    feedback.push(
-      "✗ No recent updates - repository may be abandoned",
-    );
-  }
+// READMEs with fewer headings are short enough to skim without a table of
+// contents
+const TABLE_OF_CONTENTS_MIN_HEADINGS = 6;
 
-  // Commit quality analysis
-  if (commitData.commits.length > 0) {
-    const goodCommits = commitData.commits.filter(
-      (c) =>
-        c.commit.message.length > 10 &&
-        !c.commit.message.startsWith("Update "),
-    ).length;
-    const commitQuality =
-      (goodCommits / commitData.commits.length) * 100;
-
-    if (commitQuality > 70) {
-      score += 5;
-      feedback.push(
-        "✓ Good commit message quality (descriptive and meaningful)",
-      );
-    } else if (commitQuality > 40) {
-      score += 3;
-      feedback.push(
-        "⚠ Commit messages could be more descriptive",
-      );
-    } else {
-      score += 1;
-      feedback.push(
-        "✗ Poor commit message quality - use meaningful descriptions",
-      );
-    }
-  }
+// Headings that make a README navigable
+const MIN_README_HEADINGS = 3;
 
-  // Repository size indicates development effort
-  if (repoData.size > 1000) {
-    score += 3;
-    feedback.push(
-      "✓ Substantial codebase size indicating significant development",
-    );
-  } else if (repoData.size > 100) {
-    score += 2;
-    feedback.push("⚠ Moderate codebase size");
-  } else {
-    feedback.push(
-      "✗ Small codebase - may lack comprehensive features",
-    );
-  }
+// Credits a dedicated section, found by its heading
+function sectionRule(
+  section: ReadmeSection,
+  foundMessage: string,
+  missingMessage: string,
+): DocumentationRule {
+  return {
+    id: section,
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      const heading = outline.sections[section];
+      return heading
+        ? {
+            points: rules[section].points,
+            message: `${foundMessage} under "${heading.text}"`,
+            evidence: { heading: heading.text, line: heading.line },
+          }
+        : {
+            points: 0,
+            message: missingMessage,
+            evidence: { heading: null, line: null },
+          };
+    },
+  };
+}
 
-  // License
-  if (repoData.license) {
-    score += 2;
-    feedback.push(`✓ Licensed under ${repoData.license.name}`);
-  } else {
-    feedback.push(
-      "✗ No license file - important for open source projects",
-    );
-  }
+// Credits a file kept next to the README, found by the documentation
+// inventory
+function inventoryRule(
+  id: "changelog" | "contributingGuide" | "templates" | "decisionRecords",
+  find: (docs: DocumentationInventory) => string | null,
+  foundMessage: string,
+  missingMessage: string,
+): DocumentationRule {
+  return {
+    id,
+    evaluate: ({ docs }, rules) => {
+      if (docs === null) return null;
+      const path = find(docs);
+      return path
+        ? {
+            points: rules[id].points,
+            message: `${foundMessage} (${path})`,
+            evidence: { path },
+          }
+        : {
+            points: 0,
+            message: missingMessage,
+            evidence: { path: null },
+          };
+    },
+  };
+}
 
-  return { score, maxScore, feedback };
+const DOCUMENTATION_RULES: DocumentationRule[] = [
+  {
+    // README existence and quality
+    id: "readmeLength",
+    evaluate: ({ readme, outline }, rules) => {
+      if (readme === null) {
+        return {
+          points: 0,
+          message:
+            "✗ README file is missing - this is critical for any repository",
+          details: [
+            "✗ Without README, potential users cannot understand the project",
+          ],
+          evidence: { readmeLength: null },
+        };
+      }
+
+      const language = outline?.language ?? "en";
+      const evidence = { readmeLength: readme.length, language };
+      // Sections are recognized by headings in the README's language too
+      const details =
+        language === "en"
+          ? []
+          : [
+              `✓ Written in ${getLanguageName(language)}; section headings are matched in ${getLanguageName(language)} and English`,
+            ];
+      const [comprehensive, moderate] = rules.readmeLength.tiers;
+      if (readme.length > comprehensive.threshold) {
+        return {
+          points: comprehensive.points,
+          message: `✓ Comprehensive README (${comprehensive.threshold}+ characters)`,
+          details,
+          evidence,
+        };
+      }
+      if (readme.length > moderate.threshold) {
+        return {
+          points: moderate.points,
+          message:
+            "⚠ Moderate README length - consider adding more details",
+          details,
+          evidence,
+        };
+      }
+      return {
+        points: rules.readmeLength.fallback ?? 0,
+        message:
+          "✗ README is too brief - expand with setup, usage, and examples",
+        details,
+        evidence,
+      };
+    },
+  },
+  {
+    // Sections with a consistent heading hierarchy
+    id: "headings",
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      const { headings, skippedLevels } = outline;
+      const evidence = {
+        headings: headings.length,
+        skippedLevels: skippedLevels.length,
+      };
+      if (headings.length < MIN_README_HEADINGS) {
+        return {
+          points: 0,
+          message: "⚠ Few headings - organize the README into sections",
+          evidence,
+        };
+      }
+      if (skippedLevels.length > 0) {
+        return {
+          points: 0,
+          message: `⚠ Heading levels skip in ${skippedLevels.length} place${skippedLevels.length === 1 ? "" : "s"}`,
+          details: skippedLevels
+            .slice(0, 3)
+            .map(
+              (heading) =>
+                `⚠ "${heading.text}" (line ${heading.line}) is an h${heading.depth} below a higher-level heading`,
+            ),
+          evidence,
+        };
+      }
+      return {
+        points: rules.headings.points,
+        message: `✓ ${headings.length} sections in a consistent heading hierarchy`,
+        evidence,
+      };
+    },
+  },
+  sectionRule(
+    "installation",
+    "✓ Installation/setup instructions",
+    "✗ Missing installation section",
+  ),
+  sectionRule(
+    "usage",
+    "✓ Usage examples",
+    "✗ No usage section - add code samples",
+  ),
+  sectionRule(
+    "contributing",
+    "✓ Contribution guidelines",
+    "⚠ No contributing section in README",
+  ),
+  sectionRule(
+    "license",
+    "✓ License information",
+    "⚠ No license section in README",
+  ),
+  {
+    // Screenshots and diagrams, each described for screen readers
+    id: "images",
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      const images = outline.images.filter((image) => !image.badge);
+      const missingAlt = images.filter((image) => !image.alt.trim());
+      const evidence = {
+        images: images.length,
+        missingAlt: missingAlt.length,
+      };
+      if (images.length === 0) {
+        return {
+          points: 0,
+          message: "⚠ Consider adding screenshots or diagrams",
+          evidence,
+        };
+      }
+      if (missingAlt.length > 0) {
+        return {
+          points: 0,
+          message: `⚠ ${missingAlt.length} of ${images.length} images have no alt text`,
+          details: missingAlt
+            .slice(0, 3)
+            .map((image) => `⚠ Line ${image.line}: ${image.url}`),
+          evidence,
+        };
+      }
+      return {
+        points: rules.images.points,
+        message: `✓ ${images.length} image${images.length === 1 ? "" : "s"} with alt text`,
+        evidence,
+      };
+    },
+  },
+  {
+    // Fenced code blocks tagged with a language for highlighting
+    id: "codeBlocks",
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      const { codeBlocks } = outline;
+      const languages = [
+        ...new Set(
+          codeBlocks.flatMap((block) => (block.lang ? [block.lang] : [])),
+        ),
+      ];
+      const evidence = {
+        codeBlocks: codeBlocks.length,
+        languages: languages.join(", ") || null,
+      };
+      if (languages.length > 0) {
+        return {
+          points: rules.codeBlocks.points,
+          message: `✓ ${codeBlocks.length} code block${codeBlocks.length === 1 ? "" : "s"} (${languages.slice(0, 3).join(", ")})`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message:
+          codeBlocks.length > 0
+            ? "⚠ Code blocks have no language tag - add one for syntax highlighting"
+            : "⚠ No formatted code examples",
+        evidence,
+      };
+    },
+  },
+  {
+    id: "tables",
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      return outline.tables > 0
+        ? {
+            points: rules.tables.points,
+            message: `✓ ${outline.tables} table${outline.tables === 1 ? "" : "s"} for structured reference`,
+            evidence: { tables: outline.tables },
+          }
+        : {
+            points: 0,
+            message: "⚠ No tables - consider one for options or commands",
+            evidence: { tables: 0 },
+          };
+    },
+  },
+  {
+    id: "tableOfContents",
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      const evidence = {
+        tableOfContents: outline.tableOfContents,
+        headings: outline.headings.length,
+      };
+      if (outline.tableOfContents) {
+        return {
+          points: rules.tableOfContents.points,
+          message: "✓ Table of contents included",
+          evidence,
+        };
+      }
+      return outline.headings.length < TABLE_OF_CONTENTS_MIN_HEADINGS
+        ? {
+            points: rules.tableOfContents.points,
+            message: "✓ Short enough to navigate without a table of contents",
+            evidence,
+          }
+        : {
+            points: 0,
+            message: `⚠ No table of contents for ${outline.headings.length} sections`,
+            evidence,
+          };
+    },
+  },
+  {
+    // Relative links, anchors and images that resolve, plus external URLs
+    // when they were checked
+    id: "links",
+    evaluate: ({ links }, rules) => {
+      if (links === null) return null;
+      const { checked, unchecked, broken } = links;
+      const evidence = { checked, unchecked, broken: broken.length };
+      const uncheckedDetails =
+        unchecked > 0 ? [`⚠ ${unchecked} links could not be checked`] : [];
+      if (broken.length > 0) {
+        return {
+          points: 0,
+          message: `✗ ${broken.length} broken link${broken.length === 1 ? "" : "s"} or image${broken.length === 1 ? "" : "s"} in README`,
+          details: [
+            ...broken
+              .slice(0, 5)
+              .map(
+                (link) =>
+                  `✗ Line ${link.line}: ${link.url} - ${link.reason}`,
+              ),
+            ...uncheckedDetails,
+          ],
+          evidence,
+        };
+      }
+      return {
+        points: rules.links.points,
+        message:
+          checked > 0
+            ? `✓ All ${checked} checked links and images resolve`
+            : "✓ No broken links in README",
+        details: uncheckedDetails,
+        evidence,
+      };
+    },
+  },
+  {
+    id: "badges",
+    evaluate: ({ outline }, rules) => {
+      if (outline === null) return null;
+      const badges = outline.images.filter((image) => image.badge).length;
+      return badges > 0
+        ? {
+            points: rules.badges.points,
+            message: "✓ Status badges present",
+            evidence: { badges },
+          }
+        : {
+            points: 0,
+            message: "⚠ No status badges",
+            evidence: { badges: 0 },
+          };
+    },
+  },
+  {
+    // Documentation beyond the README: a docs/ folder or a site generator
+    id: "docsSite",
+    evaluate: ({ docs }, rules) => {
+      if (docs === null) return null;
+      const evidence = {
+        docsPages: docs.docsPages,
+        siteGenerators:
+          docs.siteGenerators.map(({ name }) => name).join(", ") || null,
+      };
+      if (docs.siteGenerators.length > 0) {
+        const [generator] = docs.siteGenerators;
+        return {
+          points: rules.docsSite.points,
+          message: `✓ Documentation site built with ${generator.name} (${generator.path})`,
+          evidence,
+        };
+      }
+      if (docs.docsDirectory && docs.docsPages > 0) {
+        return {
+          points: rules.docsSite.points,
+          message: `✓ ${docs.docsDirectory}/ folder with ${docs.docsPages} page${docs.docsPages === 1 ? "" : "s"}`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "⚠ No docs/ folder or documentation site",
+        evidence,
+      };
+    },
+  },
+  inventoryRule(
+    "changelog",
+    (docs) => docs.changelog,
+    "✓ Changelog",
+    "⚠ No CHANGELOG - record notable changes per release",
+  ),
+  inventoryRule(
+    "contributingGuide",
+    (docs) => docs.contributing,
+    "✓ Contributing guide",
+    "⚠ No CONTRIBUTING guide",
+  ),
+  {
+    id: "communityFiles",
+    evaluate: ({ docs }, rules) => {
+      if (docs === null) return null;
+      const missing = [
+        ...(docs.codeOfConduct ? [] : ["code of conduct"]),
+        ...(docs.security ? [] : ["security policy"]),
+      ];
+      const evidence = {
+        codeOfConduct: docs.codeOfConduct,
+        security: docs.security,
+      };
+      return missing.length === 0
+        ? {
+            points: rules.communityFiles.points,
+            message: "✓ Code of conduct and security policy",
+            evidence,
+          }
+        : {
+            points: 0,
+            message: `⚠ No ${missing.join(" or ")}`,
+            evidence,
+          };
+    },
+  },
+  inventoryRule(
+    "templates",
+    (docs) => docs.issueTemplates[0] ?? docs.pullRequestTemplate,
+    "✓ Issue or pull request templates",
+    "⚠ No issue or pull request templates",
+  ),
+  {
+    id: "translations",
+    evaluate: ({ docs }, rules) => {
+      if (docs === null) return null;
+      const count = docs.translations.length;
+      return count > 0
+        ? {
+            points: rules.translations.points,
+            message: `✓ README translated into ${count} other language${count === 1 ? "" : "s"}`,
+            details: docs.translations.slice(0, 5).map((path) => `✓ ${path}`),
+            evidence: { translations: count },
+          }
+        : {
+            points: 0,
+            message: "⚠ No README translations (optional)",
+            evidence: { translations: 0 },
+          };
+    },
+  },
+  inventoryRule(
+    "decisionRecords",
+    (docs) => docs.decisionRecords[0] ?? null,
+    "✓ Architecture decision records",
+    "⚠ No architecture decision records",
+  ),
+  {
+    // Share of sampled declarations with a doc comment or docstring
+    id: "apiDocs",
+    evaluate: ({ docs }, rules) => {
+      if (docs === null) return null;
+      const { apiDocs } = docs;
+      if (!apiDocs || apiDocs.declarations === 0) {
+        return {
+          points: 0,
+          message: "⚠ No declarations found to measure inline API docs",
+          evidence: { declarations: 0, documented: 0, percentage: null },
+        };
+      }
+
+      const percentage = Math.round(
+        (apiDocs.documented / apiDocs.declarations) * 100,
+      );
+      const evidence = {
+        sampledFiles: apiDocs.sampledFiles,
+        declarations: apiDocs.declarations,
+        documented: apiDocs.documented,
+        percentage,
+      };
+      const summary = `${percentage}% of ${apiDocs.declarations} declarations in ${apiDocs.sampledFiles} sampled files`;
+      const [thorough, partial] = rules.apiDocs.tiers;
+      if (percentage >= thorough.threshold) {
+        return {
+          points: thorough.points,
+          message: `✓ Inline API docs on ${summary}`,
+          evidence,
+        };
+      }
+      if (percentage >= partial.threshold) {
+        return {
+          points: partial.points,
+          message: `⚠ Inline API docs on only ${summary}`,
+          evidence,
+        };
+      }
+      return {
+        points: rules.apiDocs.fallback ?? 0,
+        message: `✗ Inline API docs on ${summary} - add doc comments to public functions`,
+        evidence,
+      };
+    },
+  },
+];
+
+function analyzeDocumentation(
+  repoData: RepositoryData,
+  links: ReadmeLinkReport | null,
+  docs: DocumentationInventory | null,
+  rubric: RubricDimensions["documentation"],
+) {
+  const { readme } = repoData;
+  return {
+    ...evaluateRules(
+      DOCUMENTATION_RULES,
+      {
+        readme,
+        outline: readme === null ? null : outlineReadme(readme),
+        links,
+        docs,
+      },
+      rubric,
+    ),
+    ...(docs ? { documentation: docs } : {}),
+  };
 }
 
-function analyzeProjectStructure(repoData: RepositoryData) {
-  const feedback: string[] = [];
-  let score = 0;
-  const maxScore = 15;
+interface TestingContext extends AnalysisContext {
+  tests: TestInventory;
+  ci: CiSummary | null;
+  treeTruncated: boolean;
+}
 
-  // Has clear description
-  if (
-    repoData.description &&
-    repoData.description.length > 20
-  ) {
-    score += 4;
-    feedback.push(
-      "✓ Clear and descriptive project description",
-    );
-  } else if (repoData.description) {
-    score += 2;
-    feedback.push("⚠ Project description is too brief");
-  } else {
-    feedback.push(
-      "✗ Missing project description - add one to explain the purpose",
+type TestingRule = Rule<
+  TestingContext,
+  RubricDimensions["testing"]["rules"]
+>;
+
+const TESTING_RULES: TestingRule[] = [
+  {
+    // Test files found by naming convention or location
+    id: "testFiles",
+    evaluate: ({ tests }, rules) => {
+      const testCount = tests.testFiles.length;
+      const evidence = {
+        testFiles: testCount,
+        examples: tests.testFiles.slice(0, 3).join(", ") || null,
+      };
+      const [extensive, several] = rules.testFiles.tiers;
+      if (testCount >= extensive.threshold) {
+        return {
+          points: extensive.points,
+          message: `✓ ${testCount} test files found`,
+          evidence,
+        };
+      }
+      if (testCount >= several.threshold) {
+        return {
+          points: several.points,
+          message: `✓ ${testCount} test files found`,
+          evidence,
+        };
+      }
+      if (testCount > 0) {
+        return {
+          points: rules.testFiles.fallback ?? 0,
+          message: `⚠ Only ${testCount} test file${testCount === 1 ? "" : "s"} found`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "✗ No test files found in the repository",
+        details: ["⚠ Consider adding unit and integration tests"],
+        evidence,
+      };
+    },
+  },
+  {
+    id: "testDirectories",
+    evaluate: ({ tests }, rules) =>
+      tests.testDirectories.length > 0
+        ? {
+            points: rules.testDirectories.points,
+            message: `✓ Dedicated test directories: ${tests.testDirectories.slice(0, 3).join(", ")}`,
+            evidence: { testDirectories: tests.testDirectories.length },
+          }
+        : {
+            points: 0,
+            message: "⚠ No dedicated test directory",
+            evidence: { testDirectories: 0 },
+          },
+  },
+  {
+    // Test-to-source ratio
+    id: "testRatio",
+    evaluate: ({ tests }, rules) => {
+      const evidence = {
+        testFiles: tests.testFiles.length,
+        sourceFiles: tests.sourceFileCount,
+        ratio: Number(tests.ratio.toFixed(2)),
+      };
+      if (tests.testFiles.length === 0 || tests.sourceFileCount === 0) {
+        return {
+          points: 0,
+          message: "✗ No test-to-source ratio - no tests or no source files",
+          evidence,
+        };
+      }
+
+      const ratio = tests.ratio.toFixed(2);
+      const [healthy, moderate] = rules.testRatio.tiers;
+      if (tests.ratio >= healthy.threshold) {
+        return {
+          points: healthy.points,
+          message: `✓ Healthy test-to-source ratio (${ratio} test files per source file)`,
+          evidence,
+        };
+      }
+      if (tests.ratio >= moderate.threshold) {
+        return {
+          points: moderate.points,
+          message: `⚠ Moderate test-to-source ratio (${ratio} test files per source file)`,
+          evidence,
+        };
+      }
+      return {
+        points: rules.testRatio.fallback ?? 0,
+        message: `✗ Low test-to-source ratio (${ratio} test files per source file)`,
+        evidence,
+      };
+    },
+  },
+  {
+    // Test runner and coverage configuration
+    id: "testConfig",
+    evaluate: ({ tests }, rules) =>
+      tests.configFiles.length > 0
+        ? {
+            points: rules.testConfig.points,
+            message: `✓ Test tooling configured: ${tests.configFiles.slice(0, 3).map(getFileName).join(", ")}`,
+            evidence: { configFiles: tests.configFiles.join(", ") },
+          }
+        : {
+            points: 0,
+            message: "⚠ No test runner or coverage configuration found",
+            evidence: { configFiles: null },
+          },
+  },
+  {
+    // CI/CD pipeline contents
+    id: "ciPipeline",
+    evaluate: ({ ci }, rules) => {
+      if (ci && ci.pipelines.length === 0 && ci.configFiles.length > 0) {
+        return null;
+      }
+      if (!ci || ci.pipelines.length === 0) {
+        return {
+          points: 0,
+          message:
+            "✗ No CI/CD pipeline detected - consider adding automated tests",
+          evidence: { pipelines: 0, jobs: 0 },
+        };
+      }
+
+      const systems = [
+        ...new Set(ci.pipelines.map((pipeline) => pipeline.system)),
+      ].join(", ");
+      const jobCount = ci.pipelines.reduce(
+        (sum, pipeline) => sum + pipeline.jobs.length,
+        0,
+      );
+      return {
+        points: rules.ciPipeline.points,
+        message: `✓ CI/CD pipeline detected: ${systems} (${jobCount} job${jobCount === 1 ? "" : "s"})`,
+        evidence: { pipelines: ci.pipelines.length, jobs: jobCount },
+      };
+    },
+  },
+  {
+    id: "ciRunsTests",
+    evaluate: ({ ci, asOf }, rules) => {
+      if (!ci || ci.pipelines.length === 0) return null;
+
+      // A pipeline that is permanently red does not earn credit for its tests
+      const health = ci.runHealth;
+      const failing = health !== null && isPipelineFailing(health, asOf);
+      const evidence = {
+        runsTests: ci.runsTests,
+        passRate: health ? Number(health.passRate.toFixed(2)) : null,
+        lastSuccessAt: health?.lastSuccessAt ?? null,
+      };
+      if (ci.runsTests && !failing) {
+        return {
+          points: rules.ciRunsTests.points,
+          message: "✓ CI runs the test suite",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: ci.runsTests
+          ? "✗ CI runs the test suite but the pipeline is failing"
+          : "✗ CI pipeline does not appear to run tests",
+        evidence,
+      };
+    },
+  },
+  {
+    id: "ciLintOrMatrix",
+    evaluate: ({ ci }, rules) => {
+      if (!ci || ci.pipelines.length === 0) return null;
+      const evidence = { runsLint: ci.runsLint, hasMatrix: ci.hasMatrix };
+      if (ci.runsLint || ci.hasMatrix) {
+        return {
+          points: rules.ciLintOrMatrix.points,
+          message: ci.hasMatrix
+            ? "✓ Matrix builds cover multiple environments"
+            : "✓ CI enforces linting or formatting",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "⚠ CI neither lints nor tests multiple environments",
+        evidence,
+      };
+    },
+  },
+  {
+    // Configuration the parser does not understand, e.g. a Jenkinsfile
+    id: "ciUninspected",
+    evaluate: ({ ci }, rules) =>
+      ci && ci.pipelines.length === 0 && ci.configFiles.length > 0
+        ? {
+            points: rules.ciUninspected.points,
+            message: `⚠ CI/CD configuration found (${ci.configFiles[0]}) but its jobs could not be inspected`,
+            evidence: { configFiles: ci.configFiles.join(", ") },
+          }
+        : null,
+  },
+  {
+    id: "ciRunHealth",
+    evaluate: ({ ci, asOf }) => {
+      const health = ci?.runHealth;
+      if (!ci || ci.pipelines.length === 0 || !health) return null;
+      const [message, ...details] = describeRunHealth(health, asOf);
+      return {
+        points: 0,
+        message,
+        details,
+        evidence: {
+          runCount: health.runCount,
+          passRate: Number(health.passRate.toFixed(2)),
+          medianDurationSeconds: health.medianDurationSeconds,
+          flakyJobs: health.flakyJobs.length,
+        },
+      };
+    },
+  },
+  {
+    id: "treeCompleteness",
+    evaluate: ({ treeTruncated }) =>
+      treeTruncated
+        ? {
+            points: 0,
+            message:
+              "⚠ File listing was truncated by the host - counts may be incomplete",
+            evidence: { truncated: true },
+          }
+        : null,
+  },
+];
+
+function analyzeTesting(
+  repoData: RepositoryData,
+  ci: CiSummary | null,
+  context: AnalysisContext,
+  rubric: RubricDimensions["testing"],
+): ScoreDimension {
+  if (!repoData.tree) {
+    return evaluateRules(
+      README_TESTING_RULES,
+      { readme: (repoData.readme || "").toLowerCase() },
+      rubric,
     );
   }
 
-  // Project features
-  if (repoData.has_issues) {
-    score += 3;
-    feedback.push(
-      "✓ Issues enabled for bug tracking and feature requests",
-    );
-  }
+  return {
+    ...evaluateRules(
+      TESTING_RULES,
+      {
+        ...context,
+        tests: summarizeTests(repoData.tree),
+        ci,
+        treeTruncated: repoData.tree.truncated,
+      },
+      rubric,
+    ),
+    ...(ci && ci.configFiles.length > 0 ? { ci } : {}),
+  };
+}
 
-  if (repoData.has_wiki) {
-    score += 2;
-    feedback.push("✓ Wiki enabled for extended documentation");
-  }
+function isPipelineFailing(health: CiRunHealth, asOf: Date) {
+  return (
+    health.passRate < 0.5 ||
+    !health.lastSuccessAt ||
+    getDaysSince(health.lastSuccessAt, asOf) > 30
+  );
+}
 
-  if (repoData.has_projects) {
-    score += 2;
-    feedback.push("✓ Projects enabled for task management");
-  }
+function describeRunHealth(health: CiRunHealth, asOf: Date) {
+  const feedback: string[] = [];
+  const passRate = Math.round(health.passRate * 100);
 
-  // Community engagement
-  if (repoData.stars > 10) {
-    score += 2;
+  if (health.passRate >= 0.9) {
     feedback.push(
-      `✓ ${repoData.stars} stars - community interest demonstrated`,
+      `✓ ${passRate}% of the last ${health.runCount} CI runs passed`,
     );
-  } else if (repoData.stars > 0) {
-    score += 1;
+  } else if (health.passRate >= 0.5) {
     feedback.push(
-      `⚠ ${repoData.stars} stars - limited community engagement`,
+      `⚠ ${passRate}% of the last ${health.runCount} CI runs passed`,
     );
   } else {
     feedback.push(
-      "✗ No stars - consider promoting the project",
+      `✗ Only ${passRate}% of the last ${health.runCount} CI runs passed`,
     );
   }
 
-  if (repoData.forks > 0) {
-    score += 2;
+  if (!health.lastSuccessAt) {
+    feedback.push("✗ No successful CI run on the default branch");
+  } else if (health.latestConclusion !== "success") {
     feedback.push(
-      `✓ ${repoData.forks} forks - code is being reused`,
+      `✗ CI is currently failing - last green build ${getDaysSince(health.lastSuccessAt, asOf)} days ago`,
     );
-  } else {
-    feedback.push("⚠ No forks yet");
   }
 
-  return { score, maxScore, feedback };
-}
-
-function analyzeDocumentation(repoData: RepositoryData) {
-  const feedback: string[] = [];
-  let score = 0;
-  const maxScore = 25;
-
-  if (!repoData.readme) {
-    feedback.push(
-      "✗ README file is missing - this is critical for any repository",
-    );
+  // Runs longer than 15 minutes slow down the feedback loop
+  if (health.medianDurationSeconds !== null) {
+    const duration = formatDuration(health.medianDurationSeconds);
     feedback.push(
-      "✗ Without README, potential users cannot understand the project",
+      health.medianDurationSeconds <= 900
+        ? `✓ Fast CI feedback (median run ${duration})`
+        : `⚠ Slow CI feedback (median run ${duration})`,
     );
-    return { score, maxScore, feedback };
-  }
-
-  const readmeLength = repoData.readme.length;
-
-  // README existence and quality
-  if (readmeLength > 2000) {
-    score += 10;
-    feedback.push("✓ Comprehensive README (2000+ characters)");
-  } else if (readmeLength > 500) {
-    score += 6;
-    feedback.push(
-      "⚠ Moderate README length - consider adding more details",
-    );
-  } else {
-    score += 3;
-    feedback.push(
-      "✗ README is too brief - expand with setup, usage, and examples",
-    );
-  }
-
-  // Check for common sections
-  const readme = repoData.readme.toLowerCase();
-
-  if (readme.includes("install") || readme.includes("setup")) {
-    score += 3;
-    feedback.push("✓ Installation/setup instructions included");
-  } else {
-    feedback.push("✗ Missing installation instructions");
-  }
-
-  if (readme.includes("usage") || readme.includes("example")) {
-    score += 3;
-    feedback.push("✓ Usage examples provided");
-  } else {
-    feedback.push("✗ No usage examples - add code samples");
-  }
-
-  if (
-    readme.includes("contributing") ||
-    readme.includes("contribution")
-  ) {
-    score += 2;
-    feedback.push("✓ Contribution guidelines included");
-  }
-
-  if (readme.includes("license")) {
-    score += 2;
-    feedback.push("✓ License information in README");
   }
 
-  // Visual elements
-  if (readme.includes("![") || readme.includes("<img")) {
-    score += 2;
+  if (health.flakyJobs.length > 0) {
     feedback.push(
-      "✓ Includes images/screenshots for visual clarity",
+      `⚠ Flaky CI jobs (failed and passed on the same commit): ${health.flakyJobs.slice(0, 3).join(", ")}`,
     );
-  } else {
-    feedback.push("⚠ Consider adding screenshots or diagrams");
   }
 
-  // Code blocks
-  if (readme.includes("```") || readme.includes("`")) {
-    score += 2;
-    feedback.push("✓ Code examples formatted properly");
-  }
-
-  // Badges
-  if (
-    readme.includes("badge") ||
-    readme.includes("shields.io") ||
-    readme.includes("img.shields.io")
-  ) {
-    score += 1;
-    feedback.push("✓ Status badges present");
-  }
-
-  return { score, maxScore, feedback };
+  return feedback;
 }
 
-function analyzeTesting(repoData: RepositoryData) {
-  const feedback: string[] = [];
-  let score = 0;
-  const maxScore = 15;
-
-  // Note: Without file tree access, we estimate based on common patterns
-  const readme = (repoData.readme || "").toLowerCase();
-
-  // Check for testing mentions in README
+// Without file tree access, testing is estimated from the README. The
+// README is lower-cased before matching.
+type ReadmeTestingRule = Rule<
+  { readme: string },
+  RubricDimensions["testing"]["rules"]
+>;
+
+const TESTING_FRAMEWORKS = [
+  "jest",
+  "mocha",
+  "pytest",
+  "junit",
+  "rspec",
+  "phpunit",
+  "unittest",
+];
+
+const CI_MENTIONS = [
+  "travis",
+  "circleci",
+  "github actions",
+  "build passing",
+  "workflow",
+];
+
+// Points the README checks below earn, used by the baseline rule
+function readmeTestingPoints(
+  readme: string,
+  rules: RubricDimensions["testing"]["rules"],
+) {
+  let points = 0;
   if (readme.includes("test") && readme.includes("coverage")) {
-    score += 5;
-    feedback.push("✓ Test coverage mentioned in documentation");
+    points += rules.readmeCoverage.points;
   } else if (readme.includes("test")) {
-    score += 3;
-    feedback.push("⚠ Testing mentioned but coverage unclear");
-  } else {
-    feedback.push("✗ No testing information in documentation");
+    points += rules.readmeTests.points;
   }
-
-  // Check for CI/CD badges or mentions
-  if (
-    readme.includes("travis") ||
-    readme.includes("circleci") ||
-    readme.includes("github actions") ||
-    readme.includes("build passing") ||
-    readme.includes("workflow")
-  ) {
-    score += 5;
-    feedback.push("✓ CI/CD pipeline detected");
-  } else {
-    feedback.push(
-      "✗ No CI/CD pipeline detected - consider adding automated tests",
-    );
-  }
-
-  // Check for common testing frameworks
-  const testingFrameworks = [
-    "jest",
-    "mocha",
-    "pytest",
-    "junit",
-    "rspec",
-    "phpunit",
-    "unittest",
-  ];
-  const hasTestFramework = testingFrameworks.some((fw) =>
-    readme.includes(fw),
-  );
-
-  if (hasTestFramework) {
-    score += 3;
-    feedback.push("✓ Testing framework mentioned");
+  if (CI_MENTIONS.some((term) => readme.includes(term))) {
+    points += rules.readmeCi.points;
   }
-
-  // Encourage testing
-  if (score < 5) {
-    feedback.push(
-      "⚠ Consider adding unit and integration tests",
-    );
-    feedback.push("⚠ Set up automated testing with CI/CD");
-    score += 2; // Base score for having a repo
+  if (TESTING_FRAMEWORKS.some((fw) => readme.includes(fw))) {
+    points += rules.readmeFramework.points;
   }
-
-  return { score, maxScore, feedback };
+  return points;
 }
 
-function analyzeRealWorldRelevance(repoData: RepositoryData) {
-  const feedback: string[] = [];
-  let score = 0;
-  const maxScore = 10;
-
-  // Community metrics
-  if (repoData.stars > 100) {
-    score += 4;
-    feedback.push(
-      "✓ Significant community interest (100+ stars)",
-    );
-  } else if (repoData.stars > 10) {
-    score += 3;
-    feedback.push("⚠ Moderate community interest");
-  } else if (repoData.stars > 0) {
-    score += 1;
-    feedback.push("⚠ Limited community adoption");
-  } else {
-    feedback.push("✗ No community engagement yet");
-  }
-
-  // Active development
-  const daysSinceUpdate = getDaysSince(repoData.pushed_at);
-  if (daysSinceUpdate < 7) {
-    score += 3;
-    feedback.push("✓ Very recent activity (within 7 days)");
-  } else if (daysSinceUpdate < 30) {
-    score += 2;
-    feedback.push("✓ Recent activity (within 30 days)");
-  } else {
-    feedback.push(
-      "⚠ No recent commits - project may be stagnant",
-    );
-  }
-
-  // Open issues management
-  if (repoData.open_issues === 0) {
-    score += 2;
-    feedback.push("✓ No open issues - well maintained");
-  } else if (repoData.open_issues < 10) {
-    score += 1;
-    feedback.push(`⚠ ${repoData.open_issues} open issues`);
-  } else {
-    feedback.push(
-      `✗ ${repoData.open_issues} open issues - may need attention`,
-    );
-  }
-
-  // Project maturity
-  const daysSinceCreation = getDaysSince(repoData.created_at);
-  if (daysSinceCreation > 365) {
-    score += 1;
-    feedback.push("✓ Mature project (over 1 year old)");
-  } else if (daysSinceCreation > 90) {
-    feedback.push("⚠ Relatively new project");
-  } else {
-    feedback.push("⚠ Very new project - still establishing");
-  }
-
-  return { score, maxScore, feedback };
+const README_TESTING_RULES: ReadmeTestingRule[] = [
+  {
+    id: "readmeCoverage",
+    evaluate: ({ readme }, rules) =>
+      readme.includes("test") && readme.includes("coverage")
+        ? {
+            points: rules.readmeCoverage.points,
+            message: "✓ Test coverage mentioned in documentation",
+            evidence: { mentionsTests: true, mentionsCoverage: true },
+          }
+        : null,
+  },
+  {
+    id: "readmeTests",
+    evaluate: ({ readme }, rules) => {
+      if (readme.includes("test") && readme.includes("coverage")) {
+        return null;
+      }
+      return readme.includes("test")
+        ? {
+            points: rules.readmeTests.points,
+            message: "⚠ Testing mentioned but coverage unclear",
+            evidence: { mentionsTests: true, mentionsCoverage: false },
+          }
+        : {
+            points: 0,
+            message: "✗ No testing information in documentation",
+            evidence: {
+              mentionsTests: false,
+              mentionsCoverage: readme.includes("coverage"),
+            },
+          };
+    },
+  },
+  {
+    // CI/CD badges or mentions
+    id: "readmeCi",
+    evaluate: ({ readme }, rules) => {
+      const matched = CI_MENTIONS.find((term) => readme.includes(term));
+      return matched
+        ? {
+            points: rules.readmeCi.points,
+            message: "✓ CI/CD pipeline detected",
+            evidence: { matched },
+          }
+        : {
+            points: 0,
+            message:
+              "✗ No CI/CD pipeline detected - consider adding automated tests",
+            evidence: { matched: null },
+          };
+    },
+  },
+  {
+    id: "readmeFramework",
+    evaluate: ({ readme }, rules) => {
+      const framework =
+        TESTING_FRAMEWORKS.find((fw) => readme.includes(fw)) ?? null;
+      return framework
+        ? {
+            points: rules.readmeFramework.points,
+            message: "✓ Testing framework mentioned",
+            evidence: { framework },
+          }
+        : {
+            points: 0,
+            message: "⚠ No testing framework mentioned",
+            evidence: { framework: null },
+          };
+    },
+  },
+  {
+    // Base score for having a repo when the README says little about tests
+    id: "readmeBaseline",
+    evaluate: ({ readme }, rules) => {
+      const earned = readmeTestingPoints(readme, rules);
+      if (earned >= rules.readmeBaseline.threshold) return null;
+      return {
+        points: rules.readmeBaseline.points,
+        message: "⚠ Consider adding unit and integration tests",
+        details: ["⚠ Set up automated testing with CI/CD"],
+        evidence: { readmePoints: earned },
+      };
+    },
+  },
+];
+
+type RelevanceRule = Rule<
+  AnalysisContext & { repoData: RepositoryData },
+  RubricDimensions["realWorldRelevance"]["rules"]
+>;
+
+const RELEVANCE_RULES: RelevanceRule[] = [
+  {
+    // Community metrics
+    id: "stars",
+    applies: needsMetadata("stars"),
+    evaluate: ({ repoData }, rules) => {
+      const evidence = { stars: repoData.stars };
+      const [significant, moderate, limited] = rules.stars.tiers;
+      if (repoData.stars > significant.threshold) {
+        return {
+          points: significant.points,
+          message: `✓ Significant community interest (${significant.threshold}+ stars)`,
+          evidence,
+        };
+      }
+      if (repoData.stars > moderate.threshold) {
+        return {
+          points: moderate.points,
+          message: "⚠ Moderate community interest",
+          evidence,
+        };
+      }
+      if (repoData.stars > limited.threshold) {
+        return {
+          points: limited.points,
+          message: "⚠ Limited community adoption",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "✗ No community engagement yet",
+        evidence,
+      };
+    },
+  },
+  {
+    // Active development
+    id: "recentPush",
+    applies: needsHistory,
+    evaluate: ({ repoData, asOf }, rules) => {
+      const daysSincePush = getDaysSince(repoData.pushed_at, asOf);
+      const evidence = { pushedAt: repoData.pushed_at, daysSincePush };
+      const [veryRecent, recent] = rules.recentPush.tiers;
+      if (daysSincePush < veryRecent.threshold) {
+        return {
+          points: veryRecent.points,
+          message: `✓ Very recent activity (within ${veryRecent.threshold} days)`,
+          evidence,
+        };
+      }
+      if (daysSincePush < recent.threshold) {
+        return {
+          points: recent.points,
+          message: `✓ Recent activity (within ${recent.threshold} days)`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "⚠ No recent commits - project may be stagnant",
+        evidence,
+      };
+    },
+  },
+  {
+    // Open issues management
+    id: "openIssues",
+    applies: needsMetadata("open_issues"),
+    evaluate: ({ repoData }, rules) => {
+      const evidence = { openIssues: repoData.open_issues };
+      const [triaged, manageable] = rules.openIssues.tiers;
+      if (repoData.open_issues <= triaged.threshold) {
+        return {
+          points: triaged.points,
+          message:
+            repoData.open_issues === 0
+              ? "✓ No open issues - well maintained"
+              : `✓ Only ${repoData.open_issues} open issues - well maintained`,
+          evidence,
+        };
+      }
+      if (repoData.open_issues <= manageable.threshold) {
+        return {
+          points: manageable.points,
+          message: `⚠ ${repoData.open_issues} open issues`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: `✗ ${repoData.open_issues} open issues - may need attention`,
+        evidence,
+      };
+    },
+  },
+  {
+    // Project maturity
+    id: "maturity",
+    applies: needsHistory,
+    evaluate: ({ repoData, asOf }, rules) => {
+      const daysSinceCreation = getDaysSince(repoData.created_at, asOf);
+      const evidence = { createdAt: repoData.created_at, daysSinceCreation };
+      if (daysSinceCreation > rules.maturity.threshold) {
+        return {
+          points: rules.maturity.points,
+          message: `✓ Mature project (over ${rules.maturity.threshold} days old)`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message:
+          daysSinceCreation > 90
+            ? "⚠ Relatively new project"
+            : "⚠ Very new project - still establishing",
+        evidence,
+      };
+    },
+  },
+];
+
+function analyzeRealWorldRelevance(
+  repoData: RepositoryData,
+  context: AnalysisContext,
+  rubric: RubricDimensions["realWorldRelevance"],
+) {
+  return evaluateRules(RELEVANCE_RULES, { ...context, repoData }, rubric);
 }
 
+// Trigger names used by the supported CI systems for pre-merge validation
+const PULL_REQUEST_TRIGGERS = [
+  "pull_request",
+  "pull_request_target",
+  "merge_request",
+  "pr",
+];
+
+type PracticesRule = Rule<
+  RepositoryContext & { ci: CiSummary | null },
+  RubricDimensions["developmentPractices"]["rules"]
+>;
+
+const DEVELOPMENT_PRACTICES_RULES: PracticesRule[] = [
+  {
+    // Commit consistency
+    id: "commitCount",
+    applies: needsHistory,
+    evaluate: ({ commitData }, rules) => {
+      const evidence = { totalCommits: commitData.total_count };
+      const [strong, moderate, limited] = rules.commitCount.tiers;
+      if (commitData.total_count > strong.threshold) {
+        return {
+          points: strong.points,
+          message: `✓ Strong commit history (${strong.threshold}+ commits)`,
+          evidence,
+        };
+      }
+      if (commitData.total_count > moderate.threshold) {
+        return {
+          points: moderate.points,
+          message: "⚠ Moderate commit history",
+          evidence,
+        };
+      }
+      if (commitData.total_count > limited.threshold) {
+        return {
+          points: limited.points,
+          message: "✗ Limited commit history - needs more development",
+          evidence,
+        };
+      }
+      return { points: 0, message: "✗ No commit history", evidence };
+    },
+  },
+  {
+    id: "historyCoverage",
+    evaluate: ({ commitData }) => {
+      if (!commitData.truncated) return null;
+      // Some hosts cannot count a truncated history, so the total is a floor
+      const total =
+        commitData.total_count > commitData.commits.length
+          ? `${commitData.total_count}`
+          : `${commitData.total_count}+`;
+      return {
+        points: 0,
+        message: `⚠ Commit checks are based on the latest ${commitData.commits.length} of ${total} commits`,
+        evidence: {
+          commitsInspected: commitData.commits.length,
+          totalCommits: commitData.total_count,
+        },
+      };
+    },
+  },
+  {
+    // Analyze commit dates for consistency
+    id: "commitCadence",
+    applies: needsHistory,
+    evaluate: ({ commitData }, rules) => {
+      if (commitData.commits.length < 5) {
+        return {
+          points: 0,
+          message: "⚠ Too few commits to judge commit cadence",
+          evidence: { commitsInspected: commitData.commits.length },
+        };
+      }
+
+      const dates = commitData.commits.map((c) =>
+        new Date(c.commit.author.date).getTime(),
+      );
+      const intervals: number[] = [];
+      for (let i = 1; i < Math.min(dates.length, 10); i++) {
+        intervals.push(dates[i - 1] - dates[i]);
+      }
+
+      const avgInterval =
+        intervals.reduce((a, b) => a + b, 0) / intervals.length;
+      const daysBetween = avgInterval / (1000 * 60 * 60 * 24);
+      const evidence = {
+        averageDaysBetweenCommits: Number(daysBetween.toFixed(1)),
+      };
+      const [regular, irregular] = rules.commitCadence.tiers;
+
+      if (daysBetween < regular.threshold) {
+        return {
+          points: regular.points,
+          message: `✓ Regular commit cadence (commits every ${regular.threshold} days or less)`,
+          evidence,
+        };
+      }
+      if (daysBetween < irregular.threshold) {
+        return {
+          points: irregular.points,
+          message: "⚠ Irregular commit pattern",
+          evidence,
+        };
+      }
+      return {
+        points: rules.commitCadence.fallback ?? 0,
+        message:
+          "✗ Infrequent commits - establish a regular development schedule",
+        evidence,
+      };
+    },
+  },
+  {
+    // Branch management (based on default branch name)
+    id: "defaultBranch",
+    applies: needsHistory,
+    evaluate: ({ repoData }, rules) =>
+      repoData.default_branch === "main" ||
+      repoData.default_branch === "master"
+        ? {
+            points: rules.defaultBranch.points,
+            message: `✓ Standard default branch name: ${repoData.default_branch}`,
+            evidence: { defaultBranch: repoData.default_branch },
+          }
+        : {
+            points: 0,
+            message: `⚠ Non-standard default branch name: ${repoData.default_branch}`,
+            evidence: { defaultBranch: repoData.default_branch },
+          },
+  },
+  {
+    // Repository activity vs creation
+    id: "maintenance",
+    applies: needsHistory,
+    evaluate: ({ repoData, asOf }, rules) => {
+      const daysSinceCreation = getDaysSince(repoData.created_at, asOf);
+      const daysSinceUpdate = getDaysSince(repoData.updated_at, asOf);
+      const evidence = { daysSinceCreation, daysSinceUpdate };
+      const [active, occasional] = rules.maintenance.tiers;
+
+      if (daysSinceUpdate < daysSinceCreation * active.threshold) {
+        return {
+          points: active.points,
+          message: "✓ Actively maintained throughout its lifetime",
+          evidence,
+        };
+      }
+      if (daysSinceUpdate < daysSinceCreation * occasional.threshold) {
+        return {
+          points: occasional.points,
+          message: "⚠ Some periods of inactivity",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: "✗ Long periods without updates",
+        evidence,
+      };
+    },
+  },
+  {
+    // License for collaborative development
+    id: "license",
+    applies: reports("license"),
+    evaluate: ({ repoData }, rules) =>
+      repoData.license
+        ? {
+            points: rules.license.points,
+            message: "✓ Proper licensing encourages collaboration",
+            evidence: { license: repoData.license.name },
+          }
+        : {
+            points: 0,
+            message: "✗ Add a license for legal clarity",
+            evidence: { license: null },
+          },
+  },
+  {
+    // Workflow automation (informational; CI is scored under testing)
+    id: "pullRequestValidation",
+    evaluate: ({ ci }) => {
+      if (!ci || ci.pipelines.length === 0) return null;
+      const validatesPullRequests = ci.triggers.some((trigger) =>
+        PULL_REQUEST_TRIGGERS.includes(trigger),
+      );
+      return {
+        points: 0,
+        message: validatesPullRequests
+          ? "✓ CI validates pull/merge requests"
+          : "⚠ CI does not run on pull requests - changes are only checked after merging",
+        evidence: { triggers: ci.triggers.join(", ") },
+      };
+    },
+  },
+  {
+    id: "deployment",
+    evaluate: ({ ci }) =>
+      ci && ci.pipelines.length > 0 && ci.deploys
+        ? {
+            points: 0,
+            message: "✓ Automated deployment or release job configured",
+            evidence: { deploys: true },
+          }
+        : null,
+  },
+];
+
 function analyzeDevelopmentPractices(
   repoData: RepositoryData,
   commitData: CommitData,
-) {
-  const feedback: string[] = [];
-  let score = 0;
-  const maxScore = 15;
-
-  // Commit consistency
-  if (commitData.total_count > 50) {
-    score += 5;
-    feedback.push("✓ Strong commit history (50+ commits)");
-  } else if (commitData.total_count > 10) {
-    score += 3;
-    feedback.push("⚠ Moderate commit history");
-  } else if (commitData.total_count > 0) {
-    score += 1;
-    feedback.push(
-      "✗ Limited commit history - needs more development",
-    );
-  }
-
-  // Analyze commit dates for consistency
-  if (commitData.commits.length >= 5) {
-    const dates = commitData.commits.map((c) =>
-      new Date(c.commit.author.date).getTime(),
-    );
-    const intervals: number[] = [];
-    for (let i = 1; i < Math.min(dates.length, 10); i++) {
-      intervals.push(dates[i - 1] - dates[i]);
-    }
-
-    const avgInterval =
-      intervals.reduce((a, b) => a + b, 0) / intervals.length;
-    const daysBetween = avgInterval / (1000 * 60 * 60 * 24);
+  ci: CiSummary | null,
+  context: AnalysisContext,
+  rubric: RubricDimensions["developmentPractices"],
+): ScoreDimension {
+  return {
+    ...evaluateRules(
+      DEVELOPMENT_PRACTICES_RULES,
+      { ...context, repoData, commitData, ci },
+      rubric,
+    ),
+    ...(ci && ci.pipelines.length > 0 ? { ci } : {}),
+  };
+}
 
-    if (daysBetween < 14) {
-      score += 3;
-      feedback.push(
-        "✓ Regular commit cadence (commits every 2 weeks or less)",
-      );
-    } else if (daysBetween < 30) {
-      score += 2;
-      feedback.push("⚠ Irregular commit pattern");
-    } else {
-      score += 1;
-      feedback.push(
-        "✗ Infrequent commits - establish a regular development schedule",
+type DependencyHealthRule = Rule<
+  DependencyReport,
+  RubricDimensions["dependencyHealth"]["rules"]
+>;
+
+const DEPENDENCY_HEALTH_RULES: DependencyHealthRule[] = [
+  {
+    // Projects without a package manager are not penalized heavily, but get
+    // no credit for hygiene they cannot demonstrate
+    id: "noManifests",
+    evaluate: (report, rules) =>
+      report.manifests.length === 0
+        ? {
+            points: rules.noManifests.points,
+            message:
+              "⚠ No dependency manifests found - dependency health cannot be assessed",
+            evidence: { manifests: 0 },
+          }
+        : null,
+  },
+  {
+    // Declared dependencies
+    id: "manifests",
+    evaluate: (report, rules) => {
+      if (report.manifests.length === 0) return null;
+      const deps = report.dependencies;
+      const runtimeCount = deps.filter((dep) => !dep.dev).length;
+      const ecosystems = [...new Set(deps.map((dep) => dep.ecosystem))];
+      return {
+        points: rules.manifests.points,
+        message: `✓ ${deps.length} dependencies declared (${runtimeCount} runtime, ${deps.length - runtimeCount} development)`,
+        details:
+          ecosystems.length > 0
+            ? [
+                `✓ Manifests found for ${ecosystems.join(", ")}: ${report.manifests.slice(0, 3).join(", ")}`,
+              ]
+            : [],
+        evidence: {
+          manifests: report.manifests.join(", "),
+          dependencies: deps.length,
+        },
+      };
+    },
+  },
+  {
+    // Reproducible installs
+    id: "lockfile",
+    evaluate: (report, rules) => {
+      if (report.manifests.length === 0) return null;
+      const floatingCount = report.dependencies.filter(
+        (dep) => dep.constraint !== "pinned",
+      ).length;
+      const evidence = {
+        lockfiles: report.lockfiles.join(", ") || null,
+        unlockedEcosystems: report.unlockedEcosystems.join(", ") || null,
+        floatingRequirements: floatingCount,
+      };
+
+      if (report.unlockedEcosystems.length === 0) {
+        return {
+          points: rules.lockfile.points,
+          message:
+            report.lockfiles.length > 0
+              ? `✓ Lockfile committed: ${report.lockfiles.slice(0, 3).map(getFileName).join(", ")}`
+              : "✓ All dependency versions are pinned",
+          evidence,
+        };
+      }
+      if (report.lockfiles.length > 0) return null;
+      return {
+        points: 0,
+        message: `✗ No lockfile committed - ${floatingCount} floating version ranges make builds unreproducible`,
+        evidence,
+      };
+    },
+  },
+  {
+    id: "partialLockfile",
+    evaluate: (report, rules) =>
+      report.manifests.length > 0 &&
+      report.unlockedEcosystems.length > 0 &&
+      report.lockfiles.length > 0
+        ? {
+            points: rules.partialLockfile.points,
+            message: `⚠ No lockfile for ${report.unlockedEcosystems.join(", ")} dependencies`,
+            evidence: {
+              lockfiles: report.lockfiles.join(", "),
+              unlockedEcosystems: report.unlockedEcosystems.join(", "),
+            },
+          }
+        : null,
+  },
+  {
+    // Version constraints
+    id: "constraints",
+    evaluate: (report, rules) => {
+      if (report.manifests.length === 0) return null;
+      const deps = report.dependencies;
+      const floatingCount = deps.filter(
+        (dep) => dep.constraint !== "pinned",
+      ).length;
+      const pinnedCount = deps.length - floatingCount;
+      const unbounded = deps.filter(
+        (dep) => dep.constraint === "unbounded",
       );
-    }
+      const evidence = {
+        pinned: pinnedCount,
+        ranges: floatingCount - unbounded.length,
+        unconstrained: unbounded.length,
+      };
+      const [constrained, mostlyConstrained] = rules.constraints.tiers;
+
+      if (unbounded.length <= constrained.threshold) {
+        return {
+          points: constrained.points,
+          message:
+            unbounded.length === 0
+              ? `✓ Every dependency has a version constraint (${pinnedCount} pinned, ${floatingCount} ranges)`
+              : `✓ Nearly every dependency has a version constraint (${unbounded.length} unconstrained)`,
+          evidence,
+        };
+      }
+      if (unbounded.length <= mostlyConstrained.threshold) {
+        return {
+          points: mostlyConstrained.points,
+          message: `⚠ Unconstrained versions: ${unbounded.map((dep) => dep.name).join(", ")}`,
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: `✗ ${unbounded.length} dependencies accept any version - add version constraints`,
+        evidence,
+      };
+    },
+  },
+  {
+    // Duplicated packages
+    id: "noDuplicates",
+    evaluate: (report, rules) => {
+      if (report.manifests.length === 0) return null;
+      const evidence = { duplicatedPackages: report.duplicates.length };
+      if (report.duplicates.length === 0) {
+        return {
+          points: rules.noDuplicates.points,
+          message:
+            report.lockfiles.length > 0
+              ? "✓ No packages resolved at multiple versions"
+              : "✓ No duplicated packages declared",
+          evidence,
+        };
+      }
+      return {
+        points: 0,
+        message: `⚠ ${report.duplicates.length} packages resolved at multiple versions (e.g. ${report.duplicates
+          .slice(0, 3)
+          .map((dup) => `${dup.name}@${dup.versions.join("/")}`)
+          .join(", ")})`,
+        evidence,
+      };
+    },
+  },
+  {
+    // Dependency footprint
+    id: "footprint",
+    evaluate: (report, rules) => {
+      if (report.manifests.length === 0) return null;
+      const runtimeCount = report.dependencies.filter(
+        (dep) => !dep.dev,
+      ).length;
+      return runtimeCount <= rules.footprint.threshold
+        ? {
+            points: rules.footprint.points,
+            message: "✓ Lean runtime dependency footprint",
+            evidence: { runtimeDependencies: runtimeCount },
+          }
+        : {
+            points: 0,
+            message: `⚠ ${runtimeCount} runtime dependencies - consider trimming unused packages`,
+            evidence: { runtimeDependencies: runtimeCount },
+          };
+    },
+  },
+];
+
+function analyzeDependencyHealth(
+  report: DependencyReport | null,
+  rubric: RubricDimensions["dependencyHealth"],
+): ScoreDimension {
+  if (!report) {
+    return {
+      score: 0,
+      maxScore: rubric.maxScore,
+      feedback: [
+        "⚠ File tree unavailable - dependencies could not be inspected",
+      ],
+      rules: [],
+      notApplicable: [],
+    };
   }
-
-  // Branch management (based on default branch name)
-  if (
-    repoData.default_branch === "main" ||
-    repoData.default_branch === "master"
-  ) {
-    score += 2;
-    feedback.push(
-      `✓ Standard default branch name: ${repoData.default_branch}`,
-    );
+  // Manifests that exist but could not be read say nothing about the
+  // project, unlike a project without a package manager
+  if (report.manifests.length === 0 && report.unavailable.length > 0) {
+    return {
+      score: 0,
+      maxScore: rubric.maxScore,
+      feedback: [
+        "⚠ Dependency manifests could not be downloaded - dependencies could not be inspected",
+      ],
+      rules: [],
+      notApplicable: [],
+    };
   }
+  return evaluateRules(DEPENDENCY_HEALTH_RULES, report, rubric);
+}
 
-  // Repository activity vs creation
-  const daysSinceCreation = getDaysSince(repoData.created_at);
-  const daysSinceUpdate = getDaysSince(repoData.updated_at);
+function describeFinding(finding: VulnerabilityFinding) {
+  const version = finding.inferred
+    ? `${finding.version} (lowest allowed)`
+    : finding.version;
+  const fix = finding.fixedVersion
+    ? `fixed in ${finding.fixedVersion}`
+    : "no fix available";
+  return `${finding.packageName} ${version}: ${finding.advisoryId} (${finding.severity}) - ${fix}`;
+}
 
-  if (daysSinceUpdate < daysSinceCreation * 0.1) {
-    score += 3;
-    feedback.push(
-      "✓ Actively maintained throughout its lifetime",
-    );
-  } else if (daysSinceUpdate < daysSinceCreation * 0.5) {
-    score += 2;
-    feedback.push("⚠ Some periods of inactivity");
-  } else {
-    feedback.push("✗ Long periods without updates");
-  }
+type SecurityRule = Rule<
+  {
+    vulnerabilities: VulnerabilityReport | null;
+    secrets: SecretScanReport | null;
+  },
+  RubricDimensions["security"]["rules"]
+>;
+
+const SECURITY_RULES: SecurityRule[] = [
+  {
+    // Known vulnerabilities. The sample advisories bundled for development
+    // cannot vouch for a repository's dependencies, so until the OSV
+    // database is bundled the rule is left out rather than scored.
+    id: "vulnerabilities",
+    applies: ({ vulnerabilities }) => !vulnerabilities?.sample,
+    evaluate: ({ vulnerabilities }, rules) => {
+      const { points, penalties } = rules.vulnerabilities;
+      if (!vulnerabilities) {
+        return {
+          points: 0,
+          message:
+            "⚠ Dependencies unavailable - known vulnerabilities could not be checked",
+          evidence: { checkedPackages: null },
+        };
+      }
+
+      const evidence = {
+        checkedPackages: vulnerabilities.checkedPackages,
+        findings: vulnerabilities.findings.length,
+        snapshotDate: vulnerabilities.snapshotDate?.slice(0, 10) ?? null,
+      };
+      if (vulnerabilities.checkedPackages === 0) {
+        return {
+          points,
+          message:
+            "⚠ No versioned dependencies to check against the advisory database",
+          evidence,
+        };
+      }
+      if (vulnerabilities.findings.length === 0) {
+        return {
+          points,
+          message: `✓ No known vulnerabilities in ${vulnerabilities.checkedPackages} packages (advisories as of ${evidence.snapshotDate})`,
+          evidence,
+        };
+      }
+
+      // Versions inferred from a range's lower bound may never be installed,
+      // so they cost half as much as exact matches
+      const penalty = vulnerabilities.findings.reduce(
+        (sum, finding) =>
+          sum +
+          (finding.inferred
+            ? Math.ceil(penalties[finding.severity] / 2)
+            : penalties[finding.severity]),
+        0,
+      );
 
-  // License for collaborative development
-  if (repoData.license) {
-    score += 2;
-    feedback.push(
-      "✓ Proper licensing encourages collaboration",
-    );
-  } else {
-    feedback.push("✗ Add a license for legal clarity");
-  }
+      const counts = (
+        ["CRITICAL", "HIGH", "MODERATE", "LOW", "UNKNOWN"] as const
+      )
+        .map((severity) => ({
+          severity,
+          count: vulnerabilities.findings.filter(
+            (finding) => finding.severity === severity,
+          ).length,
+        }))
+        .filter(({ count }) => count > 0)
+        .map(({ severity, count }) => `${count} ${severity.toLowerCase()}`);
+      return {
+        points: Math.max(0, points - penalty),
+        message: `✗ ${vulnerabilities.findings.length} known vulnerabilities in ${vulnerabilities.checkedPackages} packages (${counts.join(", ")})`,
+        details: [
+          ...vulnerabilities.findings
+            .slice(0, 5)
+            .map(
+              (finding) =>
+                `${finding.severity === "CRITICAL" || finding.severity === "HIGH" ? "✗" : "⚠"} ${describeFinding(finding)}`,
+            ),
+          `⚠ Advisory database snapshot from ${evidence.snapshotDate}`,
+        ],
+        evidence: { ...evidence, penalty },
+      };
+    },
+  },
+  {
+    // Leaked credentials
+    id: "noSecrets",
+    evaluate: ({ secrets }, rules) => {
+      if (!secrets) {
+        return {
+          points: 0,
+          message:
+            "⚠ File tree unavailable - files could not be scanned for secrets",
+          evidence: { scannedFiles: null },
+        };
+      }
+
+      const evidence = {
+        scannedFiles: secrets.scannedFiles,
+        candidateFiles: secrets.candidateFiles,
+        failedFiles: secrets.failedFiles,
+        findings: secrets.findings.length,
+        committedEnvFiles: secrets.committedEnvFiles.length,
+      };
+      if (secrets.scannedFiles === 0 && secrets.failedFiles > 0) {
+        return {
+          points: 0,
+          message:
+            "⚠ Sampled files could not be downloaded - files could not be scanned for secrets",
+          evidence,
+        };
+      }
+      if (secrets.findings.length > 0) {
+        return {
+          points: 0,
+          message: `✗ ${secrets.findings.length} possible secrets committed to the repository`,
+          details: [
+            ...secrets.findings
+              .slice(0, 5)
+              .map(
+                (finding) =>
+                  `✗ ${finding.description} in ${finding.path}:${finding.line}`,
+              ),
+            ...(secrets.committedEnvFiles.length > 0
+              ? [
+                  `✗ Environment files committed: ${secrets.committedEnvFiles.slice(0, 3).join(", ")}`,
+                ]
+              : []),
+          ],
+          evidence,
+        };
+      }
+      if (secrets.committedEnvFiles.length > 0) return null;
+      return {
+        points: rules.noSecrets.points,
+        message: `✓ No secrets found in ${secrets.scannedFiles} of ${secrets.candidateFiles} text files sampled`,
+        details:
+          secrets.failedFiles > 0
+            ? [
+                `⚠ ${secrets.failedFiles} sampled files could not be downloaded`,
+              ]
+            : [],
+        evidence,
+      };
+    },
+  },
+  {
+    id: "envFilesOnly",
+    evaluate: ({ secrets }, rules) =>
+      secrets &&
+      secrets.findings.length === 0 &&
+      secrets.committedEnvFiles.length > 0
+        ? {
+            points: rules.envFilesOnly.points,
+            message: `⚠ Environment files committed: ${secrets.committedEnvFiles.slice(0, 3).join(", ")} - keep them out of version control`,
+            evidence: {
+              committedEnvFiles: secrets.committedEnvFiles.join(", "),
+            },
+          }
+        : null,
+  },
+];
+
+function analyzeSecurity(
+  vulnerabilities: VulnerabilityReport | null,
+  secrets: SecretScanReport | null,
+  rubric: RubricDimensions["security"],
+) {
+  return evaluateRules(SECURITY_RULES, { vulnerabilities, secrets }, rubric);
+}
+
+// Data sources each dimension draws on. A dimension is incomplete when one
+// of them could not be fetched.
+const DIMENSION_SOURCES: Record<keyof Scores, string[]> = {
+  codeQuality: ["metadata", "languages", "commits"],
+  projectStructure: ["metadata", "forks"],
+  documentation: ["readme", "tree", "docSample"],
+  testing: ["tree", "readme", "ciConfig"],
+  realWorldRelevance: ["metadata"],
+  developmentPractices: ["metadata", "commits", "tree", "ciConfig"],
+  dependencyHealth: ["tree", "manifests"],
+  security: ["tree", "manifests", "secretScan"],
+};
+
+function markIncomplete(scores: Scores, sources: SourceStatus[]): Scores {
+  return Object.fromEntries(
+    Object.entries(scores).map(([key, dimension]) => {
+      const unavailable = sources.filter(
+        (source) =>
+          source.status === "unavailable" &&
+          DIMENSION_SOURCES[key as keyof Scores].includes(source.id),
+      );
+      if (unavailable.length === 0) return [key, dimension];
+
+      const names = unavailable.map((source) => source.name).join(", ");
+      return [
+        key,
+        {
+          ...dimension,
+          incomplete: `Could not fetch ${names}. ${unavailable[0].error}`,
+        },
+      ];
+    }),
+  ) as Scores;
+}
 
-  return { score, maxScore, feedback };
+function completeDimensions(scores: Scores) {
+  return Object.values(scores).filter((dimension) => !dimension.incomplete);
 }
 
 function calculateOverallScore(scores: Scores): number {
-  return Object.values(scores).reduce(
+  return completeDimensions(scores).reduce(
     (sum, dimension) => sum + dimension.score,
     0,
   );
 }
 
 function calculateMaxScore(scores: Scores): number {
-  return Object.values(scores).reduce(
+  return completeDimensions(scores).reduce(
     (sum, dimension) => sum + dimension.maxScore,
     0,
   );
 }
 
+function calculateConfidence(scores: Scores): number {
+  const total = Object.values(scores).reduce(
+    (sum, dimension) => sum + dimension.maxScore,
+    0,
+  );
+  return total > 0 ? calculateMaxScore(scores) / total : 1;
+}
+
 function determineSkillLevel(
   score: number,
   maxScore: number,
@@ -694,25 +2857,42 @@ function determineTier(
   return "Bronze";
 }
 
+// Share of a dimension's points earned, or null when it could not be
+// assessed: a source it relies on was unavailable, or none of its rules
+// applied
+function assessedRatio(dimension: ScoreDimension): number | null {
+  if (dimension.incomplete || dimension.maxScore === 0) return null;
+  return dimension.score / dimension.maxScore;
+}
+
+function isBelow(dimension: ScoreDimension, threshold: number) {
+  const ratio = assessedRatio(dimension);
+  return ratio !== null && ratio < threshold;
+}
+
 function generateSummary(
   repoData: RepositoryData,
   scores: Scores,
   overallScore: number,
   maxScore: number,
+  { asOf, history }: AnalysisContext,
 ): string {
-  const percentage = (overallScore / maxScore) * 100;
+  const percentage = maxScore > 0 ? (overallScore / maxScore) * 100 : 0;
   const strengths: string[] = [];
   const weaknesses: string[] = [];
+  const unassessed: string[] = [];
 
   // Identify strengths and weaknesses
   Object.entries(scores).forEach(([key, value]) => {
-    const dimensionPercentage =
-      (value.score / value.maxScore) * 100;
+    const ratio = assessedRatio(value);
     const name = formatDimensionName(key);
 
-    if (dimensionPercentage >= 70) {
+    if (ratio === null) {
+      // Dimensions without applicable rules are not worth mentioning
+      if (value.incomplete) unassessed.push(name);
+    } else if (ratio >= 0.7) {
       strengths.push(name);
-    } else if (dimensionPercentage < 40) {
+    } else if (ratio < 0.4) {
       weaknesses.push(name);
     }
   });
@@ -720,7 +2900,9 @@ function generateSummary(
   let summary = `## Professional Repository Evaluation\n\n`;
 
   // Overall assessment
-  if (percentage >= 80) {
+  if (maxScore === 0) {
+    summary += `This repository **could not be scored**: no dimension could be assessed from the data that was available. `;
+  } else if (percentage >= 80) {
     summary += `This repository demonstrates **excellent** software engineering practices with a score of **${overallScore}/${maxScore} (${percentage.toFixed(1)}%)**. `;
   } else if (percentage >= 65) {
     summary += `This repository shows **strong** development practices with a score of **${overallScore}/${maxScore} (${percentage.toFixed(1)}%)**. `;
@@ -748,6 +2930,10 @@ function generateSummary(
         : " that should be addressed. ";
   }
 
+  if (unassessed.length > 0) {
+    summary += `${unassessed.join(", ")} could not be assessed because data it relies on was unavailable, and ${unassessed.length === 1 ? "is" : "are"} left out of the score. `;
+  }
+
   // Specific insights
   summary += `\n\n### Key Observations\n\n`;
 
@@ -757,31 +2943,35 @@ function generateSummary(
     summary += `- **Documentation**: Missing README file is a critical issue that must be addressed immediately\n`;
   }
 
-  if (
-    scores.codeQuality.score / scores.codeQuality.maxScore >
-    0.7
-  ) {
+  const codeQuality = assessedRatio(scores.codeQuality);
+  if (codeQuality !== null && codeQuality > 0.7) {
     summary += `- **Code Quality**: Shows consistent development practices and meaningful commit history\n`;
   }
 
-  if (scores.testing.score / scores.testing.maxScore < 0.4) {
+  if (isBelow(scores.testing, 0.4)) {
     summary += `- **Testing**: Lacks visible testing infrastructure - implement automated tests and CI/CD\n`;
   }
 
   if (repoData.stars > 10 || repoData.forks > 5) {
-    summary += `- **Community**: Gaining traction with ${repoData.stars} stars and ${repoData.forks} forks\n`;
+    const stars = reports("stars")({ repoData })
+      ? `${repoData.stars} stars and `
+      : "";
+    summary += `- **Community**: Gaining traction with ${stars}${repoData.forks} forks\n`;
   }
 
-  const daysSinceUpdate = getDaysSince(repoData.updated_at);
-  if (daysSinceUpdate > 90) {
+  // Without a history the update date is only when the source was packed
+  const daysSinceUpdate = getDaysSince(repoData.updated_at, asOf);
+  if (history && daysSinceUpdate > 90) {
     summary += `- **Activity**: Repository appears inactive (last updated ${daysSinceUpdate} days ago)\n`;
-  } else if (daysSinceUpdate < 7) {
+  } else if (history && daysSinceUpdate < 7) {
     summary += `- **Activity**: Actively maintained with recent updates\n`;
   }
 
   summary += `\n### Recommendation\n\n`;
 
-  if (percentage >= 75) {
+  if (maxScore === 0) {
+    summary += `Run the analysis again once the unavailable data sources can be reached.`;
+  } else if (percentage >= 75) {
     summary += `This repository is well-positioned for professional use or portfolio inclusion. Focus on maintaining current standards while addressing any remaining gaps in ${weaknesses.length > 0 ? weaknesses.join(" and ").toLowerCase() : "minor areas"}.`;
   } else if (percentage >= 60) {
     summary += `The repository has strong potential but requires improvements in key areas. Prioritize enhancing ${weaknesses.length > 0 ? weaknesses[0].toLowerCase() : "weaker dimensions"} to meet professional standards.`;
@@ -795,6 +2985,8 @@ function generateSummary(
 function generateRoadmap(
   scores: Scores,
   repoData: RepositoryData,
+  vulnerabilities: VulnerabilityReport | null,
+  secrets: SecretScanReport | null,
 ) {
   const roadmap: Array<{
     priority: "High" | "Medium" | "Low";
@@ -803,11 +2995,71 @@ function generateRoadmap(
     actionItems: string[];
   }> = [];
 
-  // Documentation improvements
+  // Security issues come first so they survive the top-5 cut
   if (
-    scores.documentation.score / scores.documentation.maxScore <
-    0.6
+    secrets &&
+    (secrets.findings.length > 0 || secrets.committedEnvFiles.length > 0)
   ) {
+    roadmap.push({
+      priority: "High",
+      title: "Remove Leaked Credentials",
+      description:
+        "Secrets in a repository are readable by anyone with access to it, including its full history.",
+      actionItems: [
+        ...secrets.findings
+          .slice(0, 4)
+          .map(
+            (finding) =>
+              `Revoke and rotate the ${finding.description.toLowerCase()} in ${finding.path}:${finding.line}`,
+          ),
+        ...secrets.committedEnvFiles
+          .slice(0, 2)
+          .map(
+            (path) =>
+              `Remove ${path} from version control and add it to .gitignore`,
+          ),
+        "Purge leaked values from git history (git filter-repo or BFG)",
+        "Add a pre-commit secret scanner such as gitleaks",
+      ],
+    });
+  }
+
+  // Matches among the sample advisories are not real findings
+  if (
+    vulnerabilities &&
+    !vulnerabilities.sample &&
+    vulnerabilities.findings.length > 0
+  ) {
+    const upgrades = new Map<string, VulnerabilityFinding[]>();
+    for (const finding of vulnerabilities.findings) {
+      const key = `${finding.packageName}@${finding.version}`;
+      upgrades.set(key, [...(upgrades.get(key) ?? []), finding]);
+    }
+
+    roadmap.push({
+      priority: "High",
+      title: "Patch Vulnerable Dependencies",
+      description:
+        "Dependencies with published advisories expose every user of the project to known exploits.",
+      actionItems: [...upgrades.values()].slice(0, 6).map((findings) => {
+        const [first] = findings;
+        const ids = findings
+          .map((finding) => `${finding.advisoryId}, ${finding.severity}`)
+          .join("; ");
+        const target = findings
+          .map((finding) => finding.fixedVersion)
+          .filter((version): version is string => version !== null)
+          .sort(compareVersions)
+          .pop();
+        return target
+          ? `Upgrade ${first.packageName} from ${first.version} to ${target} (${ids})`
+          : `Replace ${first.packageName} ${first.version} - no fixed release yet (${ids})`;
+      }),
+    });
+  }
+
+  // Documentation improvements
+  if (isBelow(scores.documentation, 0.6)) {
     roadmap.push({
       priority: "High",
       title: "Enhance Documentation",
@@ -825,7 +3077,7 @@ function generateRoadmap(
   }
 
   // Testing infrastructure
-  if (scores.testing.score / scores.testing.maxScore < 0.5) {
+  if (isBelow(scores.testing, 0.5)) {
     roadmap.push({
       priority: "High",
       title: "Implement Testing Strategy",
@@ -843,10 +3095,7 @@ function generateRoadmap(
   }
 
   // Code quality and structure
-  if (
-    scores.codeQuality.score / scores.codeQuality.maxScore <
-    0.6
-  ) {
+  if (isBelow(scores.codeQuality, 0.6)) {
     roadmap.push({
       priority: "High",
       title: "Improve Code Quality",
@@ -864,11 +3113,7 @@ function generateRoadmap(
   }
 
   // Project structure
-  if (
-    scores.projectStructure.score /
-      scores.projectStructure.maxScore <
-    0.6
-  ) {
+  if (isBelow(scores.projectStructure, 0.6)) {
     roadmap.push({
       priority: "Medium",
       title: "Optimize Project Structure",
@@ -886,11 +3131,7 @@ function generateRoadmap(
   }
 
   // Development practices
-  if (
-    scores.developmentPractices.score /
-      scores.developmentPractices.maxScore <
-    0.6
-  ) {
+  if (isBelow(scores.developmentPractices, 0.6)) {
     roadmap.push({
       priority: "Medium",
       title: "Establish Development Workflow",
@@ -907,12 +3148,25 @@ function generateRoadmap(
     });
   }
 
+  // Dependency hygiene
+  if (isBelow(scores.dependencyHealth, 0.6)) {
+    roadmap.push({
+      priority: "Medium",
+      title: "Improve Dependency Hygiene",
+      description:
+        "Predictable dependencies make builds reproducible and upgrades safer.",
+      actionItems: [
+        "Commit the lockfile generated by your package manager",
+        "Add version constraints to every dependency",
+        "Deduplicate packages resolved at multiple versions",
+        "Move build and test tooling into development dependencies",
+        "Remove dependencies that are no longer imported",
+      ],
+    });
+  }
+
   // Real-world relevance
-  if (
-    scores.realWorldRelevance.score /
-      scores.realWorldRelevance.maxScore <
-    0.5
-  ) {
+  if (isBelow(scores.realWorldRelevance, 0.5)) {
     roadmap.push({
       priority: "Low",
       title: "Increase Project Visibility and Impact",
@@ -929,8 +3183,12 @@ function generateRoadmap(
     });
   }
 
-  // Ensure we have at least one roadmap item
-  if (roadmap.length === 0) {
+  // Ensure we have at least one roadmap item, unless the gaps may only lie
+  // in dimensions that could not be assessed
+  if (
+    roadmap.length === 0 &&
+    Object.values(scores).every((dimension) => !dimension.incomplete)
+  ) {
     roadmap.push({
       priority: "Low",
       title: "Continue Excellence",
@@ -958,13 +3216,14 @@ function formatDimensionName(key: string): string {
     testing: "Testing",
     realWorldRelevance: "Real-World Relevance",
     developmentPractices: "Development Practices",
+    dependencyHealth: "Dependency Health",
+    security: "Security",
   };
   return names[key] || key;
 }
 
-function getDaysSince(dateString: string): number {
+function getDaysSince(dateString: string, asOf: Date): number {
   const date = new Date(dateString);
-  const now = new Date();
-  const diffTime = Math.abs(now.getTime() - date.getTime());
+  const diffTime = Math.abs(asOf.getTime() - date.getTime());
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 }
\ No newline at end of file
@@ -0,0 +1,278 @@
+import type { FetchFn } from "./providers/types";
+
+const TTL_STORAGE_KEY = "repository-mirror.cache-ttl";
+const DATABASE_NAME = "repository-mirror";
+const STORE_NAME = "responses";
+
+// Minutes a stored response is served without asking the host again
+export const DEFAULT_CACHE_TTL_MINUTES = 10;
+
+// Entries older than this are dropped when the cache is opened, and the
+// oldest entries go first once the cache outgrows its size budget
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+interface StoredResponse {
+  key: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: ArrayBuffer;
+  etag: string | null;
+  lastModified: string | null;
+  storedAt: number;
+}
+
+export interface CacheEntry {
+  key: string;
+  url: string;
+  size: number;
+  etag: string | null;
+  storedAt: Date;
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+// Number of running tasks that asked for every response to be revalidated
+let revalidating = 0;
+
+export function getCacheTtlMinutes(): number {
+  try {
+    const stored = localStorage.getItem(TTL_STORAGE_KEY);
+    const minutes = stored === null ? NaN : Number(stored);
+    return Number.isFinite(minutes) && minutes >= 0
+      ? minutes
+      : DEFAULT_CACHE_TTL_MINUTES;
+  } catch (e) {
+    // Storage unavailable (private mode, disabled cookies)
+    return DEFAULT_CACHE_TTL_MINUTES;
+  }
+}
+
+export function setCacheTtlMinutes(minutes: number) {
+  try {
+    localStorage.setItem(TTL_STORAGE_KEY, String(minutes));
+  } catch (e) {
+    // Storage unavailable
+  }
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Removes expired entries, then the oldest ones until the rest fit the
+// size budget
+async function prune(db: IDBDatabase) {
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  const store = transaction.objectStore(STORE_NAME);
+  const entries = (await request(store.getAll())) as StoredResponse[];
+  entries.sort((a, b) => b.storedAt - a.storedAt);
+
+  const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+  let total = 0;
+  for (const entry of entries) {
+    total += entry.body.byteLength;
+    if (entry.storedAt < cutoff || total > MAX_CACHE_BYTES) {
+      store.delete(entry.key);
+    }
+  }
+  await completion(transaction);
+}
+
+// Resolves to null where IndexedDB is unavailable, in which case every
+// request goes to the network
+function openDatabase(): Promise<IDBDatabase | null> {
+  database ??= (async () => {
+    if (typeof indexedDB === "undefined") return null;
+    try {
+      const open = indexedDB.open(DATABASE_NAME, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      const db = await request(open);
+      await prune(db).catch(() => undefined);
+      return db;
+    } catch (e) {
+      return null;
+    }
+  })();
+  return database;
+}
+
+async function readEntry(key: string): Promise<StoredResponse | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  try {
+    const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+    return ((await request(store.get(key))) as StoredResponse) ?? null;
+  } catch (e) {
+    return null;
+  }
+}
+
+async function writeEntry(entry: StoredResponse) {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    transaction.objectStore(STORE_NAME).put(entry);
+    await completion(transaction);
+  } catch (e) {
+    // Quota exceeded; the response is simply not cached
+  }
+}
+
+function toResponse(entry: StoredResponse) {
+  return new Response(entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
+
+// The same URL can be asked for in more than one representation, e.g. a
+// README as JSON or as raw text, and with different credentials
+function cacheKey(
+  url: string,
+  accept: string | null,
+  fingerprint: string | null,
+) {
+  const representation = accept ? `${url} [${accept}]` : url;
+  return fingerprint ? `${representation} (${fingerprint})` : representation;
+}
+
+// Short hash of a token, so responses it unlocked are only served while the
+// same token is set. The token itself is never stored. Resolves to null
+// where Web Crypto is unavailable, e.g. outside secure contexts.
+async function credentialFingerprint(credential: string) {
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(credential),
+  );
+  return [...new Uint8Array(digest).slice(0, 8)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Runs a task with the time-to-live ignored, so every cached response is
+// checked with the host before it is used. Unchanged responses still cost
+// no more than a 304.
+export async function withRevalidation<T>(task: () => Promise<T>) {
+  revalidating++;
+  try {
+    return await task();
+  } finally {
+    revalidating--;
+  }
+}
+
+// Wraps fetch with a persistent cache of successful GET responses. Entries
+// younger than the time-to-live are served without a request; older ones are
+// revalidated with If-None-Match or If-Modified-Since, and a 304 answer
+// serves the stored body. GitHub does not count 304s against the rate limit.
+// credential returns the token the wrapped fetch authenticates with, if any;
+// authenticated responses are not cached when it cannot be fingerprinted.
+export function createCachedFetch(
+  fetchImpl: FetchFn = fetch,
+  credential: () => string | null = () => null,
+): FetchFn {
+  return async (input, init) => {
+    const method = init?.method?.toUpperCase() ?? "GET";
+    if (typeof input !== "string" || method !== "GET") {
+      return fetchImpl(input, init);
+    }
+
+    const token = credential();
+    const fingerprint = token ? await credentialFingerprint(token) : null;
+    if (token && !fingerprint) return fetchImpl(input, init);
+
+    const headers = new Headers(init?.headers);
+    const key = cacheKey(input, headers.get("Accept"), fingerprint);
+    const cached = await readEntry(key);
+    if (
+      cached &&
+      revalidating === 0 &&
+      Date.now() - cached.storedAt < getCacheTtlMinutes() * 60 * 1000
+    ) {
+      return toResponse(cached);
+    }
+
+    if (cached?.etag) {
+      headers.set("If-None-Match", cached.etag);
+    } else if (cached?.lastModified) {
+      headers.set("If-Modified-Since", cached.lastModified);
+    }
+
+    let response: Response;
+    try {
+      response = await fetchImpl(input, { ...init, headers });
+    } catch (e) {
+      // Hosts that do not allow the validator headers across origins fail
+      // the preflight; ask again without them
+      if (
+        !headers.has("If-None-Match") &&
+        !headers.has("If-Modified-Since")
+      ) {
+        throw e;
+      }
+      response = await fetchImpl(input, init);
+    }
+
+    if (response.status === 304 && cached) {
+      await writeEntry({ ...cached, storedAt: Date.now() });
+      return toResponse(cached);
+    }
+
+    if (response.ok) {
+      await writeEntry({
+        key,
+        url: input,
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers],
+        body: await response.clone().arrayBuffer(),
+        etag: response.headers.get("ETag"),
+        lastModified: response.headers.get("Last-Modified"),
+        storedAt: Date.now(),
+      });
+    }
+    return response;
+  };
+}
+
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+  const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+  const entries = (await request(store.getAll())) as StoredResponse[];
+  return entries
+    .map((entry) => ({
+      key: entry.key,
+      url: entry.url,
+      size: entry.body.byteLength,
+      etag: entry.etag,
+      storedAt: new Date(entry.storedAt),
+    }))
+    .sort((a, b) => b.storedAt.getTime() - a.storedAt.getTime());
+}
+
+export async function clearCache() {
+  const db = await openDatabase();
+  if (!db) return;
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  transaction.objectStore(STORE_NAME).clear();
+  await completion(transaction);
+}
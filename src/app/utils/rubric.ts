@@ -0,0 +1,344 @@
+import { parse } from "yaml";
+import type { AdvisorySeverity } from "../types";
+import defaultProfile from "../data/rubrics/default.json";
+import hiringProfile from "../data/rubrics/hiring.json";
+
+const PROFILES_STORAGE_KEY = "repository-mirror.rubric-profiles";
+const SELECTED_STORAGE_KEY = "repository-mirror.rubric";
+
+export interface PointsRule {
+  points: number;
+}
+
+export interface ThresholdRule {
+  threshold: number;
+  points: number;
+}
+
+// Tiers are ordered best first and the first one met is awarded; the
+// fallback is awarded when none is met
+export interface TieredRule {
+  tiers: ThresholdRule[];
+  fallback?: number;
+}
+
+export interface PenaltyRule {
+  points: number;
+  // Deducted from the points for each finding of the given severity
+  penalties: Record<AdvisorySeverity, number>;
+}
+
+export interface DimensionRubric<Rules> {
+  // Scales both the earned score and the maximum, so profiles can shift
+  // emphasis between dimensions without restating every rule
+  weight: number;
+  maxScore: number;
+  rules: Rules;
+}
+
+// Thresholds are compared the way each comment describes. Profiles can
+// change any threshold or point value but not the number of tiers.
+export interface RubricDimensions {
+  codeQuality: DimensionRubric<{
+    primaryLanguage: PointsRule;
+    multipleLanguages: PointsRule;
+    // Days since the last update, below threshold
+    recentUpdate: TieredRule;
+    // Percentage of descriptive commit messages, above threshold
+    commitMessages: TieredRule;
+    // Repository size in KB, above threshold
+    codebaseSize: TieredRule;
+    license: PointsRule;
+  }>;
+  projectStructure: DimensionRubric<{
+    // Description length, above threshold; fallback for any description
+    description: TieredRule;
+    issues: PointsRule;
+    wiki: PointsRule;
+    projects: PointsRule;
+    // Star count, above threshold
+    stars: TieredRule;
+    forks: PointsRule;
+  }>;
+  documentation: DimensionRubric<{
+    // README length in characters, above threshold
+    readmeLength: TieredRule;
+    // At least three headings without skipped levels
+    headings: PointsRule;
+    // Sections found by their headings
+    installation: PointsRule;
+    usage: PointsRule;
+    contributing: PointsRule;
+    license: PointsRule;
+    // Images other than badges, all with alt text
+    images: PointsRule;
+    // Fenced code blocks with a language tag
+    codeBlocks: PointsRule;
+    tables: PointsRule;
+    // Also awarded to READMEs too short to need one
+    tableOfContents: PointsRule;
+    // No broken relative links, anchors or images in the README
+    links: PointsRule;
+    badges: PointsRule;
+    // A docs/ folder with pages or a documentation site generator
+    docsSite: PointsRule;
+    changelog: PointsRule;
+    contributingGuide: PointsRule;
+    // Both a code of conduct and a security policy
+    communityFiles: PointsRule;
+    // Issue or pull request templates
+    templates: PointsRule;
+    decisionRecords: PointsRule;
+    // Percentage of sampled declarations with doc comments, at least
+    // threshold
+    apiDocs: TieredRule;
+    // README translated into other languages. The default profile offers it
+    // on top of the maximum, so untranslated READMEs lose nothing.
+    translations: PointsRule;
+  }>;
+  testing: DimensionRubric<{
+    // Test file count, at least threshold; fallback for any tests
+    testFiles: TieredRule;
+    testDirectories: PointsRule;
+    // Test files per source file, at least threshold
+    testRatio: TieredRule;
+    testConfig: PointsRule;
+    ciPipeline: PointsRule;
+    ciRunsTests: PointsRule;
+    ciLintOrMatrix: PointsRule;
+    // CI configuration whose jobs could not be parsed
+    ciUninspected: PointsRule;
+    // README-only fallback used when the file tree is unavailable
+    readmeCoverage: PointsRule;
+    readmeTests: PointsRule;
+    readmeCi: PointsRule;
+    readmeFramework: PointsRule;
+    // Awarded when the README checks above score below threshold
+    readmeBaseline: ThresholdRule;
+  }>;
+  realWorldRelevance: DimensionRubric<{
+    // Star count, above threshold
+    stars: TieredRule;
+    // Days since the last push, below threshold
+    recentPush: TieredRule;
+    // Open issue count, at most threshold
+    openIssues: TieredRule;
+    // Repository age in days, above threshold
+    maturity: ThresholdRule;
+  }>;
+  developmentPractices: DimensionRubric<{
+    // Total commit count, above threshold
+    commitCount: TieredRule;
+    // Average days between recent commits, below threshold
+    commitCadence: TieredRule;
+    defaultBranch: PointsRule;
+    // Days since the last update as a fraction of the repository's age,
+    // below threshold
+    maintenance: TieredRule;
+    license: PointsRule;
+  }>;
+  dependencyHealth: DimensionRubric<{
+    // Awarded instead of every other rule when no manifest exists
+    noManifests: PointsRule;
+    manifests: PointsRule;
+    lockfile: PointsRule;
+    partialLockfile: PointsRule;
+    // Dependencies without any version constraint, at most threshold
+    constraints: TieredRule;
+    noDuplicates: PointsRule;
+    // Runtime dependency count, at most threshold
+    footprint: ThresholdRule;
+  }>;
+  security: DimensionRubric<{
+    vulnerabilities: PenaltyRule;
+    noSecrets: PointsRule;
+    // Environment files committed but no secrets detected in them
+    envFilesOnly: PointsRule;
+  }>;
+}
+
+export interface RubricProfile {
+  id: string;
+  name: string;
+  description: string;
+  dimensions: RubricDimensions;
+}
+
+export const DEFAULT_RUBRIC = defaultProfile as RubricProfile;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonNegative(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+// Checks a merged value against the shape of the default profile, which is
+// the source of truth for which dimensions, rules and tiers exist
+function validateShape(
+  value: unknown,
+  expected: unknown,
+  path: string,
+  errors: string[],
+) {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be a list`);
+    } else if (value.length !== expected.length) {
+      errors.push(`${path} must have exactly ${expected.length} entries`);
+    } else {
+      value.forEach((item, index) =>
+        validateShape(item, expected[index], `${path}[${index}]`, errors),
+      );
+    }
+    return;
+  }
+
+  if (isRecord(expected)) {
+    if (!isRecord(value)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in expected)) errors.push(`Unknown setting ${path}.${key}`);
+    }
+    for (const [key, child] of Object.entries(expected)) {
+      validateShape(value[key], child, `${path}.${key}`, errors);
+    }
+    return;
+  }
+
+  if (!isNonNegative(value)) {
+    errors.push(`${path} must be a non-negative number`);
+  }
+}
+
+function merge(base: unknown, override: unknown): unknown {
+  if (override === undefined) return base;
+  if (!isRecord(base) || !isRecord(override)) return override;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = merge(base[key], value);
+  }
+  return merged;
+}
+
+// Fills in an override from the default profile and validates the result
+export function resolveRubric(override: unknown): RubricProfile {
+  if (!isRecord(override)) {
+    throw new Error("Rubric profile must be an object");
+  }
+  if (typeof override.id !== "string" || !override.id.trim()) {
+    throw new Error("Rubric profile needs an id");
+  }
+  if (typeof override.name !== "string" || !override.name.trim()) {
+    throw new Error("Rubric profile needs a name");
+  }
+
+  const dimensions = merge(DEFAULT_RUBRIC.dimensions, override.dimensions);
+  const errors: string[] = [];
+  validateShape(dimensions, DEFAULT_RUBRIC.dimensions, "dimensions", errors);
+  if (isRecord(dimensions)) {
+    for (const [key, dimension] of Object.entries(dimensions)) {
+      if (isRecord(dimension) && dimension.weight === 0) {
+        errors.push(`dimensions.${key}.weight must be greater than zero`);
+      }
+      if (isRecord(dimension) && dimension.maxScore === 0) {
+        errors.push(`dimensions.${key}.maxScore must be greater than zero`);
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid rubric profile: ${errors.join("; ")}`);
+  }
+
+  return {
+    id: override.id,
+    name: override.name,
+    description:
+      typeof override.description === "string" ? override.description : "",
+    dimensions: dimensions as RubricDimensions,
+  };
+}
+
+// Accepts JSON or YAML, since YAML is a superset of JSON
+export function parseRubric(text: string): RubricProfile {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (e) {
+    throw new Error(
+      `Rubric profile is not valid JSON or YAML: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+  return resolveRubric(data);
+}
+
+export const BUILT_IN_RUBRICS: RubricProfile[] = [
+  DEFAULT_RUBRIC,
+  resolveRubric(hiringProfile),
+];
+
+export function getSavedRubrics(): RubricProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!stored) return [];
+    return (JSON.parse(stored) as unknown[]).flatMap((profile) => {
+      try {
+        return [resolveRubric(profile)];
+      } catch (e) {
+        // Drop profiles that no longer match the rubric format
+        return [];
+      }
+    });
+  } catch (e) {
+    // Storage unavailable or corrupted
+    return [];
+  }
+}
+
+function writeSavedRubrics(profiles: RubricProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    // Storage unavailable
+  }
+}
+
+export function saveRubric(profile: RubricProfile) {
+  if (BUILT_IN_RUBRICS.some((builtIn) => builtIn.id === profile.id)) {
+    throw new Error(`"${profile.id}" is reserved for a built-in profile`);
+  }
+  writeSavedRubrics([
+    ...getSavedRubrics().filter((saved) => saved.id !== profile.id),
+    profile,
+  ]);
+}
+
+export function removeRubric(id: string) {
+  writeSavedRubrics(getSavedRubrics().filter((saved) => saved.id !== id));
+}
+
+export function listRubrics() {
+  return [...BUILT_IN_RUBRICS, ...getSavedRubrics()];
+}
+
+export function getSelectedRubric(): RubricProfile {
+  let id: string | null = null;
+  try {
+    id = localStorage.getItem(SELECTED_STORAGE_KEY);
+  } catch (e) {
+    // Storage unavailable
+  }
+  return listRubrics().find((profile) => profile.id === id) ?? DEFAULT_RUBRIC;
+}
+
+export function setSelectedRubric(id: string) {
+  try {
+    localStorage.setItem(SELECTED_STORAGE_KEY, id);
+  } catch (e) {
+    // Storage unavailable
+  }
+}
@@ -0,0 +1,97 @@
+import type { RuleEvidence, RuleResult, ScoreDimension } from "../types";
+import type {
+  DimensionRubric,
+  PenaltyRule,
+  PointsRule,
+  ThresholdRule,
+  TieredRule,
+} from "./rubric";
+
+export type RubricRule = PointsRule | ThresholdRule | TieredRule | PenaltyRule;
+
+export interface RuleOutcome {
+  points: number;
+  message: string;
+  details?: string[];
+  evidence?: RuleEvidence;
+}
+
+export interface Rule<Context, Rules> {
+  // Rubric key the rule draws its points from; rules without a rubric entry
+  // are informational and worth nothing
+  id: string;
+  // Returns false when the source cannot supply the data the rule needs,
+  // e.g. stars for an uploaded archive. Such rules are left out and their
+  // points no longer count towards the dimension maximum.
+  applies?(context: Context): boolean;
+  // Returns null when the rule does not apply to the repository, e.g. CI
+  // checks when there is no CI configuration to inspect
+  evaluate(context: Context, rules: Rules): RuleOutcome | null;
+}
+
+export function maxPoints(rule: RubricRule | undefined) {
+  if (!rule) return 0;
+  if ("tiers" in rule) {
+    return Math.max(
+      rule.fallback ?? 0,
+      ...rule.tiers.map((tier) => tier.points),
+    );
+  }
+  return rule.points;
+}
+
+export function evaluateRules<
+  Context,
+  Rules extends Record<string, RubricRule>,
+>(
+  definitions: Rule<Context, Rules>[],
+  context: Context,
+  { maxScore, rules }: DimensionRubric<Rules>,
+): ScoreDimension {
+  const pointsOf = (id: string) =>
+    maxPoints(rules[id] as RubricRule | undefined);
+
+  const results: RuleResult[] = [];
+  const notApplicable: string[] = [];
+  for (const definition of definitions) {
+    if (definition.applies && !definition.applies(context)) {
+      notApplicable.push(definition.id);
+      continue;
+    }
+    const outcome = definition.evaluate(context, rules);
+    if (!outcome) continue;
+
+    results.push({
+      id: definition.id,
+      points: outcome.points,
+      maxPoints: pointsOf(definition.id),
+      message: outcome.message,
+      details: outcome.details ?? [],
+      evidence: outcome.evidence ?? {},
+    });
+  }
+
+  const applicableIds = new Set(
+    definitions
+      .map((definition) => definition.id)
+      .filter((id) => !notApplicable.includes(id)),
+  );
+  const available = [...applicableIds].reduce(
+    (sum, id) => sum + pointsOf(id),
+    0,
+  );
+
+  return {
+    score: results.reduce((sum, result) => sum + result.points, 0),
+    // Profiles may offer more points than the maximum, so the maximum only
+    // shrinks once the remaining rules cannot reach it
+    maxScore:
+      notApplicable.length > 0 ? Math.min(maxScore, available) : maxScore,
+    feedback: results.flatMap((result) => [
+      result.message,
+      ...result.details,
+    ]),
+    rules: results,
+    notApplicable,
+  };
+}
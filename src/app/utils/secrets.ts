@@ -0,0 +1,233 @@
+import type {
+  FileTree,
+  SecretFinding,
+  SecretScanReport,
+} from "../types";
+import type { RepositoryProvider, RepositoryRef } from "./providers";
+import { getExtension, getFileName, listFiles } from "./fileTree";
+
+// Upper bounds on how much of the repository is downloaded for scanning
+const MAX_SCANNED_FILES = 40;
+const MAX_FILE_SIZE = 200 * 1024;
+const MAX_FINDINGS = 50;
+
+const BINARY_EXTENSIONS = new Set([
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "ico",
+  "svg",
+  "webp",
+  "pdf",
+  "zip",
+  "gz",
+  "tgz",
+  "jar",
+  "woff",
+  "woff2",
+  "ttf",
+  "eot",
+  "mp3",
+  "mp4",
+  "wasm",
+  "exe",
+  "dll",
+  "so",
+  "lock",
+]);
+
+// Files most likely to hold credentials are scanned first
+const CONFIG_EXTENSIONS = new Set([
+  "json",
+  "yml",
+  "yaml",
+  "toml",
+  "ini",
+  "cfg",
+  "conf",
+  "properties",
+  "xml",
+  "sh",
+  "tf",
+  "tfvars",
+]);
+
+const ENV_TEMPLATE = /\.(example|sample|template|dist|defaults)$/i;
+
+export function isEnvFile(path: string) {
+  return /^\.env(\..+)?$/.test(getFileName(path));
+}
+
+export function isCommittedEnvFile(path: string) {
+  return isEnvFile(path) && !ENV_TEMPLATE.test(getFileName(path));
+}
+
+interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  // Index of the capture group holding the secret; 0 for the whole match
+  group?: number;
+  // Restricts the rule to matching file paths
+  appliesTo?: (path: string) => boolean;
+  // Rejects matches that are placeholders or low-entropy values
+  validate?: (value: string) => boolean;
+  // False when the match is a marker rather than the secret itself
+  redact?: boolean;
+}
+
+// Values documentation and templates use in place of real credentials
+const PLACEHOLDER = /example|changeme|your[_-]|xxxx|dummy|placeholder|<.*>|\$\{/i;
+
+// Shannon entropy in bits per character
+export function entropy(value: string) {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: "aws-access-key-id",
+    description: "AWS access key ID",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+    validate: (value) => !PLACEHOLDER.test(value),
+  },
+  {
+    id: "aws-secret-access-key",
+    description: "AWS secret access key",
+    pattern:
+      /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i,
+    group: 1,
+    validate: (value) => !PLACEHOLDER.test(value),
+  },
+  {
+    id: "github-token",
+    description: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/,
+  },
+  {
+    id: "private-key",
+    description: "Private key",
+    pattern:
+      /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/,
+    redact: false,
+  },
+  {
+    id: "slack-token",
+    description: "Slack token",
+    pattern: /\bxox[abprs]-[0-9A-Za-z-]{10,}\b/,
+  },
+  {
+    id: "stripe-secret-key",
+    description: "Stripe live secret key",
+    pattern: /\b[sr]k_live_[0-9A-Za-z]{24,}\b/,
+  },
+  {
+    id: "env-high-entropy-secret",
+    description: "High-entropy secret in environment file",
+    pattern:
+      /^\s*(?:export\s+)?[A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|PWD|CREDENTIALS?)[A-Z0-9_]*\s*=\s*["']?([^\s"'#]{16,})/i,
+    group: 1,
+    appliesTo: isEnvFile,
+    validate: (value) => !PLACEHOLDER.test(value) && entropy(value) >= 3.5,
+  },
+];
+
+// Keeps enough of the value to recognize it without disclosing the secret
+export function redact(value: string) {
+  const visible = value.length > 12 ? 4 : 0;
+  return `${value.slice(0, visible)}${"*".repeat(Math.min(value.length - visible, 16))}`;
+}
+
+export function scanContent(path: string, content: string) {
+  const rules = SECRET_RULES.filter(
+    (rule) => !rule.appliesTo || rule.appliesTo(path),
+  );
+  const findings: SecretFinding[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    for (const rule of rules) {
+      const match = line.match(rule.pattern);
+      if (!match) continue;
+      const value = match[rule.group ?? 0];
+      if (rule.validate && !rule.validate(value)) continue;
+
+      findings.push({
+        ruleId: rule.id,
+        description: rule.description,
+        path,
+        line: index + 1,
+        preview: (rule.redact === false
+          ? line
+          : line.replace(value, redact(value))
+        )
+          .trim()
+          .slice(0, 120),
+      });
+      // One finding per line is enough to point at the leak
+      break;
+    }
+  });
+
+  return findings;
+}
+
+function scanPriority(path: string) {
+  if (isEnvFile(path)) return 0;
+  if (CONFIG_EXTENSIONS.has(getExtension(path))) return 1;
+  return 2;
+}
+
+// Picks the text files to download, favouring environment and config files
+export function selectScanCandidates(tree: FileTree) {
+  const sizes = new Map(
+    tree.entries.map((entry) => [entry.path, entry.size]),
+  );
+  return listFiles(tree)
+    .filter(
+      (path) =>
+        !BINARY_EXTENSIONS.has(getExtension(path)) &&
+        (sizes.get(path) ?? 0) <= MAX_FILE_SIZE &&
+        !/\.min\.[cm]?js$/.test(path),
+    )
+    .sort((a, b) => scanPriority(a) - scanPriority(b));
+}
+
+export async function scanForSecrets(
+  provider: RepositoryProvider,
+  ref: RepositoryRef,
+  tree: FileTree,
+  branch: string,
+  maxFiles = MAX_SCANNED_FILES,
+): Promise<SecretScanReport> {
+  const candidates = selectScanCandidates(tree);
+  const sample = candidates.slice(0, maxFiles);
+
+  const files = await Promise.all(
+    sample.map(async (path) => ({
+      path,
+      content: await provider.fetchFile(ref, path, branch).catch(() => null),
+    })),
+  );
+  const scanned = files.filter(
+    (file): file is { path: string; content: string } =>
+      file.content !== null,
+  );
+
+  return {
+    scannedFiles: scanned.length,
+    candidateFiles: candidates.length,
+    failedFiles: files.length - scanned.length,
+    committedEnvFiles: listFiles(tree).filter(isCommittedEnvFile),
+    findings: scanned
+      .flatMap((file) => scanContent(file.path, file.content))
+      .slice(0, MAX_FINDINGS),
+  };
+}
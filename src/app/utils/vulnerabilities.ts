@@ -0,0 +1,319 @@
+import type {
+  AdvisorySeverity,
+  DependencyReport,
+  Ecosystem,
+  VulnerabilityFinding,
+  VulnerabilityReport,
+} from "../types";
+
+// Subset of the OSV schema kept by scripts/update-advisories.mjs
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+}
+
+interface OsvAffected {
+  package: { ecosystem: string; name: string };
+  ranges?: Array<{ type: string; events: OsvEvent[] }>;
+  versions?: string[];
+}
+
+interface OsvAdvisory {
+  id: string;
+  summary: string;
+  aliases?: string[];
+  database_specific?: { severity?: string };
+  affected: OsvAffected[];
+}
+
+export interface AdvisoryDatabase {
+  // ISO timestamp of the oldest export the advisories come from, or null
+  // when no ecosystem was loaded
+  generated: string | null;
+  // Whether any of the advisories are the development sample rather than
+  // an export of the OSV database
+  sample: boolean;
+  advisories: OsvAdvisory[];
+}
+
+interface AdvisoryFile {
+  generated: string;
+  sample: boolean;
+  advisories: OsvAdvisory[];
+}
+
+// Advisories are split by ecosystem and loaded on demand, so the bundle
+// only downloads those of the ecosystems a repository depends on. The files
+// are written by scripts/update-advisories.mjs.
+const ADVISORY_FILES: Record<
+  Ecosystem,
+  () => Promise<{ default: unknown }>
+> = {
+  npm: () => import("../data/advisories/npm.json"),
+  PyPI: () => import("../data/advisories/pypi.json"),
+  "crates.io": () => import("../data/advisories/crates-io.json"),
+  Go: () => import("../data/advisories/go.json"),
+  Maven: () => import("../data/advisories/maven.json"),
+  RubyGems: () => import("../data/advisories/rubygems.json"),
+};
+
+export async function loadAdvisories(
+  ecosystems: Ecosystem[],
+): Promise<AdvisoryDatabase> {
+  const files = await Promise.all(
+    [...new Set(ecosystems)].map(
+      async (ecosystem) =>
+        (await ADVISORY_FILES[ecosystem]()).default as AdvisoryFile,
+    ),
+  );
+  return {
+    generated: files.map((file) => file.generated).sort()[0] ?? null,
+    sample: files.some((file) => file.sample),
+    advisories: files.flatMap((file) => file.advisories),
+  };
+}
+
+export const SEVERITY_RANK: Record<AdvisorySeverity, number> = {
+  CRITICAL: 4,
+  HIGH: 3,
+  MODERATE: 2,
+  LOW: 1,
+  UNKNOWN: 0,
+};
+
+function normalizeSeverity(severity: string | undefined): AdvisorySeverity {
+  const upper = severity?.toUpperCase();
+  if (upper === "MEDIUM") return "MODERATE";
+  return upper && upper in SEVERITY_RANK
+    ? (upper as AdvisorySeverity)
+    : "UNKNOWN";
+}
+
+// PyPI names are case-insensitive and treat -, _ and . as equivalent
+function normalizeName(ecosystem: string, name: string) {
+  return ecosystem === "PyPI"
+    ? name.toLowerCase().replace(/[-_.]+/g, "-")
+    : name;
+}
+
+function normalizeVersion(version: string) {
+  return version.trim().replace(/^=+\s*/, "").replace(/^v/, "");
+}
+
+// Post-release suffixes sort after the release they extend; every other
+// suffix is treated as a pre-release
+const POST_RELEASE = /^[.-]?(post|rev|r|p)\d*/i;
+
+function splitVersion(version: string) {
+  const match = normalizeVersion(version)
+    .replace(/\+.*$/, "")
+    .match(/^(\d+(?:\.\d+)*)(.*)$/);
+  return {
+    parts: (match?.[1] ?? "0").split(".").map(Number),
+    suffix: match?.[2] ?? version,
+  };
+}
+
+// Ordering shared by all ecosystems: numeric release segments first, then
+// pre-release < release < post-release. Good enough for OSV range events,
+// which are almost always plain release numbers.
+export function compareVersions(a: string, b: string) {
+  const left = splitVersion(a);
+  const right = splitVersion(b);
+  const length = Math.max(left.parts.length, right.parts.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (left.parts[i] ?? 0) - (right.parts[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+
+  if (left.suffix === right.suffix) return 0;
+  const rank = (suffix: string) =>
+    suffix === "" ? 1 : POST_RELEASE.test(suffix) ? 2 : 0;
+  const rankDiff = rank(left.suffix) - rank(right.suffix);
+  if (rankDiff !== 0) return Math.sign(rankDiff);
+  return Math.sign(
+    left.suffix.localeCompare(right.suffix, undefined, { numeric: true }),
+  );
+}
+
+// Smallest version a declared requirement admits, e.g. "^4.17.0" -> 4.17.0
+// and "1.2.x || >=2" -> 1.2.0. Returns null for requirements without a
+// lower bound.
+export function lowestAllowedVersion(range: string): string | null {
+  if (/^[[(]\s*,/.test(range.trim())) return null;
+
+  const bounds = range
+    .split("||")
+    .map((alternative) => {
+      for (const match of alternative.matchAll(
+        /(<=|<|>=|>|!=|\^|~>|~=|~|===|==|=)?\s*v?(\d+(?:\.(?:\d+|[xX*]))*(?:-[\w.]+)?)/g,
+      )) {
+        if (match[1] && ["<", "<=", "!="].includes(match[1])) continue;
+        return match[2].replace(/\.[xX*]/g, ".0");
+      }
+      return null;
+    })
+    .filter((bound): bound is string => bound !== null);
+
+  return bounds.length > 0
+    ? bounds.sort(compareVersions)[0]
+    : null;
+}
+
+// Returns the first fixed version of the affected range containing the
+// version, null if no fix exists, or undefined if the version is unaffected
+function findAffectingRange(
+  version: string,
+  affected: OsvAffected,
+): string | null | undefined {
+  if (affected.versions?.includes(version)) return null;
+
+  for (const range of affected.ranges ?? []) {
+    if (range.type === "GIT") continue;
+
+    let introduced: string | null = null;
+    for (const event of range.events) {
+      if (event.introduced !== undefined) {
+        introduced = event.introduced;
+      } else if (event.fixed !== undefined && introduced !== null) {
+        if (
+          compareVersions(version, introduced) >= 0 &&
+          compareVersions(version, event.fixed) < 0
+        ) {
+          return event.fixed;
+        }
+        introduced = null;
+      } else if (
+        event.last_affected !== undefined &&
+        introduced !== null
+      ) {
+        if (
+          compareVersions(version, introduced) >= 0 &&
+          compareVersions(version, event.last_affected) <= 0
+        ) {
+          return null;
+        }
+        introduced = null;
+      }
+    }
+    if (introduced !== null && compareVersions(version, introduced) >= 0) {
+      return null;
+    }
+  }
+  return undefined;
+}
+
+interface Candidate {
+  ecosystem: Ecosystem;
+  name: string;
+  version: string;
+  manifest: string | null;
+  inferred: boolean;
+}
+
+function collectCandidates(report: DependencyReport) {
+  const candidates = new Map<string, Candidate>();
+  const add = (candidate: Candidate) => {
+    const key = `${candidate.ecosystem}:${normalizeName(candidate.ecosystem, candidate.name)}@${candidate.version}`;
+    if (!candidates.has(key)) candidates.set(key, candidate);
+  };
+
+  // Lockfile versions are what actually gets installed, so they take
+  // precedence over declared requirements
+  const resolvedNames = new Set(
+    report.resolvedPackages.map((pkg) => `${pkg.ecosystem}:${pkg.name}`),
+  );
+  for (const pkg of report.resolvedPackages) {
+    const declared = report.dependencies.find(
+      (dep) => dep.ecosystem === pkg.ecosystem && dep.name === pkg.name,
+    );
+    add({ ...pkg, manifest: declared?.manifest ?? null, inferred: false });
+  }
+
+  for (const dep of report.dependencies) {
+    if (!dep.range || resolvedNames.has(`${dep.ecosystem}:${dep.name}`)) {
+      continue;
+    }
+    const version =
+      dep.constraint === "pinned"
+        ? normalizeVersion(dep.range)
+        : lowestAllowedVersion(dep.range);
+    if (!version || !/^\d/.test(version)) continue;
+
+    add({
+      ecosystem: dep.ecosystem,
+      name: dep.name,
+      version,
+      manifest: dep.manifest,
+      inferred: dep.constraint !== "pinned",
+    });
+  }
+
+  return [...candidates.values()];
+}
+
+// Matches the packages a project installs against the advisories of their
+// ecosystems, which are loaded unless a database is given
+export async function matchVulnerabilities(
+  report: DependencyReport,
+  database?: AdvisoryDatabase,
+): Promise<VulnerabilityReport> {
+  const candidates = collectCandidates(report);
+  const { generated, sample, advisories } =
+    database ??
+    (await loadAdvisories(candidates.map(({ ecosystem }) => ecosystem)));
+
+  const index = new Map<
+    string,
+    Array<{ advisory: OsvAdvisory; affected: OsvAffected }>
+  >();
+  for (const advisory of advisories) {
+    for (const affected of advisory.affected) {
+      const key = `${affected.package.ecosystem}:${normalizeName(affected.package.ecosystem, affected.package.name)}`;
+      const entries = index.get(key) ?? [];
+      entries.push({ advisory, affected });
+      index.set(key, entries);
+    }
+  }
+
+  const findings: VulnerabilityFinding[] = [];
+  for (const candidate of candidates) {
+    const key = `${candidate.ecosystem}:${normalizeName(candidate.ecosystem, candidate.name)}`;
+    for (const { advisory, affected } of index.get(key) ?? []) {
+      const fixedVersion = findAffectingRange(
+        candidate.version,
+        affected,
+      );
+      if (fixedVersion === undefined) continue;
+
+      findings.push({
+        advisoryId: advisory.id,
+        aliases: advisory.aliases ?? [],
+        summary: advisory.summary,
+        severity: normalizeSeverity(
+          advisory.database_specific?.severity,
+        ),
+        ecosystem: candidate.ecosystem,
+        packageName: candidate.name,
+        version: candidate.version,
+        fixedVersion,
+        manifest: candidate.manifest,
+        inferred: candidate.inferred,
+      });
+    }
+  }
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      a.packageName.localeCompare(b.packageName),
+  );
+
+  return {
+    snapshotDate: generated,
+    sample,
+    checkedPackages: candidates.length,
+    findings,
+  };
+}